@@ -1,26 +1,58 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useLanguage } from './components/i18n/LanguageContext';
 import Editor from './components/Editor';
 import VideoRecorder from './components/VideoRecorder';
 import PreviewWindow from './components/PreviewWindow';
 import HistoryPanel from './components/HistoryPanel';
+import ScrollCapture from './components/ScrollCapture';
+import SavedRegions from './components/SavedRegions';
 import LicenseModal from './components/LicenseModal';
+import AutoSaveSettings from './components/AutoSaveSettings';
+import HistorySettings from './components/HistorySettings';
 import { IconCamera, IconVideo, IconHistory, IconSettings, IconSparkles } from './components/Icons';
-import { AppMode, CaptureHistory } from './types';
+import { AppMode, CaptureHistory, CaptureType, CleanSnapProject, DEFAULT_BACKGROUND, HistoryAddRequest, HistoryUpdate } from './types';
 import { CaptureService } from './services/captureService';
+import { HistoryService } from './services/historyService';
 import { getLicenseStatus } from './services/licenseService';
+import { createCompositionProject } from './utils/imageLayers';
+
+// History search matches on the saved file name; paths from the main process use the platform separator
+const fileNameOf = (filePath?: string) => filePath?.split(/[\\/]/).pop() || undefined;
 
 function App() {
   const { t, language, setLanguage } = useLanguage();
   const [mode, setMode] = useState<AppMode>(AppMode.HOME);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  // Layers to restore in the Editor and the history entry the Editor is working on
+  const [editorProject, setEditorProject] = useState<CleanSnapProject | null>(null);
+  const [editingHistoryId, setEditingHistoryId] = useState<string | null>(null);
+  const latestProjectRef = useRef<CleanSnapProject | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [history, setHistory] = useState<CaptureHistory[]>([]);
   const [showSettingsMenu, setShowSettingsMenu] = useState(false);
   const [showLicenseModal, setShowLicenseModal] = useState(false);
+  const [showAutoSaveSettings, setShowAutoSaveSettings] = useState(false);
+  const [showHistorySettings, setShowHistorySettings] = useState(false);
+  const [autoSaveEnabled, setAutoSaveEnabled] = useState(false);
+  const [ocrEnabled, setOcrEnabled] = useState(false);
   const [licenseStatus, setLicenseStatus] = useState(() => getLicenseStatus());
   const [showPermissionModal, setShowPermissionModal] = useState(false);
   const [permissionType, setPermissionType] = useState<'missing' | 'partial'>('missing');
+  const [captureDelay, setCaptureDelay] = useState(0);
+  const [hasPreviousRegion, setHasPreviousRegion] = useState(false);
+  const [showIntervalPanel, setShowIntervalPanel] = useState(false);
+  const [intervalSeconds, setIntervalSeconds] = useState(10);
+  const [intervalMinutes, setIntervalMinutes] = useState(5);
+  const [intervalFrames, setIntervalFrames] = useState<number | null>(null);
+  const [autoSavedPath, setAutoSavedPath] = useState<string | null>(null);
+  const stopIntervalRef = useRef<(() => void) | null>(null);
+
+  // Auto-save notice disappears on its own
+  useEffect(() => {
+    if (!autoSavedPath) return;
+    const timer = setTimeout(() => setAutoSavedPath(null), 5000);
+    return () => clearTimeout(timer);
+  }, [autoSavedPath]);
 
   // Handle click outside settings menu
   useEffect(() => {
@@ -34,19 +66,28 @@ function App() {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [showSettingsMenu]);
 
-  // Load history from localStorage
+  // Load history from the library (migrates old localStorage entries on first run)
   useEffect(() => {
-    const savedHistory = localStorage.getItem('cleansnap-history');
-    if (savedHistory) {
-      try {
-        const parsed = JSON.parse(savedHistory);
-        setHistory(parsed.slice(0, 50)); // Keep last 50 items
-      } catch (e) {
-        console.error('Failed to load history', e);
-      }
+    HistoryService.list()
+      .then(setHistory)
+      .catch((e) => console.error('Failed to load history', e));
+  }, []);
+
+  // Load persisted capture timer
+  useEffect(() => {
+    if (typeof window !== 'undefined' && 'electronAPI' in window) {
+      window.electronAPI.getSettings().then((settings) => {
+        setCaptureDelay(settings.captureDelay);
+        setHasPreviousRegion(!!settings.lastRegion);
+        setAutoSaveEnabled(settings.autoSave.enabled);
+        setOcrEnabled(settings.historyOcr);
+      });
     }
   }, []);
 
+  // Stop a running interval session when the app unmounts
+  useEffect(() => () => stopIntervalRef.current?.(), []);
+
   // Listen for preview images from Electron
   useEffect(() => {
     if (typeof window !== 'undefined' && 'electronAPI' in window) {
@@ -85,43 +126,199 @@ function App() {
     }
   }, []);
 
-  const addToHistory = (imageData: string) => {
-    const newItem: CaptureHistory = {
-      id: Date.now().toString(),
-      imageData,
-      timestamp: Date.now(),
-    };
-    const updatedHistory = [newItem, ...history].slice(0, 50);
-    setHistory(updatedHistory);
-    localStorage.setItem('cleansnap-history', JSON.stringify(updatedHistory));
+  const addToHistory = (imageData: string, meta: Omit<HistoryAddRequest, 'id' | 'imageData'> = {}): string => {
+    const id = Date.now().toString();
+    HistoryService.add({ ...meta, id, imageData, timestamp: Date.now() })
+      .then(({ entry, removed }) => {
+        // Functional update: interval captures add frames from a long-lived callback
+        setHistory((prev) => [entry, ...prev.filter((item) => item.id !== id && !removed.includes(item.id))]);
+      })
+      .catch((e) => console.error('Failed to add to history', e));
+    return id;
+  };
+
+  const updateHistoryItem = (id: string, patch: HistoryUpdate) => {
+    HistoryService.update(id, patch)
+      .then((entry) => {
+        if (entry) setHistory((prev) => prev.map((item) => (item.id === entry.id ? entry : item)));
+      })
+      .catch((e) => console.error('Failed to update history', e));
+  };
+
+  // Background OCR (opt-in, sends captures to Gemini): index one capture at a time so history
+  // search can match on-screen text. Stops for the session on the first failure (e.g. no API key).
+  const ocrBusyRef = useRef(false);
+  const [ocrAvailable, setOcrAvailable] = useState(true);
+  const pendingOcr = ocrEnabled && ocrAvailable
+    ? history.filter((item) => item.ocrText === undefined && item.captureType !== 'recording')
+    : [];
+  const nextOcrId = pendingOcr[0]?.id;
+
+  useEffect(() => {
+    if (ocrBusyRef.current || !nextOcrId) return;
+    ocrBusyRef.current = true;
+    HistoryService.indexText(nextOcrId)
+      .then((entry) => {
+        if (entry) setHistory((prev) => prev.map((item) => (item.id === entry.id ? entry : item)));
+      })
+      .catch((e) => {
+        console.warn('[History] OCR indexing unavailable:', e);
+        setOcrAvailable(false);
+      })
+      .finally(() => {
+        ocrBusyRef.current = false;
+      });
+  }, [nextOcrId]);
+
+  const openEditor = (imageData: string, historyId: string | null, project: CleanSnapProject | null = null) => {
+    setCapturedImage(imageData);
+    setEditorProject(project);
+    setEditingHistoryId(historyId);
+    latestProjectRef.current = project;
+    setMode(AppMode.EDITOR);
   };
 
-  const handleCapture = async (type: 'fullscreen' | 'area' | 'window' = 'area') => {
+  // Keep the Editor's layers with the history entry so reopening it restores them
+  const handleProjectChange = (project: CleanSnapProject) => {
+    latestProjectRef.current = project;
+    if (!editingHistoryId) return;
+    HistoryService.setProject(editingHistoryId, project)
+      .then((entry) => {
+        if (entry) setHistory((prev) => prev.map((item) => (item.id === entry.id ? entry : item)));
+      })
+      .catch((e) => console.error('Failed to update history project', e));
+  };
+
+  const openHistoryItem = async (item: CaptureHistory) => {
+    const [imageData, project] = await Promise.all([HistoryService.getImage(item.id), HistoryService.getProject(item.id)]);
+    if (!imageData && !project) {
+      console.error('History image missing', item.id);
+      return;
+    }
+    openEditor(project?.image ?? imageData!, item.id, project);
+  };
+
+  // Several captures in one editor: the first is the base image, the rest become image layers
+  const openHistoryItems = async (items: CaptureHistory[]) => {
+    try {
+      const images = (await Promise.all(items.map((item) => HistoryService.getImage(item.id)))).filter((image): image is string => !!image);
+      if (images.length === 0) return;
+      const project = await createCompositionProject(images, DEFAULT_BACKGROUND);
+      openEditor(project.image, null, project);
+    } catch (error) {
+      console.error('Open captures together failed:', error);
+    }
+  };
+
+  const handleOpenProject = async () => {
+    try {
+      const project = await CaptureService.openProject();
+      if (project) {
+        openEditor(project.image, addToHistory(project.image, { project }), project);
+      }
+    } catch (error) {
+      console.error('Open project failed:', error);
+      alert(t('project.open_failed'));
+    }
+  };
+
+  const handleDelayChange = (seconds: number) => {
+    setCaptureDelay(seconds);
+    if (typeof window !== 'undefined' && 'electronAPI' in window) {
+      window.electronAPI.updateSettings({ captureDelay: seconds });
+    }
+  };
+
+  const startIntervalCapture = () => {
+    setIntervalFrames(0);
+    stopIntervalRef.current = CaptureService.startIntervalCapture(
+      { intervalSeconds, durationMinutes: intervalMinutes, fullscreenMode: 'cursor' },
+      (imageData) => {
+        addToHistory(imageData, { captureType: 'fullscreen' });
+        setIntervalFrames((n) => (n ?? 0) + 1);
+      },
+      () => {
+        stopIntervalRef.current = null;
+        setIntervalFrames(null);
+      }
+    );
+  };
+
+  const stopIntervalCapture = () => {
+    stopIntervalRef.current?.();
+  };
+
+  const handleCapture = async (
+    type: 'fullscreen' | 'all-displays' | 'area' | 'window' | 'previous-region' | 'saved-region' = 'area',
+    regionId?: string
+  ) => {
     try {
       let imageData = '';
+      let source: string | undefined;
+      let savedPath: string | undefined;
+      const captureType: CaptureType = type === 'window' ? 'window' : type === 'fullscreen' || type === 'all-displays' ? 'fullscreen' : 'area';
+      const options = {
+        autoCopy: false,
+        autoSave: autoSaveEnabled,
+        delay: captureDelay,
+        onSaved: (path: string) => {
+          savedPath = path;
+          setAutoSavedPath(path);
+        },
+      };
 
       switch (type) {
         case 'fullscreen':
-          imageData = await CaptureService.captureFullscreen({ autoCopy: false });
+          imageData = await CaptureService.captureFullscreen({ ...options, fullscreenMode: 'cursor' });
+          break;
+        case 'all-displays':
+          imageData = await CaptureService.captureFullscreen({ ...options, fullscreenMode: 'all' });
           break;
         case 'area':
-          imageData = await CaptureService.captureArea({ autoCopy: false });
+          imageData = await CaptureService.captureArea(options);
+          if (imageData) setHasPreviousRegion(true);
+          break;
+        case 'previous-region':
+          imageData = await CaptureService.capturePreviousRegion(options);
+          break;
+        case 'saved-region':
+          imageData = regionId ? await CaptureService.captureSavedRegion(regionId, options) : '';
           break;
         case 'window':
-          imageData = await CaptureService.captureWindow({ autoCopy: false });
+          imageData = await CaptureService.captureWindow({
+            ...options,
+            windowShadow: true,
+            windowCornerRadius: 10,
+            onSource: (name) => { source = name; },
+          });
           break;
       }
 
       if (imageData) {
-        setCapturedImage(imageData);
-        addToHistory(imageData);
-        setMode(AppMode.EDITOR);
+        openEditor(imageData, addToHistory(imageData, { captureType, source, filename: fileNameOf(savedPath) }));
       }
     } catch (err) {
       console.error("Capture failed", err);
     }
   };
 
+  // Shortcut-triggered captures that have to run in the renderer (window capture grabs frames via getUserMedia)
+  const handleCaptureRef = useRef(handleCapture);
+  handleCaptureRef.current = handleCapture;
+  useEffect(() => {
+    if (typeof window !== 'undefined' && 'electronAPI' in window) {
+      return window.electronAPI.onGlobalShortcut((command: string) => {
+        if (command === 'capture-window') {
+          handleCaptureRef.current('window');
+        } else if (command === 'capture-previous-region') {
+          handleCaptureRef.current('previous-region');
+        } else if (command.startsWith('capture-region:')) {
+          handleCaptureRef.current('saved-region', command.slice('capture-region:'.length));
+        }
+      });
+    }
+  }, []);
+
   return (
     <div className="min-h-screen bg-slate-900 text-white flex items-center justify-center p-4 relative">
       <div className="app-drag-region" />
@@ -175,6 +372,24 @@ function App() {
                   中文 (Chinese)
                   {language === 'zh' && <div className="w-1.5 h-1.5 rounded-full bg-blue-400" />}
                 </button>
+                {typeof window !== 'undefined' && 'electronAPI' in window && (
+                  <>
+                    <div className="my-1 border-t border-slate-700" />
+                    <button
+                      onClick={() => { setShowAutoSaveSettings(true); setShowSettingsMenu(false); }}
+                      className="w-full text-left px-4 py-2 text-sm text-slate-300 hover:bg-slate-700/50 transition-colors flex items-center justify-between"
+                    >
+                      {t('autosave.title')}
+                      {autoSaveEnabled && <div className="w-1.5 h-1.5 rounded-full bg-green-400" />}
+                    </button>
+                    <button
+                      onClick={() => { setShowHistorySettings(true); setShowSettingsMenu(false); }}
+                      className="w-full text-left px-4 py-2 text-sm text-slate-300 hover:bg-slate-700/50 transition-colors"
+                    >
+                      {t('history_settings.title')}
+                    </button>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -190,6 +405,27 @@ function App() {
         }}
       />
 
+      {/* Auto-save Settings (desktop only) */}
+      {typeof window !== 'undefined' && 'electronAPI' in window && (
+        <AutoSaveSettings
+          isOpen={showAutoSaveSettings}
+          onClose={() => setShowAutoSaveSettings(false)}
+          onChange={(settings) => setAutoSaveEnabled(settings.enabled)}
+        />
+      )}
+
+      {/* History Library Settings (desktop only) */}
+      {typeof window !== 'undefined' && 'electronAPI' in window && (
+        <HistorySettings
+          isOpen={showHistorySettings}
+          onClose={() => setShowHistorySettings(false)}
+          onChange={(settings) => {
+            setOcrEnabled(settings.historyOcr);
+            HistoryService.list().then(setHistory);
+          }}
+        />
+      )}
+
       {/* Permission Modal (Windows only) */}
       {showPermissionModal && typeof window !== 'undefined' && 'electronAPI' in window && window.electronAPI.platform === 'win32' && (
         <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center animate-in fade-in duration-300">
@@ -285,16 +521,122 @@ function App() {
               </div>
             </button>
 
+            {typeof window !== 'undefined' && 'electronAPI' in window && (
+              <>
+                <button
+                  onClick={() => handleCapture('previous-region')}
+                  disabled={!hasPreviousRegion}
+                  className="group w-full bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 border border-slate-700 hover:border-slate-600 text-white font-medium py-2.5 px-4 rounded-xl flex items-center justify-between transition-all"
+                >
+                  <div className="text-left">
+                    <div className="text-xs">{t('home.capture_previous_region')}</div>
+                  </div>
+                </button>
+                <SavedRegions
+                  hasPreviousRegion={hasPreviousRegion}
+                  onCapture={(regionId) => handleCapture('saved-region', regionId)}
+                />
+              </>
+            )}
+
             <button
-              onClick={() => handleCapture('fullscreen')}
+              onClick={() => handleCapture('window')}
               className="group w-full bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-slate-600 text-white font-medium py-2.5 px-4 rounded-xl flex items-center justify-between transition-all"
             >
               <div className="text-left">
-                <div className="text-xs">{t('home.capture_fullscreen')}</div>
+                <div className="text-xs">{t('home.capture_window')}</div>
               </div>
             </button>
 
+            <button
+              onClick={() => setMode(AppMode.SCROLL_CAPTURE)}
+              className="group w-full bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-slate-600 text-white font-medium py-2.5 px-4 rounded-xl flex items-center justify-between transition-all"
+            >
+              <div className="text-left">
+                <div className="text-xs">{t('home.capture_scrolling')}</div>
+              </div>
+            </button>
 
+            <div className="flex gap-2.5">
+              <button
+                onClick={() => handleCapture('fullscreen')}
+                className="group flex-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-slate-600 text-white font-medium py-2.5 px-4 rounded-xl flex items-center justify-between transition-all"
+              >
+                <div className="text-left">
+                  <div className="text-xs">{t('home.capture_fullscreen')}</div>
+                </div>
+              </button>
+              <button
+                onClick={() => handleCapture('all-displays')}
+                className="group flex-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 hover:border-slate-600 text-white font-medium py-2.5 px-4 rounded-xl flex items-center justify-between transition-all"
+              >
+                <div className="text-left">
+                  <div className="text-xs">{t('home.capture_all_displays')}</div>
+                </div>
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-2 px-1">
+              <span className="text-[11px] text-slate-400">{t('home.timer')}</span>
+              <div className="flex bg-slate-800 border border-slate-700 rounded-lg p-0.5">
+                {[0, 3, 5, 10].map((seconds) => (
+                  <button
+                    key={seconds}
+                    onClick={() => handleDelayChange(seconds)}
+                    className={`px-2.5 py-1 text-[11px] rounded-md transition-colors ${
+                      captureDelay === seconds ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {seconds === 0 ? t('home.timer_off') : t('home.timer_seconds').replace('%s', seconds.toString())}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-slate-800/60 border border-slate-700/50 rounded-xl">
+              <button
+                onClick={() => setShowIntervalPanel(!showIntervalPanel)}
+                className="w-full py-2.5 px-4 text-left text-xs text-white flex items-center justify-between"
+              >
+                <span>{t('interval.title')}</span>
+                {intervalFrames !== null && (
+                  <span className="text-[11px] text-blue-400">{t('interval.frames').replace('%s', intervalFrames.toString())}</span>
+                )}
+              </button>
+              {showIntervalPanel && (
+                <div className="px-4 pb-3 space-y-2">
+                  <div className="flex items-center gap-2 text-[11px] text-slate-400">
+                    <span>{t('interval.every')}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={intervalSeconds}
+                      disabled={intervalFrames !== null}
+                      onChange={(e) => setIntervalSeconds(Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-14 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-white"
+                    />
+                    <span>{t('interval.seconds_for')}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={intervalMinutes}
+                      disabled={intervalFrames !== null}
+                      onChange={(e) => setIntervalMinutes(Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-14 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-white"
+                    />
+                    <span>{t('interval.minutes')}</span>
+                  </div>
+                  <button
+                    onClick={intervalFrames === null ? startIntervalCapture : stopIntervalCapture}
+                    className={`w-full py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                      intervalFrames === null ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-red-600 hover:bg-red-500 text-white'
+                    }`}
+                  >
+                    {intervalFrames === null ? t('interval.start') : t('interval.stop')}
+                  </button>
+                </div>
+              )}
+            </div>
 
             <button
               onClick={() => setMode(AppMode.VIDEO_PREVIEW)}
@@ -311,6 +653,15 @@ function App() {
               </div>
             </button>
 
+            <button
+              onClick={handleOpenProject}
+              className="group w-full bg-slate-800/60 hover:bg-slate-800 border border-slate-700/50 hover:border-slate-600 text-white font-medium py-2.5 px-4 rounded-xl flex items-center justify-between transition-all"
+            >
+              <div className="text-left">
+                <div className="text-xs">{t('home.open_project')}</div>
+              </div>
+            </button>
+
             {history.length > 0 && (
               <button
                 onClick={() => setMode(AppMode.HISTORY)}
@@ -346,12 +697,26 @@ function App() {
         <div className="fixed inset-0 z-50">
           <Editor
             imageSrc={capturedImage}
-            onClose={() => { setCapturedImage(null); setMode(AppMode.HOME); }}
-            onSave={async (imageData) => {
+            initialProject={editorProject}
+            onClose={() => { setCapturedImage(null); setEditorProject(null); setEditingHistoryId(null); setMode(AppMode.HOME); }}
+            onProjectChange={handleProjectChange}
+            wallpaperHistory={history}
+            onSaveProject={async (project) => {
+              const result = await CaptureService.saveProject(project);
+              if (result.success) console.log('Project saved successfully', result.path);
+            }}
+            onSave={async (imageData, options) => {
               try {
-                const result = await CaptureService.saveImage(imageData);
+                const result = await CaptureService.saveImage(imageData, undefined, options);
                 if (result.success) {
-                  addToHistory(imageData);
+                  // The exported image keeps the layers and search metadata of the capture it came from
+                  const origin = history.find((item) => item.id === editingHistoryId);
+                  addToHistory(imageData, {
+                    project: latestProjectRef.current ?? undefined,
+                    captureType: origin?.captureType,
+                    source: origin?.source,
+                    filename: fileNameOf(result.path),
+                  });
                   console.log('Image saved successfully', result.path);
                 } else {
                   console.error('Save failed:', result);
@@ -368,34 +733,68 @@ function App() {
         </div>
       )}
 
+      {mode === AppMode.SCROLL_CAPTURE && (
+        <ScrollCapture
+          onClose={() => setMode(AppMode.HOME)}
+          onComplete={(imageData) => {
+            openEditor(imageData, addToHistory(imageData, { captureType: 'scroll' }));
+          }}
+        />
+      )}
+
       {mode === AppMode.VIDEO_PREVIEW && (
-        <VideoRecorder onClose={() => setMode(AppMode.HOME)} />
+        <VideoRecorder
+          onClose={() => {
+            setMode(AppMode.HOME);
+            // Saved recordings are added to the library by the main process
+            HistoryService.list().then(setHistory);
+          }}
+        />
       )}
 
       {mode === AppMode.HISTORY && (
         <HistoryPanel
           history={history}
           onClose={() => setMode(AppMode.HOME)}
-          onSelect={(item) => {
-            setCapturedImage(item.imageData);
-            setMode(AppMode.EDITOR);
-          }}
+          pendingOcr={pendingOcr.length}
+          onSelect={openHistoryItem}
+          onOpenMany={openHistoryItems}
+          onUpdate={updateHistoryItem}
           onDelete={(id) => {
-            const updated = history.filter(h => h.id !== id);
-            setHistory(updated);
-            localStorage.setItem('cleansnap-history', JSON.stringify(updated));
+            HistoryService.delete(id);
+            setHistory((prev) => prev.filter(h => h.id !== id));
+          }}
+          onDeleteMany={(ids) => {
+            ids.forEach((id) => HistoryService.delete(id));
+            setHistory((prev) => prev.filter(h => !ids.includes(h.id)));
           }}
+          onImported={() => HistoryService.list().then(setHistory)}
         />
       )}
 
+      {autoSavedPath && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[110] flex items-center gap-3 max-w-[90vw] px-4 py-2.5 rounded-xl bg-slate-900/95 border border-slate-700 shadow-2xl text-sm text-slate-200">
+          <span className="truncate" title={autoSavedPath}>{t('autosave.saved_to').replace('%s', autoSavedPath)}</span>
+          <button
+            onClick={() => {
+              window.electronAPI.showItemInFolder(autoSavedPath);
+              setAutoSavedPath(null);
+            }}
+            className="shrink-0 text-blue-400 hover:text-blue-300 font-medium"
+          >
+            {t('autosave.show_in_folder')}
+          </button>
+          <button onClick={() => setAutoSavedPath(null)} className="shrink-0 text-slate-500 hover:text-white">×</button>
+        </div>
+      )}
+
       {previewImage && (
         <PreviewWindow
           imageSrc={previewImage}
           onClose={() => setPreviewImage(null)}
           onEdit={() => {
-            setCapturedImage(previewImage);
+            openEditor(previewImage, null);
             setPreviewImage(null);
-            setMode(AppMode.EDITOR);
           }}
         />
       )}
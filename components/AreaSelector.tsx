@@ -1,13 +1,135 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { detectEdgeLines, findSnap, SnapLines } from '../utils/edgeSnap';
 
 type AspectRatio = '16:9' | '9:16' | '4:3' | '1:1' | '6:7' | 'free';
+type Handle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+type Rect = { x: number; y: number; width: number; height: number };
+
+const HANDLES: Handle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+// 小于该尺寸的新建选区视为误操作
+const MIN_SELECTION_SIZE = 5;
+
+// 区域截图时 main 进程先冻结屏幕（?frozen=1），录屏/滚动截图仍在实时桌面上选择
+const isFrozen = new URLSearchParams(window.location.search).get('frozen') === '1';
+
+// 放大镜：以光标为中心显示 LOUPE_PIXELS × LOUPE_PIXELS 个原始像素，每个像素放大 LOUPE_ZOOM 倍
+const LOUPE_PIXELS = 15;
+const LOUPE_ZOOM = 8;
+const LOUPE_SIZE = LOUPE_PIXELS * LOUPE_ZOOM;
+const LOUPE_OFFSET = 20;
+
+interface FrozenScreen {
+  imageData: string;
+  origin: { x: number; y: number }; // 窗口内容区域左上角的全局坐标
+  canvas: HTMLCanvasElement;         // 原生分辨率的冻结画面
+  pixels: ImageData;
+  scale: number;                     // 冻结画面像素 / 窗口 CSS 像素
+}
+
+const toHex = (v: number) => v.toString(16).padStart(2, '0').toUpperCase();
+
+const Loupe: React.FC<{
+  frozen: FrozenScreen;
+  cursor: { x: number; y: number };
+  selectionSize: { width: number; height: number };
+}> = ({ frozen, cursor, selectionSize }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const px = Math.min(frozen.pixels.width - 1, Math.max(0, Math.floor(cursor.x * frozen.scale)));
+  const py = Math.min(frozen.pixels.height - 1, Math.max(0, Math.floor(cursor.y * frozen.scale)));
+  const i = (py * frozen.pixels.width + px) * 4;
+  const color = `#${toHex(frozen.pixels.data[i])}${toHex(frozen.pixels.data[i + 1])}${toHex(frozen.pixels.data[i + 2])}`;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const half = Math.floor(LOUPE_PIXELS / 2);
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, LOUPE_SIZE, LOUPE_SIZE);
+    ctx.drawImage(frozen.canvas, px - half, py - half, LOUPE_PIXELS, LOUPE_PIXELS, 0, 0, LOUPE_SIZE, LOUPE_SIZE);
+
+    // 像素网格
+    ctx.strokeStyle = 'rgba(255,255,255,0.08)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let n = 1; n < LOUPE_PIXELS; n++) {
+      ctx.moveTo(n * LOUPE_ZOOM + 0.5, 0);
+      ctx.lineTo(n * LOUPE_ZOOM + 0.5, LOUPE_SIZE);
+      ctx.moveTo(0, n * LOUPE_ZOOM + 0.5);
+      ctx.lineTo(LOUPE_SIZE, n * LOUPE_ZOOM + 0.5);
+    }
+    ctx.stroke();
+
+    // 中心像素高亮
+    ctx.strokeStyle = '#3b82f6';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(half * LOUPE_ZOOM, half * LOUPE_ZOOM, LOUPE_ZOOM, LOUPE_ZOOM);
+  }, [frozen, px, py]);
+
+  // 靠近屏幕右/下边缘时翻转到光标的另一侧
+  const infoHeight = 52;
+  const left = cursor.x + LOUPE_OFFSET + LOUPE_SIZE > window.innerWidth
+    ? cursor.x - LOUPE_OFFSET - LOUPE_SIZE
+    : cursor.x + LOUPE_OFFSET;
+  const top = cursor.y + LOUPE_OFFSET + LOUPE_SIZE + infoHeight > window.innerHeight
+    ? cursor.y - LOUPE_OFFSET - LOUPE_SIZE - infoHeight
+    : cursor.y + LOUPE_OFFSET;
+
+  return (
+    <div
+      className="absolute pointer-events-none rounded-lg overflow-hidden border border-white/30 shadow-2xl bg-black/85 text-[11px] text-white font-mono"
+      style={{ left, top, width: LOUPE_SIZE }}
+    >
+      <canvas ref={canvasRef} width={LOUPE_SIZE} height={LOUPE_SIZE} className="block" />
+      <div className="px-2 py-1 space-y-0.5">
+        <div>{Math.round(cursor.x + frozen.origin.x)}, {Math.round(cursor.y + frozen.origin.y)}</div>
+        <div>{Math.round(selectionSize.width)} × {Math.round(selectionSize.height)}</div>
+        <div className="flex items-center gap-1.5">
+          <span className="inline-block w-3 h-3 rounded-sm border border-white/40" style={{ backgroundColor: color }} />
+          {color}
+        </div>
+      </div>
+    </div>
+  );
+};
 
 const AreaSelector: React.FC = () => {
-  // 是否正在绘制新区域（单纯拖拽，不再支持复杂拖动/缩放）
-  const [isSelecting, setIsSelecting] = useState(false);
+  // 新建（create）、移动（move）或拖动 8 个手柄之一调整大小
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('free');
-  const [selection, setSelection] = useState({ x: 0, y: 0, width: 0, height: 0 });
-  const startPosRef = useRef({ x: 0, y: 0 });
+  const [selection, setSelection] = useState<Rect>({ x: 0, y: 0, width: 0, height: 0 });
+  const [frozen, setFrozen] = useState<FrozenScreen | null>(null);
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+  const [edgeLines, setEdgeLines] = useState<SnapLines>({ xs: [], ys: [] });
+  const dragRef = useRef<{ mode: 'create' | 'move' | Handle; startX: number; startY: number; startRect: Rect } | null>(null);
+
+  // 加载冻结画面，并解码为像素数据供放大镜取色、检测窗口边框
+  useEffect(() => {
+    if (!isFrozen || !window.electronAPI) return;
+    window.electronAPI.getFrozenScreen().then((result) => {
+      if (!result) return;
+      const img = new Image();
+      img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return;
+        ctx.drawImage(img, 0, 0);
+        const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const scale = img.naturalWidth / result.bounds.width;
+        setFrozen({
+          imageData: result.imageData,
+          origin: { x: result.bounds.x, y: result.bounds.y },
+          canvas,
+          pixels,
+          scale,
+        });
+        setEdgeLines(detectEdgeLines(pixels, scale));
+      };
+      img.src = result.imageData;
+    });
+  }, []);
 
   const getAspectRatioValue = (ratio: AspectRatio): number | null => {
     switch (ratio) {
@@ -20,165 +142,159 @@ const AreaSelector: React.FC = () => {
     }
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    console.log('[AreaSelector] Mouse down at:', e.clientX, e.clientY);
-
-    // 无论点击哪里，统一开始一轮新的选择（简化交互，类似 macOS 截图）
-    const x = e.clientX;
-    const y = e.clientY;
-    startPosRef.current = { x, y };
-    setSelection({ x, y, width: 0, height: 0 });
-    setIsSelecting(true);
-    e.preventDefault();
-  };
-
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isSelecting) return;
+  // 吸附目标：显示器（选择器窗口）边缘 + 检测到的窗口边框；按住 Alt 临时关闭吸附
+  const snapX = (x: number, enabled: boolean) =>
+    enabled ? findSnap(x, [0, window.innerWidth, ...edgeLines.xs]) ?? x : x;
+  const snapY = (y: number, enabled: boolean) =>
+    enabled ? findSnap(y, [0, window.innerHeight, ...edgeLines.ys]) ?? y : y;
 
-    const width = e.clientX - startPosRef.current.x;
-    const height = e.clientY - startPosRef.current.y;
-    const ratio = getAspectRatioValue(aspectRatio);
+  /**
+   * 以对边为锚点调整选区，允许拖过锚点翻转；有宽高比时按比例修正另一边
+   */
+  const resizeRect = (start: Rect, handle: Handle, dx: number, dy: number, snap: boolean): Rect => {
+    let left = start.x;
+    let right = start.x + start.width;
+    let top = start.y;
+    let bottom = start.y + start.height;
+    if (handle.includes('w')) left = snapX(left + dx, snap);
+    if (handle.includes('e')) right = snapX(right + dx, snap);
+    if (handle.includes('n')) top = snapY(top + dy, snap);
+    if (handle.includes('s')) bottom = snapY(bottom + dy, snap);
 
-    let finalWidth = Math.abs(width);
-    let finalHeight = Math.abs(height);
+    let width = Math.abs(right - left);
+    let height = Math.abs(bottom - top);
+    let x = Math.min(left, right);
+    let y = Math.min(top, bottom);
 
+    const ratio = getAspectRatioValue(aspectRatio);
     if (ratio) {
-      if (Math.abs(width) > Math.abs(height)) {
-        finalHeight = finalWidth / ratio;
+      if (handle === 'e' || handle === 'w') {
+        height = width / ratio;
+        y = start.y + (start.height - height) / 2;
+      } else if (handle === 'n' || handle === 's') {
+        width = height * ratio;
+        x = start.x + (start.width - width) / 2;
       } else {
-        finalWidth = finalHeight * ratio;
+        if (width / ratio >= height) {
+          height = width / ratio;
+        } else {
+          width = height * ratio;
+        }
+        const anchorX = handle.includes('w') ? start.x + start.width : start.x;
+        const anchorY = handle.includes('n') ? start.y + start.height : start.y;
+        const movingX = handle.includes('w') ? left : right;
+        const movingY = handle.includes('n') ? top : bottom;
+        x = movingX < anchorX ? anchorX - width : anchorX;
+        y = movingY < anchorY ? anchorY - height : anchorY;
       }
     }
 
-    const newSelection = {
-      x: width < 0 ? startPosRef.current.x - finalWidth : startPosRef.current.x,
-      y: height < 0 ? startPosRef.current.y - finalHeight : startPosRef.current.y,
-      width: finalWidth,
-      height: finalHeight
-    };
+    return { x, y, width, height };
+  };
+
+  const moveRect = (start: Rect, dx: number, dy: number, snap: boolean): Rect => {
+    let x = start.x + dx;
+    let y = start.y + dy;
+    if (snap) {
+      // 两侧边缘都可吸附时取位移更小的一侧
+      const nearer = (a: number, b: number) => (a === 0 ? b : b === 0 || Math.abs(a) <= Math.abs(b) ? a : b);
+      x += nearer(snapX(x, true) - x, snapX(x + start.width, true) - (x + start.width));
+      y += nearer(snapY(y, true) - y, snapY(y + start.height, true) - (y + start.height));
+    }
+    x = Math.max(0, Math.min(window.innerWidth - start.width, x));
+    y = Math.max(0, Math.min(window.innerHeight - start.height, y));
+    return { ...start, x, y };
+  };
 
-    setSelection(newSelection);
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const target = e.target as HTMLElement;
+    const handle = target.dataset.handle as Handle | undefined;
+    const snap = !e.altKey;
+
+    if (handle) {
+      dragRef.current = { mode: handle, startX: e.clientX, startY: e.clientY, startRect: selection };
+    } else if (target.closest('.selection-box')) {
+      dragRef.current = { mode: 'move', startX: e.clientX, startY: e.clientY, startRect: selection };
+    } else {
+      // 点击选区外：开始一轮新的选择，以按下点为锚点
+      const x = snapX(e.clientX, snap);
+      const y = snapY(e.clientY, snap);
+      const startRect = { x, y, width: 0, height: 0 };
+      dragRef.current = { mode: 'create', startX: e.clientX, startY: e.clientY, startRect };
+      setSelection(startRect);
+    }
+    e.preventDefault();
   };
 
-  const handleMouseUp = (e?: React.MouseEvent) => {
-    if (e) {
-      console.log('[AreaSelector] Mouse up at:', e.clientX, e.clientY);
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (frozen) setCursor({ x: e.clientX, y: e.clientY });
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    const snap = !e.altKey;
+
+    if (drag.mode === 'move') {
+      setSelection(moveRect(drag.startRect, dx, dy, snap));
+    } else {
+      // 新建选区等价于从锚点拖动右下角手柄
+      setSelection(resizeRect(drag.startRect, drag.mode === 'create' ? 'se' : drag.mode, dx, dy, snap));
     }
-    console.log('[AreaSelector] Final selection:', selection);
-    setIsSelecting(false);
+  };
+
+  const handleMouseUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
 
     // 如果拖动距离太小，则认为是误操作，清空选择
-    if (selection.width < 5 || selection.height < 5) {
+    if (drag?.mode === 'create' && (selection.width < MIN_SELECTION_SIZE || selection.height < MIN_SELECTION_SIZE)) {
       setSelection({ x: 0, y: 0, width: 0, height: 0 });
     }
   };
 
+  // 数值输入：修改宽或高时按宽高比联动另一边
+  const handleNumericChange = (field: keyof Rect, raw: string) => {
+    const value = parseInt(raw, 10);
+    if (Number.isNaN(value)) return;
+    const ratio = getAspectRatioValue(aspectRatio);
+    setSelection((prev) => {
+      const next = { ...prev };
+      if (field === 'width' || field === 'height') {
+        next[field] = Math.max(1, value);
+        if (ratio && field === 'width') next.height = next.width / ratio;
+        if (ratio && field === 'height') next.width = next.height * ratio;
+      } else {
+        next[field] = value;
+      }
+      return next;
+    });
+  };
+
   const handleConfirm = () => {
     console.log('[AreaSelector] Confirm clicked, selection:', selection);
     if (selection.width > 0 && selection.height > 0) {
-      // ========== 坐标系统分析 ==========
-      // selection.x, selection.y 是选择框 div 的左上角坐标（起点）
-      // selection.width, selection.height 是选择框 div 的总宽度和高度
-      // 
-      // 选择框的视觉结构（从外到内）：
-      // 1. Resize handles: 蓝色小方块，位置在边框外
-      //    - 左边: -left-1.5 (超出左边框 1.5px，即从 selection.x - 1.5 开始)
-      //    - 右边: -right-1.5 (超出右边框 1.5px，即到 selection.x + width + 1.5 结束)
-      //    - 上边: -top-1.5 (超出上边框 1.5px，即从 selection.y - 1.5 开始)
-      //    - 下边: -bottom-1.5 (超出下边框 1.5px，即到 selection.y + height + 1.5 结束)
-      // 2. border-4: 4px 白色边框（在元素内部，从 selection.x 到 selection.x + width）
-      // 3. 内容区域: 边框内的区域（需要录制的区域）
-      //
-      // 实际内容区域（需要录制的区域）计算：
-      // - 起点（左上角）: 
-      //   - X: selection.x + borderWidth (排除左边框) + resizeHandleOffset (排除左侧 resize handle)
-      //   - Y: selection.y + borderWidth (排除上边框) + resizeHandleOffset (排除上方 resize handle)
-      // - 终点（右下角）:
-      //   - X: (selection.x + selection.width) - borderWidth (排除右边框) - resizeHandleOffset (排除右侧 resize handle)
-      //   - Y: (selection.y + selection.height) - borderWidth (排除下边框) - resizeHandleOffset (排除下方 resize handle)
-      // - 调整后的宽度: selection.width - 2 * (borderWidth + resizeHandleOffset)
-      // - 调整后的高度: selection.height - 2 * (borderWidth + resizeHandleOffset)
-      //
-      // 注意：左右和上下都是完全对称的，使用相同的偏移量
-      
-      const borderWidth = 4; // border-4 = 4px 边框
-      const resizeHandleOffset = 1.5; // resize handles 超出边框的距离（-left-1.5, -right-1.5 等）
-      const totalOffset = borderWidth + resizeHandleOffset; // 总共需要排除的距离 = 5.5px
-      
-      // 计算调整后的选择区域（排除边框和 resize handles）
-      // 起点（左上角）：向右下移动 totalOffset，排除左边框/上边框和左侧/上方 resize handles
-      const adjustedX = selection.x + totalOffset;
-      const adjustedY = selection.y + totalOffset;
-      
-      // 终点（右下角）：向左上移动 totalOffset，即宽度和高度各减少 2 * totalOffset
-      // 注意：左右和上下都是完全对称的，都减少 2 * totalOffset
-      const adjustedWidth = Math.max(1, selection.width - totalOffset * 2);
-      const adjustedHeight = Math.max(1, selection.height - totalOffset * 2);
-      
-      // 验证：调整后的终点应该等于原始终点减去 totalOffset
-      const expectedRight = (selection.x + selection.width) - totalOffset;
-      const expectedBottom = (selection.y + selection.height) - totalOffset;
-      const actualRight = adjustedX + adjustedWidth;
-      const actualBottom = adjustedY + adjustedHeight;
-      
-      console.log('[AreaSelector] 坐标验证:', {
-        originalRight: selection.x + selection.width,
-        originalBottom: selection.y + selection.height,
-        expectedRight,
-        expectedBottom,
-        actualRight,
-        actualBottom,
-        rightMatch: Math.abs(expectedRight - actualRight) < 0.01,
-        bottomMatch: Math.abs(expectedBottom - actualBottom) < 0.01
-      });
-      
-      const adjustedSelection = {
-        x: adjustedX,        // 起点 X：向右移动 totalOffset，排除左边框和左侧 resize handle
-        y: adjustedY,        // 起点 Y：向下移动 totalOffset，排除上边框和上方 resize handle
-        width: adjustedWidth,  // 宽度：左右各减少 totalOffset，排除左右边框和 resize handles
-        height: adjustedHeight // 高度：上下各减少 totalOffset，排除上下边框和 resize handles
+      // 选框的边框和手柄绘制在选区外侧，选区即为最终截取/录制的区域
+      const finalSelection = {
+        x: Math.round(selection.x),
+        y: Math.round(selection.y),
+        width: Math.max(1, Math.round(selection.width)),
+        height: Math.max(1, Math.round(selection.height)),
       };
-      
-      console.log('[AreaSelector] ========== 坐标调整详情 ==========');
-      console.log('[AreaSelector] 原始选择框:', {
-        x: selection.x,
-        y: selection.y,
-        width: selection.width,
-        height: selection.height,
-        right: selection.x + selection.width,  // 原始终点 X
-        bottom: selection.y + selection.height // 原始终点 Y
-      });
-      console.log('[AreaSelector] 边框和 handles 偏移:', {
-        borderWidth,
-        resizeHandleOffset,
-        totalOffset,
-        note: '左右和上下都是对称的，都减少 2 * totalOffset'
-      });
-      console.log('[AreaSelector] 调整后的选择区域:', {
-        x: adjustedX,        // 起点 X：向右移动 totalOffset
-        y: adjustedY,        // 起点 Y：向下移动 totalOffset
-        width: adjustedWidth,
-        height: adjustedHeight,
-        right: adjustedX + adjustedWidth,   // 调整后的终点 X
-        bottom: adjustedY + adjustedHeight, // 调整后的终点 Y
-        heightReduction: {
-          top: totalOffset,    // 顶部减少 totalOffset
-          bottom: totalOffset, // 底部减少 totalOffset（对称）
-          total: totalOffset * 2
-        }
-      });
-      console.log('[AreaSelector] 调用 window.electronAPI.areaSelected');
-      
+
       if (window.electronAPI) {
-        window.electronAPI.areaSelected(adjustedSelection);
+        window.electronAPI.areaSelected(finalSelection);
       } else {
         console.error('[AreaSelector] window.electronAPI not available');
       }
       // 为了避免主进程链路异常导致窗口不关闭，这里主动关闭选择器窗口
-      try {
-        window.close();
-      } catch (e) {
-        console.warn('[AreaSelector] window.close() failed:', e);
+      // （冻结模式下由 main 进程负责关闭，避免窗口关闭先于选区结果到达）
+      if (!isFrozen) {
+        try {
+          window.close();
+        } catch (e) {
+          console.warn('[AreaSelector] window.close() failed:', e);
+        }
       }
     } else {
       console.warn('[AreaSelector] Invalid selection size');
@@ -206,12 +322,35 @@ const AreaSelector: React.FC = () => {
     };
   }, []);
 
-  // Handle ESC key
+  const handleConfirmRef = useRef(handleConfirm);
+  handleConfirmRef.current = handleConfirm;
+
+  // ESC 取消，Enter 确认，方向键微调选区位置（Shift 每次 10px）
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         handleCancel();
+        return;
+      }
+      // 数值输入框内的按键交给输入框处理
+      if (e.target instanceof HTMLInputElement) return;
+
+      if (e.key === 'Enter') {
+        handleConfirmRef.current();
+        return;
       }
+
+      const step = e.shiftKey ? 10 : 1;
+      const delta: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step],
+      };
+      if (!delta[e.key]) return;
+      e.preventDefault();
+      const [dx, dy] = delta[e.key];
+      setSelection((prev) => (prev.width > 0 && prev.height > 0 ? moveRect(prev, dx, dy, false) : prev));
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
@@ -226,29 +365,40 @@ const AreaSelector: React.FC = () => {
     return `${w}:${h}`;
   };
 
+  const hasSelection = selection.width > 0 && selection.height > 0;
+
   return (
     <div
       className="fixed inset-0 cursor-crosshair select-none"
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      onMouseLeave={() => {
+        handleMouseUp();
+        setCursor(null);
+      }}
     >
+      {/* 冻结的屏幕画面（选择期间桌面内容不再变化，最终从该画面裁剪） */}
+      {frozen && (
+        <img src={frozen.imageData} alt="" draggable={false} className="absolute inset-0 w-full h-full pointer-events-none" />
+      )}
+
       {/* 半透明遮罩 + 选区高亮（主体背景由系统/其他应用内容提供，因为窗口是透明的） */}
-      {/* Selection Box */}
-      {selection.width > 0 && selection.height > 0 && (
+      {/* Selection Box：边框用 outline 画在选区外侧，不占用选区内容 */}
+      {hasSelection && (
         <div
-          className="selection-box absolute border-4 border-white bg-white/20 shadow-lg pointer-events-none"
+          className="selection-box absolute bg-white/10 cursor-move"
           style={{
             left: selection.x,
             top: selection.y,
             width: selection.width,
             height: selection.height,
+            outline: '2px solid white',
             boxShadow: '0 0 0 9999px rgba(0,0,0,0.5)'  // Darken outside area
           }}
         >
           {/* Resize Handles */}
-          {['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'].map(handle => (
+          {HANDLES.map(handle => (
             <div
               key={handle}
               data-handle={handle}
@@ -261,15 +411,20 @@ const AreaSelector: React.FC = () => {
           ))}
 
           {/* Dimension Display */}
-          <div className="absolute -top-8 left-0 bg-black/80 text-white px-2 py-1 rounded text-xs whitespace-nowrap">
+          <div className="absolute -top-8 left-0 bg-black/80 text-white px-2 py-1 rounded text-xs whitespace-nowrap pointer-events-none">
             {Math.round(selection.width)} × {Math.round(selection.height)} ({calculateDisplayRatio()})
           </div>
         </div>
       )}
 
+      {/* Magnifier Loupe */}
+      {frozen && cursor && (
+        <Loupe frozen={frozen} cursor={cursor} selectionSize={selection} />
+      )}
+
       {/* Control Panel */}
       <div
-        className="absolute top-4 left-1/2 -translate-x-1/2 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-xl p-4 flex items-center gap-4 shadow-2xl"
+        className="absolute top-4 left-1/2 -translate-x-1/2 bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-xl p-4 flex items-center gap-4 shadow-2xl cursor-default"
         // 防止点击控制面板（确认/取消/比例按钮）时触发背景的鼠标按下事件
         onMouseDown={(e) => {
           e.stopPropagation();
@@ -336,10 +491,28 @@ const AreaSelector: React.FC = () => {
 
         <div className="w-px h-6 bg-white/10" />
 
+        {/* Numeric Position / Size */}
+        <div className="flex items-center gap-2">
+          {([['x', 'X'], ['y', 'Y'], ['width', '宽'], ['height', '高']] as [keyof Rect, string][]).map(([field, label]) => (
+            <label key={field} className="flex items-center gap-1 text-xs text-white/70">
+              {label}
+              <input
+                type="number"
+                value={hasSelection ? Math.round(selection[field]) : ''}
+                disabled={!hasSelection}
+                onChange={(e) => handleNumericChange(field, e.target.value)}
+                className="w-16 bg-slate-800 border border-slate-600 rounded px-1.5 py-1 text-white text-xs disabled:opacity-40"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="w-px h-6 bg-white/10" />
+
         {/* Action Buttons */}
         <button
           onClick={handleConfirm}
-          disabled={selection.width === 0}
+          disabled={!hasSelection}
           className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-slate-700 disabled:text-white/30 text-white rounded-lg flex items-center gap-2 transition-all text-sm"
         >
           ✓ 确认
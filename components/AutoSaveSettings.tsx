@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { IconX } from './Icons';
+import { useLanguage } from './i18n/LanguageContext';
+import { AutoSaveSettings as AutoSaveConfig } from '../types';
+
+interface AutoSaveSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange?: (settings: AutoSaveConfig) => void;
+}
+
+const TEMPLATE_TOKENS = ['{date}', '{time}', '{app}', '{counter}', '{ext}'];
+
+const AutoSaveSettings: React.FC<AutoSaveSettingsProps> = ({ isOpen, onClose, onChange }) => {
+  const { t } = useLanguage();
+  const [settings, setSettings] = useState<AutoSaveConfig | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      window.electronAPI.getSettings().then((s) => setSettings(s.autoSave));
+    }
+  }, [isOpen]);
+
+  const update = async (patch: Partial<AutoSaveConfig>) => {
+    if (!settings) return;
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    await window.electronAPI.updateSettings({ autoSave: next });
+    onChange?.(next);
+  };
+
+  const handleChooseFolder = async () => {
+    if (!settings) return;
+    const folder = await window.electronAPI.chooseFolder(settings.folder);
+    if (folder) update({ folder });
+  };
+
+  if (!isOpen || !settings) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-md flex items-center justify-center animate-in fade-in duration-150">
+      <div className="bg-slate-900 border border-white/10 rounded-2xl w-[420px] max-w-[90vw] max-h-[90vh] overflow-y-auto shadow-2xl animate-in zoom-in-95 duration-150">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+          <h2 className="text-white font-semibold">{t('autosave.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <IconX className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 text-sm">
+          <label className="flex items-center justify-between text-slate-300">
+            <span>{t('autosave.enabled')}</span>
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="accent-blue-500"
+            />
+          </label>
+          <p className="text-[11px] text-slate-500 -mt-2">{t('autosave.enabled_desc')}</p>
+
+          <div className="space-y-1.5">
+            <div className="text-xs text-slate-400">{t('autosave.folder')}</div>
+            <div className="flex gap-2">
+              <div className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2.5 py-1.5 text-xs text-slate-300 truncate" title={settings.folder}>
+                {settings.folder}
+              </div>
+              <button
+                onClick={handleChooseFolder}
+                className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-xs text-white"
+              >
+                {t('autosave.choose')}
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <div className="text-xs text-slate-400">{t('autosave.template')}</div>
+            <input
+              value={settings.template}
+              onChange={(e) => setSettings({ ...settings, template: e.target.value })}
+              onBlur={() => update({ template: settings.template })}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2.5 py-1.5 text-xs text-white font-mono"
+            />
+            <div className="text-[11px] text-slate-500">
+              {t('autosave.tokens').replace('%s', TEMPLATE_TOKENS.join(' '))}
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between text-slate-300">
+            <span>{t('autosave.subfolder_by_date')}</span>
+            <input
+              type="checkbox"
+              checked={settings.subfolderByDate}
+              onChange={(e) => update({ subfolderByDate: e.target.checked })}
+              className="accent-blue-500"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutoSaveSettings;
@@ -1,38 +1,81 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { ToolType, Annotation, Point, PRESET_BACKGROUNDS, BackgroundConfig } from '../types';
+import { ToolType, Annotation, ArrowHeadStyle, DashStyle, Point, ShapeStyle, SpotlightShape, PRESET_BACKGROUNDS, DEFAULT_BACKGROUND, BackgroundConfig, CanvasExpansion, CaptureHistory, CleanSnapProject, ImageEncodeOptions, ImageFormat, ImageTransform } from '../types';
 import { extractTextFromImage, explainImage } from '../services/geminiService';
-import { IconArrow, IconCheck, IconCopy, IconCrop, IconCursor, IconDownload, IconEyeOff, IconPen, IconRedo, IconSparkles, IconSquare, IconType, IconUndo, IconX } from './Icons';
+import { HistoryService } from '../services/historyService';
+import { createProject } from '../utils/projectFile';
+import { CLOSE_POLYGON_DISTANCE, DEFAULT_SHAPE_STYLE, constrainSquare, defaultControlPoint, distance, drawShape, isArrowType, isFillableType, isShapeAnnotation, isStyledType, pickStyle, snapAngle } from '../utils/annotationShapes';
+import { Bounds, TransformSession, applyMove, applyRotation, applyTransform, drawMarquee, drawMultiSelection, drawSelection, getHandleCursor, hitTestAnnotation, hitTestHandle } from '../utils/annotationTransform';
+import { DEFAULT_BLUR_RADIUS, drawObscured, isObscuringType } from '../utils/redaction';
+import { CROP_ASPECTS, IDENTITY_TRANSFORM, constrainCropRect, cropTransform, drawCropOverlay, flipTransform, getDisplaySize, isIdentityTransform, remapAnnotations, renderTransformedImage, resetCrop, resizeTransform, rotateTransform } from '../utils/imageTransform';
+import { DEFAULT_DIM_OPACITY, DEFAULT_MAGNIFIER_SIZE, DEFAULT_ZOOM, defaultMagnifierTarget, drawMagnifier, drawSpotlights } from '../utils/callouts';
+import { LAYOUT_GAP, LayoutMode, NO_EXPANSION, createImageLayer, growExpansion, isNoExpansion, drawImageLayer, fitExpansionToContent, getLayerImage, layoutImageLayers, loadImageSize, newImageId } from '../utils/imageLayers';
+import { WALLPAPER_FITS, drawBackground, getWallpaperImage, isGradientValue } from '../utils/backgroundRender';
+import { AlignMode, ZOrderAction, alignAnnotations, cloneAnnotations, countUnits, distributeAnnotations, expandToGroups, groupAnnotations, readAnnotationClipboard, reorderAnnotations, selectInRect, ungroupAnnotations, writeAnnotationClipboard } from '../utils/annotationArrange';
+import { DEFAULT_FRAME_URL, DEFAULT_SHADOW, FRAME_STYLES, clipToScreen, drawFrame, drawFrameOverlay, getCornerRadius, getShadowStyle, hasFrame, isWindowFrame } from '../utils/frameMockups';
+import { OUTPUT_PRESETS, getCanvasLayout } from '../utils/canvasLayout';
+import GradientEditor from './GradientEditor';
+import { IconArrow, IconCheck, IconCircle, IconCopy, IconCrop, IconCurvedArrow, IconCursor, IconDoubleArrow, IconDownload, IconDroplet, IconEyeOff, IconLine, IconPen, IconPolygon, IconPolyline, IconRedact, IconRedo, IconSparkles, IconSpotlight, IconSquare, IconType, IconUndo, IconX, IconZoomIn } from './Icons';
+
+// One undo step: annotation layers plus the base image crop/rotate/flip/resize and the canvas expansion
+interface EditorSnapshot {
+  annotations: Annotation[];
+  imageTransform: ImageTransform;
+  canvasExpansion: CanvasExpansion;
+}
 
 interface EditorProps {
   imageSrc: string;
   onClose: () => void;
-  onSave?: (imageData: string) => Promise<void> | void;
+  onSave?: (imageData: string, options?: ImageEncodeOptions) => Promise<void> | void;
   onCopy?: (imageData: string) => Promise<void> | void;
+  // Layers to restore (from a .cleansnap file or a history entry); imageSrc is then the project's original image
+  initialProject?: CleanSnapProject | null;
+  // Called with the current layers on save/copy/close so the caller can keep them with the capture
+  onProjectChange?: (project: CleanSnapProject) => void;
+  onSaveProject?: (project: CleanSnapProject) => Promise<void> | void;
+  // Recent captures offered as background wallpapers
+  wallpaperHistory?: CaptureHistory[];
 }
 
-const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) => {
+const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy, initialProject, onProjectChange, onSaveProject, wallpaperHistory = [] }) => {
   // --- State ---
-  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [annotations, setAnnotations] = useState<Annotation[]>(() => initialProject?.annotations ?? []);
+  const [imageTransform, setImageTransform] = useState<ImageTransform>(() => initialProject?.imageTransform ?? IDENTITY_TRANSFORM);
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 }); // Natural size of the original image once loaded
+  const [canvasExpansion, setCanvasExpansion] = useState<CanvasExpansion>(() => initialProject?.canvasExpansion ?? NO_EXPANSION); // Extra canvas around the base image
+  const [layerImages, setLayerImages] = useState<Record<string, string>>(() => initialProject?.images ?? {}); // Image layer sources by imageId (kept out of undo history)
+  const [imagesLoaded, setImagesLoaded] = useState(0); // Bumped as layer/wallpaper images finish decoding to trigger a redraw
   const [currentTool, setCurrentTool] = useState<ToolType>(ToolType.SELECT);
   const [currentColor, setCurrentColor] = useState<string>('#ef4444'); // Default red
   const [currentStrokeWidth, setCurrentStrokeWidth] = useState<number>(4);
-  const [bgConfig, setBgConfig] = useState<BackgroundConfig>({
-    type: 'gradient',
-    value: PRESET_BACKGROUNDS[0].value,
-    padding: 60,
-    shadow: true,
-    inset: 1,
-  });
+  const [shapeStyle, setShapeStyle] = useState<ShapeStyle>(DEFAULT_SHAPE_STYLE); // Applied to new shapes
+  const [blurRadius, setBlurRadius] = useState<number>(DEFAULT_BLUR_RADIUS); // Applied to new blur regions
+  const [spotlightShape, setSpotlightShape] = useState<SpotlightShape>('rect'); // Applied to new spotlights
+  const [dimOpacity, setDimOpacity] = useState<number>(DEFAULT_DIM_OPACITY); // Shared by all spotlights
+  const [magnifierZoom, setMagnifierZoom] = useState<number>(DEFAULT_ZOOM); // Applied to new magnifiers
+  const [exportScale, setExportScale] = useState<1 | 2>(1); // Pixel ratio of exported images
+  const [bgConfig, setBgConfig] = useState<BackgroundConfig>(() => initialProject?.background ?? DEFAULT_BACKGROUND);
+  const displaySize = getDisplaySize(imageTransform, imageSize.width, imageSize.height);
+  // Canvas size plus position/scale of the base image on it (annotation coordinates are relative to the image)
+  const canvasLayout = getCanvasLayout(bgConfig, canvasExpansion, Math.round(displaySize.width), Math.round(displaySize.height));
   
   // Interaction State
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentAnnotation, setCurrentAnnotation] = useState<Annotation | null>(null);
-  const [selection, setSelection] = useState<string | null>(null); // ID of selected annotation
-  const [isDragging, setIsDragging] = useState(false); // For dragging text annotations
-  const [dragOffset, setDragOffset] = useState<Point | null>(null); // Offset when dragging starts
+  const [selection, setSelection] = useState<string[]>([]); // IDs of selected annotations (groups are selected as a whole)
+  const [marquee, setMarquee] = useState<{ start: Point; end: Point; base: string[] } | null>(null); // Drag-select rectangle
+  const [isDragging, setIsDragging] = useState(false); // Moving/resizing/rotating the selected annotation
+  const [transform, setTransform] = useState<TransformSession | null>(null); // Handle being dragged and the annotation before the drag
+  const [hoverCursor, setHoverCursor] = useState<string | undefined>(undefined); // Cursor over handles/annotations
+  const [cropMode, setCropMode] = useState(false); // Dragging a crop rectangle instead of annotating
+  const [cropRect, setCropRect] = useState<Bounds | null>(null); // In displayed image coordinates
+  const [cropAspect, setCropAspect] = useState<number | null>(null); // Width / height, null = free
+  const cropStartRef = useRef<Point | null>(null);
+  const [resizeDraft, setResizeDraft] = useState<{ width: number; height: number } | null>(null); // Typed but not yet applied
+  const [lockResizeRatio, setLockResizeRatio] = useState(true);
   
   // History State for undo/redo
-  const [history, setHistory] = useState<Annotation[][]>([]); // History stack
+  const [history, setHistory] = useState<EditorSnapshot[]>([]); // History stack
   const [historyIndex, setHistoryIndex] = useState<number>(-1); // Current position in history
   const isUndoRedoRef = useRef<boolean>(false); // Flag to prevent saving history during undo/redo
   
@@ -43,18 +86,36 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
   // Text Input State - inline editing
   const [editingText, setEditingText] = useState<{id: string; point: Point; text: string; color: string; fontSize: number} | null>(null);
   const textInputRef = useRef<HTMLInputElement>(null);
+  const layerFileInputRef = useRef<HTMLInputElement>(null); // Hidden picker for "Add image"
+  const wallpaperFileInputRef = useRef<HTMLInputElement>(null); // Hidden picker for background wallpapers
   const [textFontSize, setTextFontSize] = useState<number>(24); // Font size for text tool
 
+  // Export format (desktop only) - defaults to the format/quality used last time
+  const [encodeOptions, setEncodeOptions] = useState<ImageEncodeOptions | null>(null);
+  // Regenerate obscured regions from coarse samples so exports contain none of the original pixels
+  const [secureExport, setSecureExport] = useState<boolean>(true);
+
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imageRef = useRef<HTMLImageElement>(new Image());
   const containerRef = useRef<HTMLDivElement>(null);
   const originalAnnotationRef = useRef<Annotation | null>(null); // Store original annotation when editing starts
+  const displayImageRef = useRef<{ src: string; key: string; canvas: HTMLCanvasElement } | null>(null); // Base image with imageTransform applied
 
   // --- Initialization ---
+  useEffect(() => {
+    if (typeof window !== 'undefined' && 'electronAPI' in window) {
+      window.electronAPI.getSettings().then((settings) => {
+        setEncodeOptions(settings.imageEncode);
+        setSecureExport(settings.secureExport ?? true);
+      });
+    }
+  }, []);
+
   useEffect(() => {
     imageRef.current.src = imageSrc;
     imageRef.current.onload = () => {
+      setImageSize({ width: imageRef.current.naturalWidth, height: imageRef.current.naturalHeight });
       drawCanvas();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -63,9 +124,9 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
   useEffect(() => {
     drawCanvas();
      // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [annotations, currentAnnotation, bgConfig, selection, editingText]);
+  }, [annotations, currentAnnotation, bgConfig, selection, marquee, editingText, secureExport, imageTransform, cropMode, cropRect, canvasExpansion, layerImages, imagesLoaded, imageSize]);
 
-  // Save to history when annotations change (but not during undo/redo or dragging)
+  // Save to history when annotations or the image transform change (but not during undo/redo or dragging)
   useEffect(() => {
     // Skip if this is an undo/redo operation
     if (isUndoRedoRef.current) {
@@ -76,19 +137,20 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
     // Skip if dragging (will save when drag ends)
     if (isDragging) return;
     
-    // Skip if history is empty (initial state)
-    if (history.length === 0 && annotations.length === 0) return;
+    // Skip if nothing changed (e.g. a click that only selected an annotation)
+    const snapshot: EditorSnapshot = { annotations, imageTransform, canvasExpansion };
+    if (historyIndex >= 0 && JSON.stringify(history[historyIndex]) === JSON.stringify(snapshot)) return;
     
-    // Save current state to history
+    // Save current state to history (the first entry is the initial state, so the first change can be undone)
     const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(JSON.parse(JSON.stringify(annotations))); // Deep copy
+    newHistory.push(JSON.parse(JSON.stringify(snapshot))); // Deep copy
     // Limit history to 50 steps
     if (newHistory.length > 50) {
       newHistory.shift();
     }
     setHistoryIndex(newHistory.length - 1);
     setHistory(newHistory);
-  }, [annotations]); // Only depend on annotations
+  }, [annotations, imageTransform, canvasExpansion, isDragging]); // Re-check when a drag ends so the whole drag is one undo step
 
   // Handle keyboard events for deletion and undo/redo
   useEffect(() => {
@@ -96,17 +158,77 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
       // Only handle Delete/Backspace/Undo/Redo when not editing text (to avoid interfering with text input)
       if (editingText) return;
       
+      // Enter finishes a polyline/polygon, Escape discards it
+      if (currentAnnotation && (currentAnnotation.type === ToolType.POLYLINE || currentAnnotation.type === ToolType.POLYGON)) {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          finishPolyline();
+          return;
+        }
+        if (e.key === 'Escape') {
+          setCurrentAnnotation(null);
+          setIsDrawing(false);
+          return;
+        }
+      }
+
+      // Leave shortcuts alone while typing in a form field
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+      // Enter applies the crop, Escape leaves crop mode
+      if (cropMode && (e.key === 'Enter' || e.key === 'Escape')) {
+        e.preventDefault();
+        if (e.key === 'Enter') applyCrop();
+        else exitCropMode();
+        return;
+      }
+
       // Handle Delete or Backspace key
       if (e.key === 'Delete' || e.key === 'Backspace') {
-        // If a text annotation is selected, delete it
-        if (selection) {
-          const selectedAnn = annotations.find(a => a.id === selection);
-          if (selectedAnn && selectedAnn.type === ToolType.TEXT) {
-            console.log('[TEXT EDIT] Deleting selected text annotation:', selectedAnn);
+        // Delete the selected annotations
+        if (selection.length > 0) {
+          console.log('[EDIT] Deleting selected annotations:', selection);
+          e.preventDefault();
+          setAnnotations(prev => prev.filter(a => !selection.includes(a.id)));
+          setSelection([]);
+        }
+      }
+
+      // Selection, clipboard, grouping and z-order shortcuts
+      if (e.metaKey || e.ctrlKey) {
+        const key = e.key.toLowerCase();
+        if (key === 'a') {
+          e.preventDefault();
+          setSelection(annotations.map(a => a.id));
+        } else if (key === 'c' && selection.length > 0) {
+          e.preventDefault();
+          copySelection();
+        } else if (key === 'x' && selection.length > 0) {
+          e.preventDefault();
+          copySelection();
+          setAnnotations(prev => prev.filter(a => !selection.includes(a.id)));
+          setSelection([]);
+        } else if (key === 'v') {
+          // Only take over paste when annotations were copied
+          if (readAnnotationClipboard().annotations.length > 0) {
             e.preventDefault();
-            setAnnotations(prev => prev.filter(a => a.id !== selection));
-            setSelection(null);
+            pasteAnnotations();
+          }
+        } else if (key === 'd' && selection.length > 0) {
+          e.preventDefault();
+          duplicateSelection();
+        } else if (key === 'g' && selection.length > 0) {
+          e.preventDefault();
+          if (e.shiftKey) {
+            setAnnotations(prev => ungroupAnnotations(prev, selection));
+          } else {
+            setAnnotations(prev => groupAnnotations(prev, selection));
           }
+        } else if ((e.code === 'BracketRight' || e.code === 'BracketLeft') && selection.length > 0) {
+          e.preventDefault();
+          const forward = e.code === 'BracketRight';
+          arrangeSelection(e.shiftKey ? (forward ? 'front' : 'back') : (forward ? 'forward' : 'backward'));
         }
       }
       
@@ -117,7 +239,7 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
           isUndoRedoRef.current = true;
           const prevState = history[historyIndex - 1];
           setHistoryIndex(historyIndex - 1);
-          setAnnotations(JSON.parse(JSON.stringify(prevState))); // Deep copy
+          restoreSnapshot(prevState);
           console.log('[HISTORY] Undo to index:', historyIndex - 1);
         }
       }
@@ -129,7 +251,7 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
           isUndoRedoRef.current = true;
           const nextState = history[historyIndex + 1];
           setHistoryIndex(historyIndex + 1);
-          setAnnotations(JSON.parse(JSON.stringify(nextState))); // Deep copy
+          restoreSnapshot(nextState);
           console.log('[HISTORY] Redo to index:', historyIndex + 1);
         }
       }
@@ -139,7 +261,7 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [selection, annotations, editingText, history, historyIndex]);
+  }, [selection, annotations, currentAnnotation, editingText, history, historyIndex, cropMode, cropRect, imageTransform, canvasExpansion]);
 
   // Create and manage text input element in DOM
   useEffect(() => {
@@ -190,8 +312,8 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
         if (canvasPos) {
           const scaleX = canvasPos.width / canvasPos.canvasWidth;
           const scaleY = canvasPos.height / canvasPos.canvasHeight;
-          const viewportX = canvasPos.left + (editingText.point.x + bgConfig.padding) * scaleX;
-          const viewportY = canvasPos.top + (editingText.point.y + bgConfig.padding) * scaleY;
+          const viewportX = canvasPos.left + (canvasLayout.x + editingText.point.x * canvasLayout.scale) * scaleX;
+          const viewportY = canvasPos.top + (canvasLayout.y + editingText.point.y * canvasLayout.scale) * scaleY;
           existingContainer.style.left = `${viewportX}px`;
           existingContainer.style.top = `${viewportY}px`;
         }
@@ -210,8 +332,8 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
     const scaleY = canvasPos.height / canvasPos.canvasHeight;
     
     // Convert canvas coordinates to viewport coordinates
-    const viewportX = canvasPos.left + (editingText.point.x + bgConfig.padding) * scaleX;
-    const viewportY = canvasPos.top + (editingText.point.y + bgConfig.padding) * scaleY;
+    const viewportX = canvasPos.left + (canvasLayout.x + editingText.point.x * canvasLayout.scale) * scaleX;
+    const viewportY = canvasPos.top + (canvasLayout.y + editingText.point.y * canvasLayout.scale) * scaleY;
 
     console.log('Creating text input at position:', { viewportX, viewportY, point: editingText.point });
 
@@ -308,8 +430,9 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
           text: currentText.trim(),
           color: currentEditingText.color,
           strokeWidth: Math.round(currentEditingText.fontSize / 6),
+          fontSize: currentEditingText.fontSize,
+          rotation: originalAnn?.rotation, // Keep the rotation of edited text
         };
-        (newAnn as any).fontSize = currentEditingText.fontSize;
         // Check if this is updating an existing annotation (same ID)
         setAnnotations(prev => {
           // Remove old annotation with same ID if exists, then add new one
@@ -390,7 +513,7 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
       }
       (textInputRef as any).current = null;
     };
-  }, [editingText?.id, editingText?.point.x, editingText?.point.y, editingText?.color, editingText?.fontSize, bgConfig.padding]); // Only recreate when position/ID/color/size changes, not when text changes
+  }, [editingText?.id, editingText?.point.x, editingText?.point.y, editingText?.color, editingText?.fontSize, canvasLayout.x, canvasLayout.y, canvasLayout.scale]); // Only recreate when position/ID/color/size changes, not when text changes
 
   // Update text input position when canvas moves or resizes
   useEffect(() => {
@@ -412,106 +535,89 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
   }, [editingText]);
 
   // --- Drawing Logic ---
-  const drawCanvas = () => {
+
+  // The transformed base image is cached and only re-rendered when the image or its transform changes
+  const getDisplayImage = (): HTMLCanvasElement | null => {
+    const image = imageRef.current;
+    if (!image.complete || image.naturalWidth === 0) return null;
+    const key = JSON.stringify(imageTransform);
+    const cached = displayImageRef.current;
+    if (cached && cached.src === image.src && cached.key === key) return cached.canvas;
+    const canvas = renderTransformedImage(image, imageTransform);
+    displayImageRef.current = { src: image.src, key, canvas };
+    return canvas;
+  };
+
+  // pixelRatio renders the same layout at a higher resolution (2x export)
+  const drawCanvas = (options: { forExport?: boolean; pixelRatio?: number } = {}) => {
     const canvas = canvasRef.current;
-    if (!canvas || !imageRef.current.complete) return;
+    const displayImage = getDisplayImage();
+    if (!canvas || !displayImage) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     // 1. Setup Size
-    // We want the canvas to be large enough for the padding
-    const baseWidth = imageRef.current.naturalWidth;
-    const baseHeight = imageRef.current.naturalHeight;
-    const totalWidth = baseWidth + (bgConfig.padding * 2);
-    const totalHeight = baseHeight + (bgConfig.padding * 2);
-
-    canvas.width = totalWidth;
-    canvas.height = totalHeight;
-
-    // 2. Draw Background
-    if (bgConfig.type === 'transparent') {
-      ctx.clearRect(0, 0, totalWidth, totalHeight);
-    } else {
-      if (bgConfig.value.startsWith('linear-gradient')) {
-        const gradient = ctx.createLinearGradient(0, 0, totalWidth, totalHeight);
-        // Simplistic gradient parser for demo (just taking the preset values)
-        // In a real app we'd parse the string properly. 
-        // Here we map known presets to canvas gradients manually or just fill rect.
-        // Actually, canvas createLinearGradient is complex to map from CSS string.
-        // Quick hack: Use a hidden div to compute colors or just hardcode preset logic.
-        // Let's keep it simple: if it's our preset, we manually reconstruct.
-        if (bgConfig.value.includes('#e0e7ff')) { // Clean
-            gradient.addColorStop(0, '#e0e7ff'); gradient.addColorStop(1, '#cffafe');
-        } else if (bgConfig.value.includes('#1e293b')) { // Midnight
-            gradient.addColorStop(0, '#1e293b'); gradient.addColorStop(1, '#0f172a');
-        } else if (bgConfig.value.includes('#f6d365')) { // Sunset
-            gradient.addColorStop(0, '#f6d365'); gradient.addColorStop(1, '#fda085');
-        } else if (bgConfig.value.includes('#84fab0')) { // Neon
-            gradient.addColorStop(0, '#84fab0'); gradient.addColorStop(1, '#8fd3f4');
-        } else {
-            gradient.addColorStop(0, '#ffffff'); gradient.addColorStop(1, '#ffffff');
-        }
-        ctx.fillStyle = gradient;
-      } else {
-        ctx.fillStyle = bgConfig.value;
-      }
-      ctx.fillRect(0, 0, totalWidth, totalHeight);
-    }
-
-    // 3. Draw Shadow & Image
-    const imgX = bgConfig.padding;
-    const imgY = bgConfig.padding;
-    
-    if (bgConfig.shadow) {
-        ctx.save();
-        ctx.shadowColor = "rgba(0, 0, 0, 0.3)";
-        ctx.shadowBlur = 30;
-        ctx.shadowOffsetX = 0;
-        ctx.shadowOffsetY = 15;
-        // Draw a rect behind the image to cast shadow
-        ctx.fillStyle = "black";
-        ctx.fillRect(imgX, imgY, baseWidth, baseHeight);
-        ctx.restore();
-    }
-
-    ctx.drawImage(imageRef.current, imgX, imgY, baseWidth, baseHeight);
+    // Large enough for the padding and frame, or exactly the chosen output size
+    const baseWidth = displayImage.width;
+    const baseHeight = displayImage.height;
+    const layout = getCanvasLayout(bgConfig, canvasExpansion, baseWidth, baseHeight);
+    const totalWidth = layout.width;
+    const totalHeight = layout.height;
+    const pixelRatio = options.pixelRatio ?? 1;
+
+    canvas.width = Math.round(totalWidth * pixelRatio);
+    canvas.height = Math.round(totalHeight * pixelRatio);
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+    // 2. Draw Background (wallpapers appear once decoded)
+    const wallpaper = bgConfig.type === 'image' ? getWallpaperImage(bgConfig.value, () => setImagesLoaded(n => n + 1)) : null;
+    drawBackground(ctx, bgConfig, totalWidth, totalHeight, wallpaper);
+
+    // 3. Draw Frame / Shadow & Image (everything from here on is in image coordinates)
+    ctx.translate(layout.x, layout.y);
+    ctx.scale(layout.scale, layout.scale);
+    // A frame wraps the whole content (image plus expanded canvas); without one only the image gets corners and shadow
+    const screen = hasFrame(bgConfig)
+      ? { x: -canvasExpansion.left, y: -canvasExpansion.top, width: layout.contentWidth, height: layout.contentHeight }
+      : { x: 0, y: 0, width: baseWidth, height: baseHeight };
+
+    drawFrame(ctx, bgConfig, screen);
+    ctx.save();
+    clipToScreen(ctx, bgConfig, screen);
+    ctx.drawImage(displayImage, 0, 0, baseWidth, baseHeight);
+    ctx.restore();
+    drawFrameOverlay(ctx, bgConfig, screen);
 
     // 4. Draw Annotations (Relative to image position)
-    ctx.translate(imgX, imgY);
 
     const allAnns = [...annotations, ...(currentAnnotation ? [currentAnnotation] : [])];
+    // All spotlights share one dimming layer, drawn at the position of the lowest one
+    const spotlights = allAnns.filter(a => a.type === ToolType.SPOTLIGHT);
 
     allAnns.forEach(ann => {
+      if (ann.type === ToolType.MAGNIFIER) return;
+      if (ann.type === ToolType.SPOTLIGHT) {
+        if (ann === spotlights[0]) {
+          drawSpotlights(ctx, spotlights, {
+            x: -canvasExpansion.left,
+            y: -canvasExpansion.top,
+            width: baseWidth + canvasExpansion.left + canvasExpansion.right,
+            height: baseHeight + canvasExpansion.top + canvasExpansion.bottom,
+          });
+        }
+        return;
+      }
+      ctx.save();
+      applyRotation(ctx, ann);
       ctx.beginPath();
       ctx.strokeStyle = ann.color;
       ctx.lineWidth = ann.strokeWidth;
       ctx.lineCap = 'round';
       ctx.lineJoin = 'round';
 
-      if (ann.type === ToolType.RECTANGLE && ann.startPoint && ann.endPoint) {
-        const w = ann.endPoint.x - ann.startPoint.x;
-        const h = ann.endPoint.y - ann.startPoint.y;
-        ctx.strokeRect(ann.startPoint.x, ann.startPoint.y, w, h);
-      } 
-      else if (ann.type === ToolType.ARROW && ann.startPoint && ann.endPoint) {
-        // Draw Line
-        const headlen = ann.strokeWidth * 3; 
-        const dx = ann.endPoint.x - ann.startPoint.x;
-        const dy = ann.endPoint.y - ann.startPoint.y;
-        const angle = Math.atan2(dy, dx);
-        
-        ctx.moveTo(ann.startPoint.x, ann.startPoint.y);
-        ctx.lineTo(ann.endPoint.x, ann.endPoint.y);
-        ctx.stroke();
-
-        // Draw Arrowhead
-        ctx.beginPath();
-        ctx.moveTo(ann.endPoint.x, ann.endPoint.y);
-        ctx.lineTo(ann.endPoint.x - headlen * Math.cos(angle - Math.PI / 6), ann.endPoint.y - headlen * Math.sin(angle - Math.PI / 6));
-        ctx.lineTo(ann.endPoint.x - headlen * Math.cos(angle + Math.PI / 6), ann.endPoint.y - headlen * Math.sin(angle + Math.PI / 6));
-        ctx.lineTo(ann.endPoint.x, ann.endPoint.y);
-        ctx.fillStyle = ann.color;
-        ctx.fill();
+      if (ann.type === ToolType.RECTANGLE || ann.type === ToolType.ARROW) {
+        // Rectangles and arrows share the shape renderer for fill/opacity/dash/arrowhead styles
+        drawShape(ctx, ann);
       }
       else if ((ann.type === ToolType.PEN || ann.type === ToolType.HIGHLIGHTER) && ann.points) {
         if (ann.type === ToolType.HIGHLIGHTER) {
@@ -544,64 +650,46 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
          ctx.shadowColor = "rgba(0,0,0,0.2)";
          ctx.shadowBlur = 4;
       }
-      else if (ann.type === ToolType.PIXELATE && ann.startPoint && ann.endPoint) {
-         // Pixelate Logic
-         const x = Math.min(ann.startPoint.x, ann.endPoint.x);
-         const y = Math.min(ann.startPoint.y, ann.endPoint.y);
-         const w = Math.abs(ann.endPoint.x - ann.startPoint.x);
-         const h = Math.abs(ann.endPoint.y - ann.startPoint.y);
-         
-         if (w > 0 && h > 0) {
-            const pixelSize = 10;
-            // We need to sample from the original image at this location
-            // Since we are translated, coords match image coords
-            // Draw mini rectangles
-            for (let px = x; px < x + w; px += pixelSize) {
-                for (let py = y; py < y + h; py += pixelSize) {
-                    // Get color of center pixel of the block from ORIGINAL image
-                    // This is computationally expensive in a loop if we use getImageData every time.
-                    // Optimization: Clip the region and redraw it with a low-res version?
-                    // Better visual trick: Just draw a blurred/colored rect for now to be performant
-                    // Or actually implement it properly via offscreen canvas?
-                    
-                    // Simple "Redact" blur approach:
-                    ctx.fillStyle = 'rgba(0,0,0,0.5)';
-                    // For true pixelate we need raw data. 
-                    // Let's assume standard 'Blur' behavior which is often just a mosaic.
-                    // To keep it fast in React render loop, we'll draw a mosaic overlay.
-                    // We can pick a color from the image if we had context access easily, but
-                    // getImageData is slow. Let's do a simple specialized "Blur" fill.
-                }
-            }
-            // Fallback: Gaussian Blur Rect
-            ctx.save();
-            ctx.filter = 'blur(8px)';
-            ctx.drawImage(imageRef.current, x, y, w, h, x, y, w, h);
-            ctx.restore();
-            
-            // Add a border to show it's an edit? No, clean look.
-         }
+      else if (isObscuringType(ann.type)) {
+         // Mosaic / Gaussian blur / black box, sampled from everything drawn beneath
+         drawObscured(ctx, ann, secureExport);
+      }
+      else if (ann.type === ToolType.IMAGE && ann.imageId) {
+         const layerImage = getLayerImage(ann.imageId, layerImages[ann.imageId], () => setImagesLoaded(n => n + 1));
+         drawImageLayer(ctx, ann, layerImage, getShadowStyle(bgConfig));
       }
       else if (ann.type === ToolType.TEXT && ann.startPoint && ann.text) {
           // Use fontSize from annotation if available, otherwise use strokeWidth
-          const fontSize = (ann as any).fontSize || ann.strokeWidth * 6;
+          const fontSize = ann.fontSize || ann.strokeWidth * 6;
           ctx.font = `${fontSize}px Inter, sans-serif`;
           ctx.fillStyle = ann.color;
           ctx.textBaseline = 'top';
           ctx.fillText(ann.text, ann.startPoint.x, ann.startPoint.y);
-          
-          // Selection box if selected
-          if (selection === ann.id) {
-              const metrics = ctx.measureText(ann.text);
-              const height = fontSize;
-              ctx.strokeStyle = '#3b82f6';
-              ctx.lineWidth = 1;
-              ctx.setLineDash([4, 4]);
-              ctx.strokeRect(ann.startPoint.x - 4, ann.startPoint.y - 4, metrics.width + 8, height + 8);
-              ctx.setLineDash([]);
-          }
       }
+      else if (isShapeAnnotation(ann)) {
+          drawShape(ctx, ann);
+      }
+      ctx.restore();
     });
+
+    // Magnifiers go last so their insets show everything beneath, including obscured regions
+    allAnns.filter(a => a.type === ToolType.MAGNIFIER).forEach(ann => drawMagnifier(ctx, ann));
+
+    // 5. Selection box and handles on top of everything (handles only for a single annotation)
+    if (options.forExport) return;
+    if (cropMode) {
+      drawCropOverlay(ctx, cropRect || { x: 0, y: 0, width: baseWidth, height: baseHeight }, baseWidth, baseHeight, getViewScale());
+      return;
+    }
+    const selectedAnns = annotations.filter(a => selection.includes(a.id));
+    if (selectedAnns.length === 1) {
+      drawSelection(ctx, selectedAnns[0], getViewScale());
+    } else if (selectedAnns.length > 1) {
+      drawMultiSelection(ctx, selectedAnns, getViewScale());
+    }
+    if (marquee) {
+      drawMarquee(ctx, marquee.start, marquee.end, getViewScale());
+    }
   };
 
   // --- Handlers ---
@@ -620,9 +708,9 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
     let x = (clientX - rect.left) * scaleX;
     let y = (clientY - rect.top) * scaleY;
 
-    // Adjust for padding (we want coords relative to image 0,0)
-    x -= bgConfig.padding;
-    y -= bgConfig.padding;
+    // Adjust for padding, frame, canvas expansion and output scaling (we want coords relative to image 0,0)
+    x = (x - canvasLayout.x) / canvasLayout.scale;
+    y = (y - canvasLayout.y) / canvasLayout.scale;
 
     return { x, y };
   };
@@ -641,37 +729,66 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
     };
   };
 
+  // Canvas pixels per screen pixel, so handles keep the same on-screen size when the canvas is scaled down
+  const getViewScale = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 1;
+    const rect = canvas.getBoundingClientRect();
+    // Image units per screen pixel, so handles keep their on-screen size at any output scale
+    return rect.width > 0 ? canvas.width / rect.width / canvasLayout.scale : 1;
+  };
+
   // Check if click is on an existing text annotation
   const findTextAnnotationAtPoint = (pt: Point): Annotation | null => {
-    const canvas = canvasRef.current;
-    if (!canvas) return null;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-
-    // Check all text annotations
-    for (const ann of annotations) {
-      if (ann.type === ToolType.TEXT && ann.startPoint && ann.text) {
-        const fontSize = (ann as any).fontSize || ann.strokeWidth * 6;
-        ctx.font = `${fontSize}px Inter, sans-serif`;
-        const metrics = ctx.measureText(ann.text);
-        const textWidth = metrics.width;
-        const textHeight = fontSize;
-
-        // Check if point is within text bounds
-        const textX = ann.startPoint.x;
-        const textY = ann.startPoint.y;
-        const textRight = textX + textWidth;
-        const textBottom = textY + textHeight;
-
-        if (pt.x >= textX - 5 && pt.x <= textRight + 5 && 
-            pt.y >= textY - 5 && pt.y <= textBottom + 5) {
-          return ann;
-        }
+    for (let i = annotations.length - 1; i >= 0; i--) {
+      const ann = annotations[i];
+      if (ann.type === ToolType.TEXT && ann.text && hitTestAnnotation(ann, pt, getViewScale())) {
+        return ann;
+      }
+    }
+    return null;
+  };
+
+  // Topmost annotation under the point
+  const findAnnotationAtPoint = (pt: Point): Annotation | null => {
+    const scale = getViewScale();
+    for (let i = annotations.length - 1; i >= 0; i--) {
+      if (hitTestAnnotation(annotations[i], pt, scale)) {
+        return annotations[i];
       }
     }
     return null;
   };
 
+  // Give a clicked (not dragged) magnifier a default source size, and place its inset next to the source
+  const finishMagnifier = (ann: Annotation): Annotation => {
+    let result = ann;
+    if (ann.startPoint && ann.endPoint && distance(ann.startPoint, ann.endPoint) < 4) {
+      const half = DEFAULT_MAGNIFIER_SIZE / 2;
+      result = {
+        ...ann,
+        startPoint: { x: ann.startPoint.x - half, y: ann.startPoint.y - half },
+        endPoint: { x: ann.startPoint.x + half, y: ann.startPoint.y + half },
+      };
+    }
+    const targetPoint = defaultMagnifierTarget(result, getDisplayImage()?.width ?? 0);
+    return targetPoint ? { ...result, targetPoint } : result;
+  };
+
+  // Commit the polyline/polygon being drawn (dropping the vertex that follows the cursor)
+  const finishPolyline = () => {
+    if (!currentAnnotation || (currentAnnotation.type !== ToolType.POLYLINE && currentAnnotation.type !== ToolType.POLYGON)) return;
+    // A double-click also places the same vertex twice, so collapse duplicates
+    const points = (currentAnnotation.points || []).slice(0, -1)
+      .filter((p, i, arr) => i === 0 || distance(p, arr[i - 1]) > 2);
+    const minPoints = currentAnnotation.type === ToolType.POLYGON ? 3 : 2;
+    if (points.length >= minPoints) {
+      setAnnotations(prev => [...prev, { ...currentAnnotation, points }]);
+    }
+    setCurrentAnnotation(null);
+    setIsDrawing(false);
+  };
+
   const handlePointerDown = (e: React.MouseEvent | React.TouchEvent) => {
     const pt = getRelativePoint(e);
     if (!pt) return;
@@ -695,57 +812,109 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
       // Continue to handle the new click below
     }
 
-    // Check if clicking on existing text annotation (for editing or selecting)
-    if (currentTool === ToolType.TEXT || currentTool === ToolType.SELECT) {
+    // In crop mode a drag draws the crop rectangle, clamped to the image
+    if (cropMode) {
+      const start = { x: Math.min(Math.max(pt.x, 0), displaySize.width), y: Math.min(Math.max(pt.y, 0), displaySize.height) };
+      cropStartRef.current = start;
+      setCropRect({ ...start, width: 0, height: 0 });
+      return;
+    }
+
+    // Handles of the selected annotation (resize, endpoints, rotation, curve control) work with any tool
+    const selectedAnn = selection.length === 1 ? annotations.find(a => a.id === selection[0]) : null;
+    const handle = selectedAnn ? hitTestHandle(selectedAnn, pt, getViewScale()) : null;
+    if (selectedAnn && handle) {
+      setTransform({ handle, origin: selectedAnn, startPoint: pt });
+      setIsDragging(true);
+      setIsDrawing(false);
+      return;
+    }
+
+    // Check if clicking on existing text annotation (for editing)
+    if (currentTool === ToolType.TEXT) {
       const existingTextAnn = findTextAnnotationAtPoint(pt);
       if (existingTextAnn && existingTextAnn.text) {
-        if (currentTool === ToolType.SELECT) {
-          // Select tool: select for deletion or dragging
-          console.log('[TEXT EDIT] Selected text annotation:', existingTextAnn);
-          setSelection(existingTextAnn.id);
-          // Start dragging
-          setIsDragging(true);
-          setDragOffset({
-            x: pt.x - existingTextAnn.startPoint!.x,
-            y: pt.y - existingTextAnn.startPoint!.y
-          });
-          setIsDrawing(false);
-          return;
-        } else {
-          // Text tool: edit the annotation
-          console.log('[TEXT EDIT] Clicked on existing text annotation:', existingTextAnn);
-          // Store original annotation for potential restore
-          originalAnnotationRef.current = { ...existingTextAnn };
-          console.log('[TEXT EDIT] Stored original annotation in ref:', originalAnnotationRef.current);
-          
-          // Start editing existing text
-          const fontSize = (existingTextAnn as any).fontSize || existingTextAnn.strokeWidth * 6;
-          const editingTextData = {
-            id: existingTextAnn.id, // Use same ID to update existing annotation
-            point: existingTextAnn.startPoint!,
-            text: existingTextAnn.text,
-            color: existingTextAnn.color,
-            fontSize: fontSize
-          };
-          console.log('[TEXT EDIT] Setting editingText with ID:', editingTextData.id, '(should match originalAnnotationRef:', originalAnnotationRef.current.id, ')');
-          setEditingText(editingTextData);
-          // Remove the old annotation temporarily (will be replaced when saved, or restored if cancelled)
-          setAnnotations(prev => {
-            const filtered = prev.filter(a => a.id !== existingTextAnn.id);
-            console.log('[TEXT EDIT] Removed annotation, remaining:', filtered.map(a => ({ id: a.id, type: a.type })));
-            return filtered;
-          });
-          setIsDrawing(false);
-          setTimeout(() => {
-            textInputRef.current?.focus();
-            textInputRef.current?.select();
-          }, 50);
+        // Text tool: edit the annotation
+        console.log('[TEXT EDIT] Clicked on existing text annotation:', existingTextAnn);
+        // Store original annotation for potential restore
+        originalAnnotationRef.current = { ...existingTextAnn };
+        console.log('[TEXT EDIT] Stored original annotation in ref:', originalAnnotationRef.current);
+        
+        // Start editing existing text
+        const fontSize = existingTextAnn.fontSize || existingTextAnn.strokeWidth * 6;
+        const editingTextData = {
+          id: existingTextAnn.id, // Use same ID to update existing annotation
+          point: existingTextAnn.startPoint!,
+          text: existingTextAnn.text,
+          color: existingTextAnn.color,
+          fontSize: fontSize
+        };
+        console.log('[TEXT EDIT] Setting editingText with ID:', editingTextData.id, '(should match originalAnnotationRef:', originalAnnotationRef.current.id, ')');
+        setEditingText(editingTextData);
+        // Remove the old annotation temporarily (will be replaced when saved, or restored if cancelled)
+        setAnnotations(prev => {
+          const filtered = prev.filter(a => a.id !== existingTextAnn.id);
+          console.log('[TEXT EDIT] Removed annotation, remaining:', filtered.map(a => ({ id: a.id, type: a.type })));
+          return filtered;
+        });
+        setIsDrawing(false);
+        setTimeout(() => {
+          textInputRef.current?.focus();
+          textInputRef.current?.select();
+        }, 50);
+        return;
+      }
+    }
+
+    // Select tool: select the topmost annotation (with its group) and start moving the selection
+    if (currentTool === ToolType.SELECT) {
+      const hitAnn = findAnnotationAtPoint(pt);
+      if (!hitAnn) {
+        // Empty space starts a marquee; Shift adds to the current selection
+        const base = e.shiftKey ? selection : [];
+        setSelection(base);
+        setMarquee({ start: pt, end: pt, base });
+        return;
+      }
+      const ids = expandToGroups(annotations, [hitAnn.id]);
+      if (e.shiftKey) {
+        // Shift-click toggles the annotation (or its group) in the selection
+        const isSelected = ids.every(id => selection.includes(id));
+        setSelection(isSelected ? selection.filter(id => !ids.includes(id)) : [...selection, ...ids.filter(id => !selection.includes(id))]);
+        return;
+      }
+      // Dragging a member of the current selection moves all of it
+      const next = selection.includes(hitAnn.id) ? selection : ids;
+      setSelection(next);
+      setTransform({ handle: 'move', origin: hitAnn, startPoint: pt, origins: annotations.filter(a => next.includes(a.id)) });
+      setIsDragging(true);
+      setIsDrawing(false);
+      return;
+    }
+
+    // Polyline/polygon: each click places a vertex, double-click or Enter finishes
+    if (currentTool === ToolType.POLYLINE || currentTool === ToolType.POLYGON) {
+      if (currentAnnotation && currentAnnotation.type === currentTool) {
+        const points = currentAnnotation.points || [];
+        if (currentTool === ToolType.POLYGON && points.length > 3 && distance(pt, points[0]) <= CLOSE_POLYGON_DISTANCE) {
+          finishPolyline();
           return;
         }
+        const vertex = e.shiftKey && points.length > 1 ? snapAngle(points[points.length - 2], pt) : pt;
+        setCurrentAnnotation({ ...currentAnnotation, points: [...points.slice(0, -1), vertex, vertex] });
+      } else {
+        setCurrentAnnotation({
+          id: Date.now().toString(),
+          type: currentTool,
+          points: [pt, pt],
+          color: currentColor,
+          strokeWidth: currentStrokeWidth,
+          ...pickStyle(currentTool, shapeStyle)
+        });
+        setIsDrawing(true);
       }
+      return;
     }
-
-    if (currentTool === ToolType.SELECT) return;
     
     setIsDrawing(true);
     const id = Date.now().toString();
@@ -790,7 +959,11 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
       endPoint: pt,
       points: [pt],
       color: currentColor,
-      strokeWidth: currentStrokeWidth
+      strokeWidth: currentStrokeWidth,
+      ...pickStyle(currentTool, shapeStyle),
+      ...(currentTool === ToolType.BLUR ? { blurRadius } : {}),
+      ...(currentTool === ToolType.SPOTLIGHT ? { spotlightShape, dimOpacity } : {}),
+      ...(currentTool === ToolType.MAGNIFIER ? { zoom: magnifierZoom } : {})
     };
     setCurrentAnnotation(newAnn);
   };
@@ -799,21 +972,37 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
     const pt = getRelativePoint(e);
     if (!pt) return;
 
-    // Handle dragging text annotations
-    if (isDragging && selection && dragOffset) {
-      const selectedAnn = annotations.find(a => a.id === selection);
-      if (selectedAnn && selectedAnn.type === ToolType.TEXT) {
-        // Update annotation position
-        const newPoint = {
-          x: pt.x - dragOffset.x,
-          y: pt.y - dragOffset.y
-        };
-        setAnnotations(prev => prev.map(ann => 
-          ann.id === selection 
-            ? { ...ann, startPoint: newPoint }
-            : ann
-        ));
-        return;
+    if (cropMode) {
+      if (cropStartRef.current) {
+        setCropRect(constrainCropRect(cropStartRef.current, pt, cropAspect, displaySize.width, displaySize.height));
+      }
+      return;
+    }
+
+    // Handle drag-selecting
+    if (marquee) {
+      setMarquee({ ...marquee, end: pt });
+      return;
+    }
+
+    // Handle moving/resizing/rotating the selected annotation(s)
+    if (isDragging && transform) {
+      const updated = transform.handle === 'move' ? applyMove(transform, pt) : [applyTransform(transform, pt, e.shiftKey)];
+      const byId = new Map(updated.map(ann => [ann.id, ann]));
+      setAnnotations(prev => prev.map(ann => byId.get(ann.id) || ann));
+      return;
+    }
+
+    // Update the cursor when hovering handles or (with the select tool) annotations
+    if (!isDrawing) {
+      const selectedAnn = selection.length === 1 ? annotations.find(a => a.id === selection[0]) : null;
+      const handle = selectedAnn ? hitTestHandle(selectedAnn, pt, getViewScale()) : null;
+      if (handle) {
+        setHoverCursor(getHandleCursor(handle));
+      } else if (currentTool === ToolType.SELECT && findAnnotationAtPoint(pt)) {
+        setHoverCursor(getHandleCursor('move'));
+      } else {
+        setHoverCursor(undefined);
       }
     }
 
@@ -825,41 +1014,310 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
             ...prev!,
             points: [...(prev!.points || []), pt]
         }));
+    } else if (currentAnnotation.type === ToolType.POLYLINE || currentAnnotation.type === ToolType.POLYGON) {
+        // The last vertex follows the cursor until the next click
+        const points = currentAnnotation.points || [];
+        const vertex = e.shiftKey && points.length > 1 ? snapAngle(points[points.length - 2], pt) : pt;
+        setCurrentAnnotation({ ...currentAnnotation, points: [...points.slice(0, -1), vertex] });
     } else {
+        // Shift: circles for ellipses, 15° steps for lines and arrows; magnifier sources are always square
+        let endPoint = pt;
+        if (currentAnnotation.type === ToolType.MAGNIFIER && currentAnnotation.startPoint) {
+            endPoint = constrainSquare(currentAnnotation.startPoint, pt);
+        } else if (e.shiftKey && currentAnnotation.startPoint) {
+            if (currentAnnotation.type === ToolType.ELLIPSE || (currentAnnotation.type === ToolType.SPOTLIGHT && currentAnnotation.spotlightShape === 'ellipse')) {
+                endPoint = constrainSquare(currentAnnotation.startPoint, pt);
+            } else if (currentAnnotation.type !== ToolType.RECTANGLE && !isObscuringType(currentAnnotation.type)) {
+                endPoint = snapAngle(currentAnnotation.startPoint, pt);
+            }
+        }
         setCurrentAnnotation(prev => ({
             ...prev!,
-            endPoint: pt
+            endPoint
         }));
     }
   };
 
   const handlePointerUp = () => {
+    if (cropMode) {
+      cropStartRef.current = null;
+      return;
+    }
+
+    if (marquee) {
+      const hits = selectInRect(annotations, marquee.start, marquee.end);
+      setSelection([...marquee.base, ...hits.filter(id => !marquee.base.includes(id))]);
+      setMarquee(null);
+      return;
+    }
+
     if (isDragging) {
       // End dragging
       setIsDragging(false);
-      setDragOffset(null);
+      setTransform(null);
       return;
     }
 
+    // Polylines stay open across clicks until finished
+    if (currentAnnotation && (currentAnnotation.type === ToolType.POLYLINE || currentAnnotation.type === ToolType.POLYGON)) return;
+
     if (isDrawing && currentAnnotation) {
-      setAnnotations(prev => [...prev, currentAnnotation]);
+      let finished = currentAnnotation.type === ToolType.CURVED_ARROW && currentAnnotation.startPoint && currentAnnotation.endPoint
+        ? { ...currentAnnotation, controlPoint: defaultControlPoint(currentAnnotation.startPoint, currentAnnotation.endPoint) }
+        : currentAnnotation;
+      if (finished.type === ToolType.MAGNIFIER) {
+        finished = finishMagnifier(finished);
+      }
+      setAnnotations(prev => [...prev, finished]);
       setCurrentAnnotation(null);
+      if (finished.type === ToolType.CURVED_ARROW || finished.type === ToolType.MAGNIFIER) {
+        // Select it so the bend / inset can be adjusted right away
+        setSelection([finished.id]);
+      }
     }
     setIsDrawing(false);
   };
 
+  // Shape style controls edit the selected shape, or the defaults for the next one
+  const selectedStyledAnns = annotations.filter(a => selection.includes(a.id) && isStyledType(a.type));
+  const selectedStyledAnn = selectedStyledAnns[0] || null;
+  const styleTarget = selectedStyledAnn ? selectedStyledAnn.type : currentTool;
+  const activeStyle: ShapeStyle = selectedStyledAnn ? { ...DEFAULT_SHAPE_STYLE, ...pickStyle(selectedStyledAnn.type, selectedStyledAnn) } : shapeStyle;
+  const activeStrokeWidth = selectedStyledAnn ? selectedStyledAnn.strokeWidth : currentStrokeWidth;
+
+  const updateShapeStyle = (patch: ShapeStyle & { strokeWidth?: number }) => {
+    const { strokeWidth, ...style } = patch;
+    if (strokeWidth !== undefined) setCurrentStrokeWidth(strokeWidth);
+    setShapeStyle(prev => ({ ...prev, ...style }));
+    if (selectedStyledAnns.length > 0) {
+      setAnnotations(prev => prev.map(ann => selection.includes(ann.id) && isStyledType(ann.type)
+        ? { ...ann, ...pickStyle(ann.type, style), ...(strokeWidth !== undefined ? { strokeWidth } : {}) }
+        : ann));
+    }
+  };
+
+  // Blur radius edits the selected blur regions, or the default for the next one
+  const selectedBlurAnns = annotations.filter(a => selection.includes(a.id) && a.type === ToolType.BLUR);
+  const activeBlurRadius = selectedBlurAnns[0]?.blurRadius ?? blurRadius;
+  const showBlurSettings = currentTool === ToolType.BLUR || selectedBlurAnns.length > 0;
+
+  const updateBlurRadius = (radius: number) => {
+    setBlurRadius(radius);
+    if (selectedBlurAnns.length > 0) {
+      setAnnotations(prev => prev.map(ann => selection.includes(ann.id) && ann.type === ToolType.BLUR ? { ...ann, blurRadius: radius } : ann));
+    }
+  };
+
+  // Callout settings edit the selected spotlights/magnifiers, or the defaults for the next one
+  const selectedSpotlight = annotations.find(a => selection.includes(a.id) && a.type === ToolType.SPOTLIGHT) || null;
+  const firstSpotlight = annotations.find(a => a.type === ToolType.SPOTLIGHT) || null;
+  const activeSpotlightShape = selectedSpotlight?.spotlightShape ?? spotlightShape;
+  const activeDimOpacity = firstSpotlight?.dimOpacity ?? dimOpacity;
+  const selectedMagnifiers = annotations.filter(a => selection.includes(a.id) && a.type === ToolType.MAGNIFIER);
+  const activeZoom = selectedMagnifiers[0]?.zoom ?? magnifierZoom;
+
+  const updateSpotlight = (patch: { spotlightShape?: SpotlightShape; dimOpacity?: number }) => {
+    if (patch.spotlightShape) setSpotlightShape(patch.spotlightShape);
+    if (patch.dimOpacity !== undefined) setDimOpacity(patch.dimOpacity);
+    setAnnotations(prev => prev.map(ann => {
+      if (ann.type !== ToolType.SPOTLIGHT) return ann;
+      // Dimming is shared, so it applies to every spotlight; the shape only to selected ones
+      const shape = patch.spotlightShape && selection.includes(ann.id) ? { spotlightShape: patch.spotlightShape } : {};
+      const dim = patch.dimOpacity !== undefined ? { dimOpacity: patch.dimOpacity } : {};
+      return { ...ann, ...shape, ...dim };
+    }));
+  };
+
+  const updateMagnifierZoom = (zoom: number) => {
+    setMagnifierZoom(zoom);
+    if (selectedMagnifiers.length > 0) {
+      setAnnotations(prev => prev.map(ann => selection.includes(ann.id) && ann.type === ToolType.MAGNIFIER ? { ...ann, zoom } : ann));
+    }
+  };
+
+  const toggleSecureExport = (enabled: boolean) => {
+    setSecureExport(enabled);
+    if (typeof window !== 'undefined' && 'electronAPI' in window) {
+      window.electronAPI.updateSettings({ secureExport: enabled });
+    }
+  };
+
+  // --- Base image crop / rotate / flip / resize (non-destructive, one undo step each) ---
+  const restoreSnapshot = (snapshot: EditorSnapshot) => {
+    const copy: EditorSnapshot = JSON.parse(JSON.stringify(snapshot)); // Deep copy
+    setAnnotations(copy.annotations);
+    setImageTransform(copy.imageTransform);
+    setCanvasExpansion(copy.canvasExpansion);
+  };
+
+  // Annotations are remapped so they stay on the same image content
+  const applyImageTransform = (next: ImageTransform) => {
+    if (!imageSize.width || !imageSize.height) return;
+    setAnnotations(prev => remapAnnotations(prev, imageTransform, next, imageSize.width, imageSize.height));
+    setImageTransform(next);
+    setSelection([]);
+    setResizeDraft(null);
+  };
+
+  const enterCropMode = () => {
+    finishPolyline();
+    setSelection([]);
+    setCropRect(null);
+    setCropMode(true);
+  };
+
+  const exitCropMode = () => {
+    cropStartRef.current = null;
+    setCropRect(null);
+    setCropMode(false);
+  };
+
+  const applyCrop = () => {
+    if (cropRect && cropRect.width >= 2 && cropRect.height >= 2) {
+      applyImageTransform(cropTransform(imageTransform, cropRect, imageSize.width, imageSize.height));
+    }
+    exitCropMode();
+  };
+
+  const updateResizeDraft = (axis: 'width' | 'height', value: number) => {
+    const current = resizeDraft || { width: Math.round(displaySize.width), height: Math.round(displaySize.height) };
+    if (!value || value < 1) return;
+    if (!lockResizeRatio) {
+      setResizeDraft({ ...current, [axis]: value });
+    } else if (axis === 'width') {
+      setResizeDraft({ width: value, height: Math.round(value * displaySize.height / displaySize.width) });
+    } else {
+      setResizeDraft({ width: Math.round(value * displaySize.width / displaySize.height), height: value });
+    }
+  };
+
+  // --- Image layers / canvas expansion (layer + expansion changes land in one undo step) ---
+  const imageLayerCount = annotations.filter(a => a.type === ToolType.IMAGE).length;
+
+  const addImageLayer = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = async () => {
+      const src = reader.result as string;
+      try {
+        const size = await loadImageSize(src);
+        // Placed to the right of everything on the canvas, scaled to the base image height
+        const height = displaySize.height || size.height;
+        const width = size.width * height / size.height;
+        const right = displaySize.width + canvasExpansion.right;
+        const imageId = newImageId();
+        const layer = createImageLayer(imageId, { x: right + LAYOUT_GAP, y: 0, width, height });
+        const next = [...annotations, layer];
+        setLayerImages(prev => ({ ...prev, [imageId]: src }));
+        setAnnotations(next);
+        setCanvasExpansion(growExpansion(canvasExpansion, fitExpansionToContent(next, displaySize.width, displaySize.height)));
+        setCurrentTool(ToolType.SELECT);
+        setSelection([layer.id]);
+      } catch (error) {
+        console.error('Failed to add image layer:', error);
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const applyLayout = (mode: LayoutMode) => {
+    const next = layoutImageLayers(annotations, displaySize.width, displaySize.height, mode);
+    setAnnotations(next);
+    setCanvasExpansion(fitExpansionToContent(next, displaySize.width, displaySize.height));
+  };
+
+  const updateExpansion = (side: keyof CanvasExpansion, value: number) => {
+    setCanvasExpansion(prev => ({ ...prev, [side]: Math.max(0, Math.round(value) || 0) }));
+  };
+
+  // --- Background ---
+  const setWallpaper = (src: string) => {
+    setBgConfig(prev => ({ ...prev, type: 'image', value: src, imageFit: prev.imageFit ?? 'cover', imageBlur: prev.imageBlur ?? 0 }));
+  };
+
+  const loadWallpaperFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => setWallpaper(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const loadWallpaperFromHistory = async (item: CaptureHistory) => {
+    const src = await HistoryService.getImage(item.id);
+    if (src) setWallpaper(src);
+  };
+
+  // --- Arrange / clipboard (also used by keyboard shortcuts) ---
+  const selectedUnitCount = countUnits(annotations, selection);
+
+  const copySelection = () => {
+    writeAnnotationClipboard(annotations.filter(a => selection.includes(a.id)), layerImages);
+  };
+
+  const pasteAnnotations = () => {
+    const clipboard = readAnnotationClipboard();
+    const pasted = cloneAnnotations(clipboard.annotations);
+    if (pasted.length === 0) return;
+    // Image layers copied from another capture bring their image along
+    setLayerImages(prev => ({ ...clipboard.images, ...prev }));
+    setAnnotations(prev => [...prev, ...pasted]);
+    setSelection(pasted.map(a => a.id));
+    // Repeated pastes cascade instead of stacking on the same spot
+    writeAnnotationClipboard(pasted, clipboard.images);
+  };
+
+  const duplicateSelection = () => {
+    const copies = cloneAnnotations(annotations.filter(a => selection.includes(a.id)));
+    setAnnotations(prev => [...prev, ...copies]);
+    setSelection(copies.map(a => a.id));
+  };
+
+  const arrangeSelection = (action: ZOrderAction) => {
+    setAnnotations(prev => reorderAnnotations(prev, selection, action));
+  };
+
+  const alignSelection = (mode: AlignMode) => {
+    setAnnotations(prev => alignAnnotations(prev, selection, mode));
+  };
+
+  const distributeSelection = (axis: 'horizontal' | 'vertical') => {
+    setAnnotations(prev => distributeAnnotations(prev, selection, axis));
+  };
+
+  const getProject = () => createProject(imageSrc, annotations, bgConfig, {
+    imageTransform: isIdentityTransform(imageTransform) ? undefined : imageTransform,
+    canvasExpansion: isNoExpansion(canvasExpansion) ? undefined : canvasExpansion,
+    images: layerImages,
+  });
+
+  const handleClose = () => {
+    onProjectChange?.(getProject());
+    onClose();
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      await onSaveProject?.(getProject());
+    } catch (error) {
+      console.error('Save project failed:', error);
+      alert('Failed to save project. Please try again.');
+    }
+  };
+
   const handleExport = async (type: 'copy' | 'download') => {
     const canvas = canvasRef.current;
     if (!canvas) {
       console.error('Canvas not found');
       return;
     }
+    onProjectChange?.(getProject());
 
     try {
       // Ensure canvas is fully rendered
       await new Promise(resolve => setTimeout(resolve, 100));
       
+      // Flatten without selection handles, then restore the editing view
+      drawCanvas({ forExport: true, pixelRatio: exportScale });
       const imageData = canvas.toDataURL('image/png');
+      drawCanvas();
       
       if (!imageData || imageData === 'data:,') {
         console.error('Failed to generate image data');
@@ -870,7 +1328,7 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
       if (type === 'download') {
         if (onSave) {
           try {
-            await onSave(imageData);
+            await onSave(imageData, encodeOptions || undefined);
             // Show success feedback
             const button = document.querySelector('[data-save-button]') as HTMLElement;
             if (button) {
@@ -928,29 +1386,24 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
           }
         } else {
           // Fallback: browser clipboard API
+          // Use the flattened export, the canvas has already been redrawn with the editing overlays.
+          // Decoded by hand since the CSP doesn't allow fetching data: URLs
           try {
-            canvas.toBlob(async (blob) => {
-              if (blob) {
-                try {
-                  await navigator.clipboard.write([
-                    new ClipboardItem({ 'image/png': blob })
-                  ]);
-                  
-                  // Show success feedback
-                  const button = document.querySelector('[data-copy-button]') as HTMLElement;
-                  if (button) {
-                    const originalText = button.innerHTML;
-                    button.innerHTML = '<span class="text-green-400">✓ Copied!</span>';
-                    setTimeout(() => {
-                      button.innerHTML = originalText;
-                    }, 2000);
-                  }
-                } catch (err) {
-                  console.error('Clipboard write failed:', err);
-                  alert('Failed to copy to clipboard. Please try again.');
-                }
-              }
-            }, 'image/png');
+            const bytes = Uint8Array.from(atob(imageData.slice(imageData.indexOf(',') + 1)), (c) => c.charCodeAt(0));
+            const blob = new Blob([bytes], { type: 'image/png' });
+            await navigator.clipboard.write([
+              new ClipboardItem({ 'image/png': blob })
+            ]);
+
+            // Show success feedback
+            const button = document.querySelector('[data-copy-button]') as HTMLElement;
+            if (button) {
+              const originalText = button.innerHTML;
+              button.innerHTML = '<span class="text-green-400">✓ Copied!</span>';
+              setTimeout(() => {
+                button.innerHTML = originalText;
+              }, 2000);
+            }
           } catch (error) {
             console.error('Copy failed:', error);
             alert('Failed to copy image. Please try again.');
@@ -995,15 +1448,28 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
              {[
                  { id: ToolType.SELECT, icon: <IconCursor className="w-4 h-4" />, label: '选择工具' },
                  { id: ToolType.RECTANGLE, icon: <IconSquare className="w-4 h-4" />, label: '矩形' },
+                 { id: ToolType.ELLIPSE, icon: <IconCircle className="w-4 h-4" />, label: '椭圆 (Shift 画圆)' },
+                 { id: ToolType.LINE, icon: <IconLine className="w-4 h-4" />, label: '直线 (Shift 吸附 15°)' },
+                 { id: ToolType.POLYLINE, icon: <IconPolyline className="w-4 h-4" />, label: '折线 (双击/回车结束)' },
+                 { id: ToolType.POLYGON, icon: <IconPolygon className="w-4 h-4" />, label: '多边形 (双击/回车结束)' },
                  { id: ToolType.ARROW, icon: <IconArrow className="w-4 h-4" />, label: '箭头' },
+                 { id: ToolType.DOUBLE_ARROW, icon: <IconDoubleArrow className="w-4 h-4" />, label: '双向箭头' },
+                 { id: ToolType.CURVED_ARROW, icon: <IconCurvedArrow className="w-4 h-4" />, label: '曲线箭头' },
                  { id: ToolType.PEN, icon: <IconPen className="w-4 h-4" />, label: '画笔' },
                  { id: ToolType.TEXT, icon: <IconType className="w-4 h-4" />, label: '文字' },
                  { id: ToolType.COUNTER, icon: <span className="font-bold text-xs bg-white text-black rounded-full w-4 h-4 flex items-center justify-center">1</span>, label: '计数' },
-                 { id: ToolType.PIXELATE, icon: <IconEyeOff className="w-4 h-4" />, label: '模糊' },
+                 { id: ToolType.PIXELATE, icon: <IconEyeOff className="w-4 h-4" />, label: '马赛克' },
+                 { id: ToolType.BLUR, icon: <IconDroplet className="w-4 h-4" />, label: '高斯模糊' },
+                 { id: ToolType.REDACT, icon: <IconRedact className="w-4 h-4" />, label: '涂黑' },
+                 { id: ToolType.SPOTLIGHT, icon: <IconSpotlight className="w-4 h-4" />, label: '聚光灯' },
+                 { id: ToolType.MAGNIFIER, icon: <IconZoomIn className="w-4 h-4" />, label: '放大镜' },
              ].map(tool => (
                  <button
                     key={tool.id}
-                    onClick={() => setCurrentTool(tool.id)}
+                    onClick={() => {
+                        finishPolyline();
+                        setCurrentTool(tool.id);
+                    }}
                     className={`p-2 rounded-md transition-all relative group ${currentTool === tool.id ? 'bg-blue-600 shadow-sm text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
                     title={tool.label}
                  >
@@ -1042,7 +1508,16 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
              >
                  <IconDownload className="w-4 h-4 mr-2" /> Save
              </button>
-             <button onClick={onClose} className="text-slate-400 hover:text-white p-2">
+             {onSaveProject && (
+               <button
+                   onClick={handleSaveProject}
+                   title="Save an editable .cleansnap project"
+                   className="bg-slate-800 hover:bg-slate-700 border border-slate-700 text-white px-3 py-1.5 rounded-md text-sm font-medium transition-colors"
+               >
+                   Project
+               </button>
+             )}
+             <button onClick={handleClose} className="text-slate-400 hover:text-white p-2">
                  <IconX className="w-5 h-5" />
              </button>
          </div>
@@ -1100,6 +1575,533 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
                  </div>
              )}
              
+             {/* Shape Style */}
+             {isStyledType(styleTarget) && (
+                 <div className="space-y-3 pb-4 border-b border-slate-800">
+                     <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Shape Style</h3>
+                     <div className="space-y-2">
+                         <div className="flex justify-between text-xs text-slate-400">
+                             <span>Stroke Width</span>
+                             <span>{activeStrokeWidth}px</span>
+                         </div>
+                         <input
+                            type="range" min="1" max="20" step="1"
+                            value={activeStrokeWidth}
+                            onChange={(e) => updateShapeStyle({ strokeWidth: Number(e.target.value) })}
+                            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                         />
+                     </div>
+                     <div className="space-y-2">
+                         <div className="flex justify-between text-xs text-slate-400">
+                             <span>Stroke Opacity</span>
+                             <span>{Math.round((activeStyle.strokeOpacity ?? 1) * 100)}%</span>
+                         </div>
+                         <input
+                            type="range" min="0.1" max="1" step="0.05"
+                            value={activeStyle.strokeOpacity ?? 1}
+                            onChange={(e) => updateShapeStyle({ strokeOpacity: Number(e.target.value) })}
+                            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                         />
+                     </div>
+                     <div className="space-y-2">
+                         <div className="text-xs text-slate-400">Line Style</div>
+                         <div className="grid grid-cols-3 gap-1">
+                             {(['solid', 'dashed', 'dotted'] as DashStyle[]).map(dash => (
+                                 <button
+                                    key={dash}
+                                    onClick={() => updateShapeStyle({ dash })}
+                                    className={`py-1 rounded text-xs capitalize ${(activeStyle.dash || 'solid') === dash ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                                 >
+                                    {dash}
+                                 </button>
+                             ))}
+                         </div>
+                     </div>
+                     {isFillableType(styleTarget) && (
+                         <>
+                             <div className="space-y-2">
+                                 <div className="text-xs text-slate-400">Fill</div>
+                                 <div className="grid grid-cols-5 gap-2">
+                                     <button
+                                        title="No fill"
+                                        onClick={() => updateShapeStyle({ fillColor: undefined })}
+                                        className={`h-6 rounded border-2 bg-slate-800 text-slate-500 flex items-center justify-center ${!activeStyle.fillColor ? 'border-white' : 'border-slate-600'}`}
+                                     >
+                                        <IconX className="w-3 h-3" />
+                                     </button>
+                                     {['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#a855f7', '#ec4899', '#ffffff', '#000000'].map(color => (
+                                         <button
+                                            key={color}
+                                            onClick={() => updateShapeStyle({ fillColor: color })}
+                                            className={`h-6 rounded border-2 ${activeStyle.fillColor === color ? 'border-white' : 'border-slate-600'}`}
+                                            style={{ backgroundColor: color }}
+                                         />
+                                     ))}
+                                 </div>
+                             </div>
+                             {activeStyle.fillColor && (
+                                 <div className="space-y-2">
+                                     <div className="flex justify-between text-xs text-slate-400">
+                                         <span>Fill Opacity</span>
+                                         <span>{Math.round((activeStyle.fillOpacity ?? DEFAULT_SHAPE_STYLE.fillOpacity) * 100)}%</span>
+                                     </div>
+                                     <input
+                                        type="range" min="0.05" max="1" step="0.05"
+                                        value={activeStyle.fillOpacity ?? DEFAULT_SHAPE_STYLE.fillOpacity}
+                                        onChange={(e) => updateShapeStyle({ fillOpacity: Number(e.target.value) })}
+                                        className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                     />
+                                 </div>
+                             )}
+                         </>
+                     )}
+                     {styleTarget === ToolType.RECTANGLE && (
+                         <div className="space-y-2">
+                             <div className="flex justify-between text-xs text-slate-400">
+                                 <span>Corner Radius</span>
+                                 <span>{activeStyle.cornerRadius || 0}px</span>
+                             </div>
+                             <input
+                                type="range" min="0" max="60" step="2"
+                                value={activeStyle.cornerRadius || 0}
+                                onChange={(e) => updateShapeStyle({ cornerRadius: Number(e.target.value) })}
+                                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                             />
+                         </div>
+                     )}
+                     {isArrowType(styleTarget) && (
+                         <div className="space-y-2">
+                             <div className="text-xs text-slate-400">Arrowhead</div>
+                             <div className="grid grid-cols-5 gap-1">
+                                 {(['filled', 'open', 'dot', 'bar', 'none'] as ArrowHeadStyle[]).map(head => (
+                                     <button
+                                        key={head}
+                                        onClick={() => updateShapeStyle({ arrowHead: head })}
+                                        className={`py-1 rounded text-xs capitalize ${(activeStyle.arrowHead || 'filled') === head ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                                     >
+                                        {head}
+                                     </button>
+                                 ))}
+                             </div>
+                         </div>
+                     )}
+                 </div>
+             )}
+             
+             {/* Blur */}
+             {showBlurSettings && (
+                 <div className="space-y-3 pb-4 border-b border-slate-800">
+                     <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Blur</h3>
+                     <div className="space-y-2">
+                         <div className="flex justify-between text-xs text-slate-400">
+                             <span>Radius</span>
+                             <span>{activeBlurRadius}px</span>
+                         </div>
+                         <input
+                            type="range" min="4" max="40" step="1"
+                            value={activeBlurRadius}
+                            onChange={(e) => updateBlurRadius(Number(e.target.value))}
+                            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                         />
+                     </div>
+                 </div>
+             )}
+
+             {/* Spotlight */}
+             {(currentTool === ToolType.SPOTLIGHT || selectedSpotlight) && (
+                 <div className="space-y-3 pb-4 border-b border-slate-800">
+                     <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Spotlight</h3>
+                     <div className="grid grid-cols-2 gap-1">
+                         {(['rect', 'ellipse'] as SpotlightShape[]).map(shape => (
+                             <button
+                                key={shape}
+                                onClick={() => updateSpotlight({ spotlightShape: shape })}
+                                className={`py-1 rounded text-xs ${activeSpotlightShape === shape ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                             >
+                                {shape === 'rect' ? 'Rectangle' : 'Ellipse'}
+                             </button>
+                         ))}
+                     </div>
+                     <div className="space-y-2">
+                         <div className="flex justify-between text-xs text-slate-400">
+                             <span>Dim</span>
+                             <span>{Math.round(activeDimOpacity * 100)}%</span>
+                         </div>
+                         <input
+                            type="range" min="0.1" max="0.9" step="0.05"
+                            value={activeDimOpacity}
+                            onChange={(e) => updateSpotlight({ dimOpacity: Number(e.target.value) })}
+                            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                         />
+                     </div>
+                 </div>
+             )}
+
+             {/* Magnifier */}
+             {(currentTool === ToolType.MAGNIFIER || selectedMagnifiers.length > 0) && (
+                 <div className="space-y-3 pb-4 border-b border-slate-800">
+                     <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Magnifier</h3>
+                     <div className="space-y-2">
+                         <div className="flex justify-between text-xs text-slate-400">
+                             <span>Zoom</span>
+                             <span>{activeZoom}x</span>
+                         </div>
+                         <input
+                            type="range" min="1.5" max="6" step="0.5"
+                            value={activeZoom}
+                            onChange={(e) => updateMagnifierZoom(Number(e.target.value))}
+                            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                         />
+                     </div>
+                     <p className="text-xs text-slate-500">Drag the inset to move it; drag the source circle to pick what it shows.</p>
+                 </div>
+             )}
+
+             {/* Arrange */}
+             {selection.length > 0 && (
+                 <div className="space-y-3 pb-4 border-b border-slate-800">
+                     <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                         Arrange <span className="normal-case font-normal">({selection.length} selected)</span>
+                     </h3>
+                     <div className="grid grid-cols-2 gap-1">
+                         <button
+                            onClick={() => setAnnotations(prev => groupAnnotations(prev, selection))}
+                            disabled={selectedUnitCount < 2}
+                            className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:text-slate-600 disabled:hover:bg-slate-800"
+                            title="Group (Cmd/Ctrl+G)"
+                         >
+                            Group
+                         </button>
+                         <button
+                            onClick={() => setAnnotations(prev => ungroupAnnotations(prev, selection))}
+                            disabled={!annotations.some(a => selection.includes(a.id) && a.groupId)}
+                            className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:text-slate-600 disabled:hover:bg-slate-800"
+                            title="Ungroup (Cmd/Ctrl+Shift+G)"
+                         >
+                            Ungroup
+                         </button>
+                     </div>
+                     <div className="space-y-2">
+                         <div className="text-xs text-slate-400">Order</div>
+                         <div className="grid grid-cols-4 gap-1">
+                             {([
+                                 { action: 'front', label: 'Front', title: 'Bring to front (Cmd/Ctrl+Shift+])' },
+                                 { action: 'forward', label: 'Up', title: 'Bring forward (Cmd/Ctrl+])' },
+                                 { action: 'backward', label: 'Down', title: 'Send backward (Cmd/Ctrl+[)' },
+                                 { action: 'back', label: 'Back', title: 'Send to back (Cmd/Ctrl+Shift+[)' },
+                             ] as { action: ZOrderAction; label: string; title: string }[]).map(item => (
+                                 <button
+                                    key={item.action}
+                                    onClick={() => arrangeSelection(item.action)}
+                                    className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                                    title={item.title}
+                                 >
+                                    {item.label}
+                                 </button>
+                             ))}
+                         </div>
+                     </div>
+                     {selectedUnitCount > 1 && (
+                         <div className="space-y-2">
+                             <div className="text-xs text-slate-400">Align</div>
+                             <div className="grid grid-cols-3 gap-1">
+                                 {([
+                                     { mode: 'left', label: 'Left' },
+                                     { mode: 'hcenter', label: 'Center' },
+                                     { mode: 'right', label: 'Right' },
+                                     { mode: 'top', label: 'Top' },
+                                     { mode: 'vcenter', label: 'Middle' },
+                                     { mode: 'bottom', label: 'Bottom' },
+                                 ] as { mode: AlignMode; label: string }[]).map(item => (
+                                     <button
+                                        key={item.mode}
+                                        onClick={() => alignSelection(item.mode)}
+                                        className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                                     >
+                                        {item.label}
+                                     </button>
+                                 ))}
+                             </div>
+                             <div className="grid grid-cols-2 gap-1">
+                                 <button
+                                    onClick={() => distributeSelection('horizontal')}
+                                    disabled={selectedUnitCount < 3}
+                                    className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:text-slate-600 disabled:hover:bg-slate-800"
+                                 >
+                                    Distribute H
+                                 </button>
+                                 <button
+                                    onClick={() => distributeSelection('vertical')}
+                                    disabled={selectedUnitCount < 3}
+                                    className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:text-slate-600 disabled:hover:bg-slate-800"
+                                 >
+                                    Distribute V
+                                 </button>
+                             </div>
+                         </div>
+                     )}
+                     <div className="grid grid-cols-2 gap-1">
+                         <button
+                            onClick={copySelection}
+                            className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                            title="Copy (Cmd/Ctrl+C), paste in any editor with Cmd/Ctrl+V"
+                         >
+                            Copy
+                         </button>
+                         <button
+                            onClick={duplicateSelection}
+                            className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                            title="Duplicate (Cmd/Ctrl+D)"
+                         >
+                            Duplicate
+                         </button>
+                     </div>
+                 </div>
+             )}
+             
+             {/* Image (crop / rotate / flip / resize) */}
+             <div className="space-y-3 pb-4 border-b border-slate-800">
+                 <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                     Image <span className="normal-case font-normal">({Math.round(displaySize.width)} × {Math.round(displaySize.height)})</span>
+                 </h3>
+                 {cropMode ? (
+                     <div className="space-y-2">
+                         <div className="text-xs text-slate-400">Drag on the image to choose the crop area</div>
+                         <div className="grid grid-cols-3 gap-1">
+                             {CROP_ASPECTS.map(aspect => (
+                                 <button
+                                    key={aspect.label}
+                                    onClick={() => {
+                                        setCropAspect(aspect.ratio);
+                                        setCropRect(null);
+                                    }}
+                                    className={`py-1 rounded text-xs ${cropAspect === aspect.ratio ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                                 >
+                                    {aspect.label}
+                                 </button>
+                             ))}
+                         </div>
+                         <div className="grid grid-cols-2 gap-1">
+                             <button
+                                onClick={applyCrop}
+                                disabled={!cropRect || cropRect.width < 2 || cropRect.height < 2}
+                                className="py-1 rounded text-xs bg-blue-600 text-white hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600"
+                                title="Apply (Enter)"
+                             >
+                                Apply
+                             </button>
+                             <button
+                                onClick={exitCropMode}
+                                className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                                title="Cancel (Esc)"
+                             >
+                                Cancel
+                             </button>
+                         </div>
+                     </div>
+                 ) : (
+                     <>
+                         <div className="grid grid-cols-2 gap-1">
+                             <button
+                                onClick={enterCropMode}
+                                className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700 flex items-center justify-center"
+                             >
+                                <IconCrop className="w-3 h-3 mr-1" /> Crop
+                             </button>
+                             <button
+                                onClick={() => applyImageTransform(resetCrop(imageTransform, imageSize.width, imageSize.height))}
+                                disabled={!imageTransform.crop}
+                                className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:text-slate-600 disabled:hover:bg-slate-800"
+                                title="Show the whole original image again"
+                             >
+                                Uncrop
+                             </button>
+                         </div>
+                         <div className="grid grid-cols-4 gap-1">
+                             <button onClick={() => applyImageTransform(rotateTransform(imageTransform, -1))} className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700" title="Rotate 90° counterclockwise">⟲</button>
+                             <button onClick={() => applyImageTransform(rotateTransform(imageTransform, 1))} className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700" title="Rotate 90° clockwise">⟳</button>
+                             <button onClick={() => applyImageTransform(flipTransform(imageTransform, 'horizontal'))} className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700" title="Flip horizontally">⇋</button>
+                             <button onClick={() => applyImageTransform(flipTransform(imageTransform, 'vertical'))} className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700" title="Flip vertically">⇵</button>
+                         </div>
+                         <div className="space-y-2">
+                             <div className="text-xs text-slate-400">Resize</div>
+                             <div className="flex items-center gap-1">
+                                 <input
+                                    type="number" min="1"
+                                    value={resizeDraft?.width ?? Math.round(displaySize.width)}
+                                    onChange={(e) => updateResizeDraft('width', Number(e.target.value))}
+                                    className="w-full min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                                    title="Width"
+                                 />
+                                 <button
+                                    onClick={() => setLockResizeRatio(!lockResizeRatio)}
+                                    className={`px-1.5 py-1 rounded text-xs ${lockResizeRatio ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                                    title="Keep aspect ratio"
+                                 >
+                                    ×
+                                 </button>
+                                 <input
+                                    type="number" min="1"
+                                    value={resizeDraft?.height ?? Math.round(displaySize.height)}
+                                    onChange={(e) => updateResizeDraft('height', Number(e.target.value))}
+                                    className="w-full min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                                    title="Height"
+                                 />
+                             </div>
+                             {resizeDraft && (
+                                 <button
+                                    onClick={() => applyImageTransform(resizeTransform(imageTransform, resizeDraft.width, resizeDraft.height))}
+                                    className="w-full py-1 rounded text-xs bg-blue-600 text-white hover:bg-blue-500"
+                                 >
+                                    Apply {resizeDraft.width} × {resizeDraft.height}
+                                 </button>
+                             )}
+                             <div className="grid grid-cols-5 gap-1">
+                                 {[25, 50, 75, 150, 200].map(percent => (
+                                     <button
+                                        key={percent}
+                                        onClick={() => applyImageTransform(resizeTransform(imageTransform, displaySize.width * percent / 100, displaySize.height * percent / 100))}
+                                        className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                                     >
+                                        {percent}%
+                                     </button>
+                                 ))}
+                             </div>
+                             {imageTransform.width !== null && (
+                                 <button
+                                    onClick={() => applyImageTransform({ ...imageTransform, width: null, height: null })}
+                                    className="w-full py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                                 >
+                                    Original size
+                                 </button>
+                             )}
+                         </div>
+                     </>
+                 )}
+             </div>
+
+             {/* Image layers and canvas size */}
+             <div className="space-y-3 pb-4 border-b border-slate-800">
+                 <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Layers &amp; Canvas</h3>
+                 <input
+                    ref={layerFileInputRef}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) addImageLayer(file);
+                        e.target.value = '';
+                    }}
+                 />
+                 <button
+                    onClick={() => layerFileInputRef.current?.click()}
+                    className="w-full py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                 >
+                    Add image…
+                 </button>
+                 {imageLayerCount > 0 && (
+                     <div className="space-y-2">
+                         <div className="text-xs text-slate-400">Layout</div>
+                         <div className="grid grid-cols-3 gap-1">
+                             {([['horizontal', 'Pair'], ['vertical', 'Stack'], ['grid', '2 × 2']] as [LayoutMode, string][]).map(([mode, label]) => (
+                                 <button
+                                    key={mode}
+                                    onClick={() => applyLayout(mode)}
+                                    className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                                 >
+                                    {label}
+                                 </button>
+                             ))}
+                         </div>
+                     </div>
+                 )}
+                 <div className="space-y-2">
+                     <div className="text-xs text-slate-400">Expand canvas</div>
+                     <div className="grid grid-cols-4 gap-1">
+                         {(['top', 'right', 'bottom', 'left'] as (keyof CanvasExpansion)[]).map(side => (
+                             <input
+                                key={side}
+                                type="number" min="0"
+                                value={canvasExpansion[side]}
+                                onChange={(e) => updateExpansion(side, Number(e.target.value))}
+                                className="w-full min-w-0 bg-slate-800 border border-slate-700 rounded px-1 py-1 text-xs text-slate-200"
+                                title={side[0].toUpperCase() + side.slice(1)}
+                             />
+                         ))}
+                     </div>
+                     <div className="grid grid-cols-3 gap-1">
+                         <button
+                            onClick={() => updateExpansion('bottom', canvasExpansion.bottom + 120)}
+                            className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                            title="Add space below the image for a caption"
+                         >
+                            Caption
+                         </button>
+                         <button
+                            onClick={() => setCanvasExpansion(fitExpansionToContent(annotations, displaySize.width, displaySize.height))}
+                            className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700"
+                            title="Fit the canvas to the image and all layers"
+                         >
+                            Fit
+                         </button>
+                         <button
+                            onClick={() => setCanvasExpansion(NO_EXPANSION)}
+                            disabled={isNoExpansion(canvasExpansion)}
+                            className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:text-slate-600 disabled:hover:bg-slate-800"
+                         >
+                            Reset
+                         </button>
+                     </div>
+                 </div>
+             </div>
+
+             {/* Output size (fixed canvas for social media) */}
+             <div className="space-y-3 pb-4 border-b border-slate-800">
+                 <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                     Output Size <span className="normal-case font-normal">({Math.round(canvasLayout.width)} × {Math.round(canvasLayout.height)})</span>
+                 </h3>
+                 <div className="grid grid-cols-2 gap-1">
+                     <button
+                        onClick={() => setBgConfig(prev => ({ ...prev, outputSize: undefined }))}
+                        className={`py-1 rounded text-xs ${!bgConfig.outputSize ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                        title="Canvas grows with the image"
+                     >
+                        Auto
+                     </button>
+                     {OUTPUT_PRESETS.map(preset => (
+                         <button
+                            key={preset.label}
+                            onClick={() => setBgConfig(prev => ({ ...prev, outputSize: { width: preset.width, height: preset.height } }))}
+                            className={`py-1 rounded text-xs ${bgConfig.outputSize?.width === preset.width && bgConfig.outputSize?.height === preset.height ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                            title={`${preset.width} × ${preset.height}`}
+                         >
+                            {preset.label}
+                         </button>
+                     ))}
+                 </div>
+                 {bgConfig.outputSize && (
+                     <div className="flex items-center gap-1">
+                         {(['width', 'height'] as const).map(axis => (
+                             <input
+                                key={axis}
+                                type="number" min="16"
+                                value={bgConfig.outputSize![axis]}
+                                onChange={(e) => {
+                                    const value = Math.round(Number(e.target.value));
+                                    if (value >= 16) setBgConfig(prev => prev.outputSize ? ({ ...prev, outputSize: { ...prev.outputSize, [axis]: value } }) : prev);
+                                }}
+                                className="w-full min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                                title={axis === 'width' ? 'Width' : 'Height'}
+                             />
+                         ))}
+                     </div>
+                 )}
+                 {bgConfig.outputSize && (
+                     <div className="text-xs text-slate-500">Image scaled to {Math.round(canvasLayout.scale * 100)}% and centered inside the padding</div>
+                 )}
+             </div>
+
              {/* Background Config */}
              <div className="space-y-3">
                  <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Background</h3>
@@ -1109,12 +2111,85 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
                             key={i}
                             className={`h-10 rounded-md border-2 overflow-hidden relative ${bgConfig.value === bg.value ? 'border-blue-500' : 'border-slate-700'}`}
                             style={{ background: bg.value }}
-                            onClick={() => setBgConfig(prev => ({ ...prev, value: bg.value, type: bg.value === 'transparent' ? 'transparent' : 'gradient' }))}
+                            onClick={() => setBgConfig(prev => ({ ...prev, value: bg.value, type: bg.value === 'transparent' ? 'transparent' : isGradientValue(bg.value) ? 'gradient' : 'color' }))}
                          >
                             {bg.name === 'Transparent' && <div className="absolute inset-0 bg-[url('https://upload.wikimedia.org/wikipedia/commons/1/18/Transparent_Square_Tiles_Texture.png')] bg-contain opacity-20" />}
                          </button>
                      ))}
                  </div>
+                 <div className="grid grid-cols-2 gap-1">
+                     <label className="py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700 flex items-center justify-center cursor-pointer">
+                         <input
+                            type="color"
+                            value={bgConfig.type === 'color' && /^#[0-9a-f]{6}$/i.test(bgConfig.value) ? bgConfig.value : '#ffffff'}
+                            onChange={(e) => setBgConfig(prev => ({ ...prev, type: 'color', value: e.target.value }))}
+                            className="w-4 h-4 mr-1 rounded cursor-pointer bg-transparent"
+                         />
+                         Color
+                     </label>
+                     <button
+                        onClick={() => wallpaperFileInputRef.current?.click()}
+                        className={`py-1 rounded text-xs ${bgConfig.type === 'image' ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+                     >
+                        Wallpaper…
+                     </button>
+                     <input
+                        ref={wallpaperFileInputRef}
+                        type="file"
+                        accept="image/*"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) loadWallpaperFile(file);
+                            e.target.value = '';
+                        }}
+                     />
+                 </div>
+                 {bgConfig.type === 'gradient' && (
+                     <GradientEditor value={bgConfig.value} onChange={(value) => setBgConfig(prev => ({ ...prev, type: 'gradient', value }))} />
+                 )}
+                 {wallpaperHistory.some(item => item.captureType !== 'recording') && (
+                     <div className="space-y-1">
+                         <div className="text-xs text-slate-400">Wallpaper from history</div>
+                         <div className="grid grid-cols-4 gap-1">
+                             {wallpaperHistory.filter(item => item.captureType !== 'recording').slice(0, 8).map(item => (
+                                 <button
+                                    key={item.id}
+                                    onClick={() => loadWallpaperFromHistory(item)}
+                                    className="h-8 rounded border border-slate-700 hover:border-blue-500 overflow-hidden"
+                                    title={item.filename || new Date(item.timestamp).toLocaleString()}
+                                 >
+                                    <img src={item.thumbnail} alt="" className="w-full h-full object-cover" />
+                                 </button>
+                             ))}
+                         </div>
+                     </div>
+                 )}
+                 {bgConfig.type === 'image' && (
+                     <div className="space-y-2">
+                         <div className="grid grid-cols-3 gap-1">
+                             {WALLPAPER_FITS.map(fit => (
+                                 <button
+                                    key={fit}
+                                    onClick={() => setBgConfig(prev => ({ ...prev, imageFit: fit }))}
+                                    className={`py-1 rounded text-xs capitalize ${(bgConfig.imageFit ?? 'cover') === fit ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                                 >
+                                    {fit}
+                                 </button>
+                             ))}
+                         </div>
+                         <div className="flex justify-between text-xs text-slate-400">
+                             <span>Blur</span>
+                             <span>{bgConfig.imageBlur ?? 0}px</span>
+                         </div>
+                         <input
+                            type="range" min="0" max="60" step="2"
+                            value={bgConfig.imageBlur ?? 0}
+                            onChange={(e) => setBgConfig(prev => ({ ...prev, imageBlur: Number(e.target.value) }))}
+                            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                         />
+                     </div>
+                 )}
                  <div className="space-y-2 pt-2">
                      <div className="flex justify-between text-xs text-slate-400">
                          <span>Padding</span>
@@ -1136,6 +2211,179 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
                          <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${bgConfig.shadow ? 'left-6' : 'left-1'}`} />
                      </button>
                  </div>
+                 {bgConfig.shadow && (
+                     <div className="space-y-2">
+                         {([
+                             ['shadowBlur', 'Blur', 0, 100, DEFAULT_SHADOW.blur],
+                             ['shadowOffsetX', 'Offset X', -50, 50, DEFAULT_SHADOW.offsetX],
+                             ['shadowOffsetY', 'Offset Y', -50, 50, DEFAULT_SHADOW.offsetY],
+                         ] as const).map(([key, label, min, max, fallback]) => (
+                             <div key={key} className="space-y-1">
+                                 <div className="flex justify-between text-xs text-slate-400">
+                                     <span>{label}</span>
+                                     <span>{bgConfig[key] ?? fallback}px</span>
+                                 </div>
+                                 <input
+                                    type="range" min={min} max={max}
+                                    value={bgConfig[key] ?? fallback}
+                                    onChange={(e) => setBgConfig(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                                    className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                 />
+                             </div>
+                         ))}
+                         <div className="flex items-center gap-2 text-xs text-slate-400">
+                             <span>Color</span>
+                             <input
+                                type="color"
+                                value={(bgConfig.shadowColor ?? DEFAULT_SHADOW.color).slice(0, 7)}
+                                onChange={(e) => setBgConfig(prev => ({ ...prev, shadowColor: e.target.value + (prev.shadowColor ?? DEFAULT_SHADOW.color).slice(7, 9) }))}
+                                className="w-6 h-6 rounded cursor-pointer bg-transparent"
+                             />
+                             <input
+                                type="range" min="0" max="255"
+                                value={parseInt((bgConfig.shadowColor ?? DEFAULT_SHADOW.color).slice(7, 9) || 'ff', 16)}
+                                onChange={(e) => setBgConfig(prev => ({ ...prev, shadowColor: (prev.shadowColor ?? DEFAULT_SHADOW.color).slice(0, 7) + Number(e.target.value).toString(16).padStart(2, '0') }))}
+                                className="flex-1 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                title="Opacity"
+                             />
+                         </div>
+                     </div>
+                 )}
+                 {(!hasFrame(bgConfig) || isWindowFrame(bgConfig.frame)) && (
+                     <div className="space-y-1">
+                         <div className="flex justify-between text-xs text-slate-400">
+                             <span>Corner radius</span>
+                             <span>{getCornerRadius(bgConfig)}px</span>
+                         </div>
+                         <input
+                            type="range" min="0" max="48"
+                            value={getCornerRadius(bgConfig)}
+                            onChange={(e) => setBgConfig(prev => ({ ...prev, cornerRadius: Number(e.target.value) }))}
+                            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                         />
+                     </div>
+                 )}
+                 <div className="space-y-2">
+                     <div className="text-xs text-slate-400">Frame</div>
+                     <div className="grid grid-cols-3 gap-1">
+                         {FRAME_STYLES.map(({ style, label }) => (
+                             <button
+                                key={style}
+                                onClick={() => setBgConfig(prev => ({ ...prev, frame: style }))}
+                                className={`py-1 rounded text-xs ${(bgConfig.frame ?? 'none') === style ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                             >
+                                {label}
+                             </button>
+                         ))}
+                     </div>
+                     {isWindowFrame(bgConfig.frame) && (
+                         <div className="grid grid-cols-2 gap-1">
+                             {(['light', 'dark'] as const).map(theme => (
+                                 <button
+                                    key={theme}
+                                    onClick={() => setBgConfig(prev => ({ ...prev, frameTheme: theme }))}
+                                    className={`py-1 rounded text-xs capitalize ${(bgConfig.frameTheme ?? 'light') === theme ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                                 >
+                                    {theme}
+                                 </button>
+                             ))}
+                         </div>
+                     )}
+                     {bgConfig.frame === 'browser' && (
+                         <input
+                            type="text"
+                            value={bgConfig.frameUrl ?? DEFAULT_FRAME_URL}
+                            onChange={(e) => setBgConfig(prev => ({ ...prev, frameUrl: e.target.value }))}
+                            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                            placeholder="URL"
+                         />
+                     )}
+                 </div>
+             </div>
+
+             {/* Export */}
+             <div className="space-y-3 pt-4 border-t border-slate-800">
+                 <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Export</h3>
+                 {encodeOptions && (
+                     <>
+                         <div className="grid grid-cols-4 gap-1">
+                             {(['png', 'jpeg', 'webp', 'avif'] as ImageFormat[]).map(format => (
+                                 <button
+                                    key={format}
+                                    onClick={() => setEncodeOptions(prev => prev && ({ ...prev, format }))}
+                                    className={`py-1 rounded text-xs uppercase ${encodeOptions.format === format ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                                 >
+                                    {format === 'jpeg' ? 'jpg' : format}
+                                 </button>
+                             ))}
+                         </div>
+                         {encodeOptions.format === 'webp' && (
+                             <label className="flex items-center justify-between text-sm text-slate-300">
+                                 <span>Lossless</span>
+                                 <input
+                                    type="checkbox"
+                                    checked={encodeOptions.lossless}
+                                    onChange={(e) => setEncodeOptions(prev => prev && ({ ...prev, lossless: e.target.checked }))}
+                                    className="accent-blue-500"
+                                 />
+                             </label>
+                         )}
+                         {(encodeOptions.format === 'jpeg' || encodeOptions.format === 'avif' || (encodeOptions.format === 'webp' && !encodeOptions.lossless)) && (
+                             <div className="space-y-2">
+                                 <div className="flex justify-between text-xs text-slate-400">
+                                     <span>Quality</span>
+                                     <span>{encodeOptions.quality}</span>
+                                 </div>
+                                 <input
+                                    type="range" min="10" max="100" step="1"
+                                    value={encodeOptions.quality}
+                                    onChange={(e) => setEncodeOptions(prev => prev && ({ ...prev, quality: Number(e.target.value) }))}
+                                    className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                 />
+                             </div>
+                         )}
+                         {encodeOptions.format === 'png' && (
+                             <>
+                                 <label className="flex items-center justify-between text-sm text-slate-300">
+                                     <span>Optimize</span>
+                                     <input
+                                        type="checkbox"
+                                        checked={encodeOptions.optimizePng}
+                                        onChange={(e) => setEncodeOptions(prev => prev && ({ ...prev, optimizePng: e.target.checked }))}
+                                        className="accent-blue-500"
+                                     />
+                                 </label>
+                                 <label className="flex items-center justify-between text-sm text-slate-300">
+                                     <span>Reduce to 256 colors</span>
+                                     <input
+                                        type="checkbox"
+                                        checked={encodeOptions.quantizePng}
+                                        onChange={(e) => setEncodeOptions(prev => prev && ({ ...prev, quantizePng: e.target.checked }))}
+                                        className="accent-blue-500"
+                                     />
+                                 </label>
+                             </>
+                         )}
+                     </>
+                 )}
+                 <label className="flex items-center justify-between text-sm text-slate-300" title="Render at twice the canvas size for high-density displays">
+                     <span>2× resolution{exportScale === 2 && <span className="text-xs text-slate-500"> ({canvasLayout.width * 2} × {canvasLayout.height * 2})</span>}</span>
+                     <input
+                        type="checkbox"
+                        checked={exportScale === 2}
+                        onChange={(e) => setExportScale(e.target.checked ? 2 : 1)}
+                        className="accent-blue-500"
+                     />
+                 </label>
+                 <label className="flex items-center justify-between text-sm text-slate-300" title="Blurred, pixelated and redacted regions are regenerated so no original pixels remain">
+                     <span>Secure redaction</span>
+                     <input
+                        type="checkbox"
+                        checked={secureExport}
+                        onChange={(e) => toggleSecureExport(e.target.checked)}
+                        className="accent-blue-500"
+                     />
+                 </label>
              </div>
 
              {/* AI Tools */}
@@ -1179,7 +2427,7 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
                             isUndoRedoRef.current = true;
                             const prevState = history[historyIndex - 1];
                             setHistoryIndex(historyIndex - 1);
-                            setAnnotations(JSON.parse(JSON.stringify(prevState)));
+                            restoreSnapshot(prevState);
                           }
                         }}
                         disabled={historyIndex <= 0}
@@ -1198,7 +2446,7 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
                             isUndoRedoRef.current = true;
                             const nextState = history[historyIndex + 1];
                             setHistoryIndex(historyIndex + 1);
-                            setAnnotations(JSON.parse(JSON.stringify(nextState)));
+                            restoreSnapshot(nextState);
                           }
                         }}
                         disabled={historyIndex >= history.length - 1}
@@ -1235,8 +2483,10 @@ const Editor: React.FC<EditorProps> = ({ imageSrc, onClose, onSave, onCopy }) =>
                 onTouchStart={handlePointerDown}
                 onTouchMove={handlePointerMove}
                 onTouchEnd={handlePointerUp}
+                onDoubleClick={finishPolyline}
                 className="shadow-2xl max-w-none"
                 style={{ 
+                    cursor: cropMode ? 'crosshair' : hoverCursor,
                     maxWidth: '100%', 
                     maxHeight: '100%', 
                     objectFit: 'contain'
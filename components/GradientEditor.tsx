@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { GradientKind, ParsedGradient, gradientToCss, parseGradient } from '../utils/backgroundRender';
+
+interface GradientEditorProps {
+  value: string; // CSS gradient; anything unparsable starts from a plain two-stop gradient
+  onChange: (css: string) => void;
+}
+
+const DEFAULT_GRADIENT: ParsedGradient = {
+  kind: 'linear',
+  angle: 135,
+  shape: 'ellipse',
+  position: { x: 0.5, y: 0.5 },
+  stops: [
+    { color: '#e0e7ff', offset: 0 },
+    { color: '#cffafe', offset: 1 },
+  ],
+};
+
+const KINDS: { kind: GradientKind; label: string }[] = [
+  { kind: 'linear', label: 'Linear' },
+  { kind: 'radial', label: 'Radial' },
+  { kind: 'conic', label: 'Conic' },
+];
+
+// <input type="color"> only takes #rrggbb
+const toHexColor = (color: string) => {
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color;
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(color);
+  return short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : '#000000';
+};
+
+const GradientEditor: React.FC<GradientEditorProps> = ({ value, onChange }) => {
+  const gradient = parseGradient(value) ?? DEFAULT_GRADIENT;
+  const [cssDraft, setCssDraft] = useState(value);
+  const [cssInvalid, setCssInvalid] = useState(false);
+
+  // Keep the text field in sync when the gradient is changed elsewhere (presets, controls)
+  useEffect(() => {
+    setCssDraft(value);
+    setCssInvalid(false);
+  }, [value]);
+
+  const update = (patch: Partial<ParsedGradient>) => onChange(gradientToCss({ ...gradient, ...patch }));
+
+  const updateStop = (index: number, patch: { color?: string; offset?: number }) => {
+    const { stops } = gradient;
+    if (patch.offset !== undefined) {
+      // Stops can't pass their neighbours, so the order (and the slider being dragged) stays put
+      patch.offset = Math.min(stops[index + 1]?.offset ?? 1, Math.max(stops[index - 1]?.offset ?? 0, patch.offset));
+    }
+    update({ stops: stops.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+  };
+
+  const addStop = () => {
+    // Halfway between the two stops with the widest gap
+    const { stops } = gradient;
+    let gap = 0;
+    for (let i = 1; i < stops.length - 1; i++) {
+      if (stops[i + 1].offset - stops[i].offset > stops[gap + 1].offset - stops[gap].offset) gap = i;
+    }
+    const offset = (stops[gap].offset + stops[gap + 1].offset) / 2;
+    update({ stops: [...stops.slice(0, gap + 1), { color: stops[gap].color, offset }, ...stops.slice(gap + 1)] });
+  };
+
+  const applyCssDraft = () => {
+    const parsed = parseGradient(cssDraft);
+    setCssInvalid(!parsed);
+    if (parsed) onChange(cssDraft.trim());
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="h-6 rounded border border-slate-700" style={{ background: gradientToCss(gradient) }} />
+      <div className="grid grid-cols-3 gap-1">
+        {KINDS.map(({ kind, label }) => (
+          <button
+            key={kind}
+            onClick={() => update({ kind })}
+            className={`py-1 rounded text-xs ${gradient.kind === kind ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {gradient.kind !== 'radial' ? (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-slate-400">
+            <span>{gradient.kind === 'conic' ? 'Start angle' : 'Angle'}</span>
+            <span>{Math.round(gradient.angle)}°</span>
+          </div>
+          <input
+            type="range" min="0" max="360" step="5"
+            value={gradient.angle}
+            onChange={(e) => update({ angle: Number(e.target.value) })}
+            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-1">
+          {(['ellipse', 'circle'] as const).map(shape => (
+            <button
+              key={shape}
+              onClick={() => update({ shape })}
+              className={`py-1 rounded text-xs capitalize ${gradient.shape === shape ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+            >
+              {shape}
+            </button>
+          ))}
+        </div>
+      )}
+      {gradient.kind !== 'linear' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['x', 'y'] as const).map(axis => (
+            <label key={axis} className="space-y-1 text-xs text-slate-400">
+              <span>Center {axis.toUpperCase()}</span>
+              <input
+                type="range" min="0" max="100"
+                value={Math.round(gradient.position[axis] * 100)}
+                onChange={(e) => update({ position: { ...gradient.position, [axis]: Number(e.target.value) / 100 } })}
+                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {gradient.stops.map((stop, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={toHexColor(stop.color)}
+              onChange={(e) => updateStop(i, { color: e.target.value })}
+              className="w-6 h-6 shrink-0 rounded cursor-pointer bg-transparent"
+              title={stop.color}
+            />
+            <input
+              type="range" min="0" max="100"
+              value={Math.round(stop.offset * 100)}
+              onChange={(e) => updateStop(i, { offset: Number(e.target.value) / 100 })}
+              className="flex-1 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+            <span className="w-8 text-right text-xs text-slate-400">{Math.round(stop.offset * 100)}%</span>
+            <button
+              onClick={() => update({ stops: gradient.stops.filter((_, j) => j !== i) })}
+              disabled={gradient.stops.length <= 2}
+              className="text-xs text-slate-500 hover:text-white disabled:opacity-30"
+              title="Remove stop"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button onClick={addStop} className="w-full py-1 rounded text-xs bg-slate-800 text-slate-300 hover:bg-slate-700">
+          Add stop
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={cssDraft}
+        onChange={(e) => setCssDraft(e.target.value)}
+        onBlur={applyCssDraft}
+        onKeyDown={(e) => e.key === 'Enter' && applyCssDraft()}
+        spellCheck={false}
+        className={`w-full bg-slate-800 border rounded px-2 py-1 text-[10px] font-mono text-slate-300 ${cssInvalid ? 'border-red-500' : 'border-slate-700'}`}
+        title="CSS gradient (linear-gradient, radial-gradient or conic-gradient)"
+      />
+    </div>
+  );
+};
+
+export default GradientEditor;
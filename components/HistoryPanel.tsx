@@ -1,18 +1,93 @@
-import React from 'react';
-import { CaptureHistory } from '../types';
-import { IconX, IconTrash } from './Icons';
+import React, { useMemo, useState } from 'react';
+import { CaptureHistory, CaptureType, HistoryUpdate } from '../types';
+import { IconX, IconTrash, IconStar, IconTag, IconSearch, IconPlay, IconCheck } from './Icons';
 import { useLanguage } from './i18n/LanguageContext';
+import { EMPTY_HISTORY_FILTER, HistoryFilter, filterHistory } from '../utils/historySearch';
+import RecordingPlayer, { formatDuration, formatFileSize } from './RecordingPlayer';
+import { HistoryService } from '../services/historyService';
 
 interface HistoryPanelProps {
   history: CaptureHistory[];
   onClose: () => void;
   onSelect: (item: CaptureHistory) => void;
+  // Opens several captures in one editor, laid out side by side
+  onOpenMany?: (items: CaptureHistory[]) => void;
   onDelete: (id: string) => void;
+  onDeleteMany: (ids: string[]) => void;
+  // Called after an archive import added captures to the library
+  onImported: () => void;
+  onUpdate: (id: string, patch: HistoryUpdate) => void;
+  // Captures still waiting for background OCR
+  pendingOcr?: number;
 }
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onClose, onSelect, onDelete }) => {
+const CAPTURE_TYPES: CaptureType[] = ['fullscreen', 'area', 'window', 'scroll', 'recording'];
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onClose, onSelect, onOpenMany, onDelete, onDeleteMany, onImported, onUpdate, pendingOcr = 0 }) => {
   const { t } = useLanguage();
-  
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [playing, setPlaying] = useState<CaptureHistory | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState<string | null>(null);
+  const isElectron = typeof window !== 'undefined' && 'electronAPI' in window;
+
+  const visible = useMemo(() => filterHistory(history, filter), [history, filter]);
+
+  const updateFilter = (patch: Partial<HistoryFilter>) => setFilter((prev) => ({ ...prev, ...patch }));
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  const reportResult = (result: { success: boolean; count?: number; error?: string; canceled?: boolean }, doneKey: 'history.exported' | 'history.imported') => {
+    if (result.success) setStatus(t(doneKey).replace('%s', String(result.count ?? 0)));
+    else if (!result.canceled) setStatus(t('history.bulk_failed').replace('%s', result.error || ''));
+  };
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(t('history.confirm_delete').replace('%s', selected.size.toString()))) return;
+    onDeleteMany(Array.from(selected));
+    stopSelecting();
+  };
+
+  const handleBulkCopy = async () => {
+    const ids = visible.filter((item) => selected.has(item.id) && item.captureType !== 'recording').map((item) => item.id);
+    setStatus((await HistoryService.copyMany(ids)) ? t('history.copied') : t('history.bulk_failed').replace('%s', ''));
+  };
+
+  const selectedImages = visible.filter((item) => selected.has(item.id) && item.captureType !== 'recording');
+
+  const handleOpenTogether = () => {
+    onOpenMany?.(selectedImages);
+    stopSelecting();
+  };
+
+  const handleImport = async () => {
+    const result = await HistoryService.importArchive();
+    reportResult(result, 'history.imported');
+    if (result.success) onImported();
+  };
+
+  const addTag = (item: CaptureHistory) => {
+    const tag = tagInput.trim().replace(/^#/, '');
+    if (tag) onUpdate(item.id, { tags: [...(item.tags || []), tag] });
+    setTagInput('');
+    setTaggingId(null);
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -34,61 +109,273 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onClose, onSelect,
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-slate-700">
           <h2 className="text-2xl font-bold text-white">{t('history.title')}</h2>
-          <button
-            onClick={onClose}
-            className="text-slate-400 hover:text-white transition-colors"
-          >
-            <IconX className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-2">
+            {isElectron && (
+              <>
+                <button onClick={handleImport} className="px-3 py-1.5 text-xs text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg">
+                  {t('history.import_archive')}
+                </button>
+                <button
+                  onClick={async () => reportResult(await HistoryService.exportArchive(), 'history.exported')}
+                  disabled={history.length === 0}
+                  className="px-3 py-1.5 text-xs text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 rounded-lg"
+                >
+                  {t('history.export_all')}
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+              className={`px-3 py-1.5 text-xs rounded-lg border ${selecting ? 'bg-blue-600 border-blue-500 text-white' : 'text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 border-slate-700'}`}
+            >
+              {selecting ? t('history.done') : t('history.select')}
+            </button>
+            <button
+              onClick={onClose}
+              className="ml-2 text-slate-400 hover:text-white transition-colors"
+            >
+              <IconX className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
+        {/* Search & Filters */}
+        <div className="px-6 py-3 border-b border-slate-700 space-y-2">
+          <div className="relative">
+            <IconSearch className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={filter.query}
+              onChange={(e) => updateFilter({ query: e.target.value })}
+              placeholder={t('history.search_placeholder')}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg pl-9 pr-3 py-2 text-sm text-white placeholder-slate-500"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+            <select
+              value={filter.captureType}
+              onChange={(e) => updateFilter({ captureType: e.target.value as HistoryFilter['captureType'] })}
+              className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white"
+            >
+              <option value="all">{t('history.type_all')}</option>
+              {CAPTURE_TYPES.map((type) => (
+                <option key={type} value={type}>{t(`history.type_${type}`)}</option>
+              ))}
+            </select>
+            <span>{t('history.from')}</span>
+            <input
+              type="date"
+              value={filter.from}
+              onChange={(e) => updateFilter({ from: e.target.value })}
+              className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white"
+            />
+            <span>{t('history.to')}</span>
+            <input
+              type="date"
+              value={filter.to}
+              onChange={(e) => updateFilter({ to: e.target.value })}
+              className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white"
+            />
+            <button
+              onClick={() => updateFilter({ favoritesOnly: !filter.favoritesOnly })}
+              className={`flex items-center gap-1 px-2 py-1 rounded border transition-colors ${
+                filter.favoritesOnly ? 'border-yellow-500 text-yellow-400' : 'border-slate-700 hover:text-white'
+              }`}
+            >
+              <IconStar className="w-3.5 h-3.5" filled={filter.favoritesOnly} />
+              {t('history.favorites')}
+            </button>
+            {pendingOcr > 0 && (
+              <span className="ml-auto text-slate-500">{t('history.indexing').replace('%s', pendingOcr.toString())}</span>
+            )}
+          </div>
+          {status && (
+            <div className="flex items-center justify-between text-xs text-slate-300">
+              <span className="truncate">{status}</span>
+              <button onClick={() => setStatus(null)} className="text-slate-500 hover:text-white">
+                <IconX className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Bulk Actions */}
+        {selecting && (
+          <div className="px-6 py-2 border-b border-slate-700 bg-slate-800/50 flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-slate-300 mr-2">{t('history.selected').replace('%s', selected.size.toString())}</span>
+            <button
+              onClick={() => setSelected(selected.size === visible.length ? new Set() : new Set(visible.map((item) => item.id)))}
+              className="px-2.5 py-1 text-slate-300 hover:text-white"
+            >
+              {selected.size === visible.length ? t('history.select_none') : t('history.select_all')}
+            </button>
+            <div className="flex-1" />
+            {onOpenMany && (
+              <button onClick={handleOpenTogether} disabled={selectedImages.length < 2} className="px-2.5 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 rounded text-white">
+                {t('history.open_together')}
+              </button>
+            )}
+            <button onClick={handleBulkCopy} disabled={selected.size === 0} className="px-2.5 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 rounded text-white">
+              {t('history.copy')}
+            </button>
+            <button
+              onClick={async () => reportResult(await HistoryService.exportFiles(Array.from(selected)), 'history.exported')}
+              disabled={selected.size === 0}
+              className="px-2.5 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 rounded text-white"
+            >
+              {t('history.export_folder')}
+            </button>
+            {isElectron && (
+              <button
+                onClick={async () => reportResult(await HistoryService.exportArchive(Array.from(selected)), 'history.exported')}
+                disabled={selected.size === 0}
+                className="px-2.5 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-slate-700 rounded text-white"
+              >
+                {t('history.export_archive')}
+              </button>
+            )}
+            <button onClick={handleBulkDelete} disabled={selected.size === 0} className="px-2.5 py-1 bg-red-600/80 hover:bg-red-600 disabled:opacity-40 rounded text-white">
+              {t('history.delete')}
+            </button>
+          </div>
+        )}
+
         {/* History Grid */}
         <div className="flex-1 overflow-auto p-6">
-          {history.length === 0 ? (
+          {visible.length === 0 ? (
             <div className="text-center text-slate-400 py-12">
-              <p>{t('history.no_captures')}</p>
+              <p>{history.length === 0 ? t('history.no_captures') : t('history.no_matches')}</p>
             </div>
           ) : (
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-              {history.map((item) => (
-                <div
-                  key={item.id}
-                  className="group relative bg-slate-800 rounded-lg overflow-hidden border border-slate-700 hover:border-blue-500 transition-all cursor-pointer"
-                  onClick={() => onSelect(item)}
-                >
-                  <img
-                    src={item.imageData}
-                    alt={`Capture ${item.id}`}
-                    className="w-full h-32 object-cover"
-                  />
-                  <div className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-colors flex items-center justify-center">
-                    <div className="opacity-0 group-hover:opacity-100 transition-opacity text-white text-sm font-medium">
-                      {t('history.click_to_edit')}
+              {visible.map((item) => (
+                <div key={item.id} className="space-y-1.5">
+                  <div
+                    className={`group relative bg-slate-800 rounded-lg overflow-hidden border transition-all cursor-pointer ${
+                      selected.has(item.id) ? 'border-blue-500 ring-2 ring-blue-500/50' : 'border-slate-700 hover:border-blue-500'
+                    }`}
+                    onClick={() => {
+                      if (selecting) toggleSelected(item.id);
+                      else if (item.captureType === 'recording') setPlaying(item);
+                      else onSelect(item);
+                    }}
+                    title={item.source}
+                  >
+                    {item.thumbnail ? (
+                      <img
+                        src={item.thumbnail}
+                        alt={`Capture ${item.id}`}
+                        loading="lazy"
+                        className="w-full h-32 object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-32 bg-slate-700" />
+                    )}
+                    <div className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-colors flex items-center justify-center">
+                      {item.captureType === 'recording' ? (
+                        <IconPlay className="w-8 h-8 text-white/80 group-hover:text-white transition-colors" />
+                      ) : (
+                        <div className="opacity-0 group-hover:opacity-100 transition-opacity text-white text-sm font-medium">
+                          {t('history.click_to_edit')}
+                        </div>
+                      )}
+                    </div>
+                    {selecting && (
+                      <div className={`absolute top-2 left-2 z-10 w-5 h-5 rounded border-2 flex items-center justify-center ${
+                        selected.has(item.id) ? 'bg-blue-600 border-blue-500' : 'bg-black/40 border-white/70'
+                      }`}>
+                        {selected.has(item.id) && <IconCheck className="w-3.5 h-3.5 text-white" />}
+                      </div>
+                    )}
+                    {!!item.layers && !selecting && (
+                      <div className="absolute top-2 left-2 bg-blue-600/80 text-white text-[10px] px-1.5 py-0.5 rounded">
+                        {t('history.layers').replace('%s', item.layers.toString())}
+                      </div>
+                    )}
+                    <div className={`absolute top-2 right-2 flex gap-1 ${selecting ? 'hidden' : ''}`}>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onUpdate(item.id, { favorite: !item.favorite });
+                        }}
+                        title={t('history.favorite')}
+                        className={`bg-black/50 hover:bg-black/70 p-1.5 rounded transition-opacity ${
+                          item.favorite ? 'text-yellow-400' : 'text-white opacity-0 group-hover:opacity-100'
+                        }`}
+                      >
+                        <IconStar className="w-4 h-4" filled={item.favorite} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setTaggingId(item.id);
+                          setTagInput('');
+                        }}
+                        title={t('history.add_tag')}
+                        className="bg-black/50 hover:bg-black/70 text-white p-1.5 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <IconTag className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDelete(item.id);
+                        }}
+                        className="bg-red-600/80 hover:bg-red-600 text-white p-1.5 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <IconTrash className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-2">
+                      <div className="flex items-center justify-between text-white text-xs">
+                        <span>{formatDate(item.timestamp)}</span>
+                        {item.captureType === 'recording' ? (
+                          <span className="text-white/60 text-[10px]">{formatDuration(item.duration)} · {formatFileSize(item.size)}</span>
+                        ) : (
+                          item.width > 0 && <span className="text-white/60 text-[10px]">{item.width} × {item.height}</span>
+                        )}
+                      </div>
                     </div>
                   </div>
-                  <div className="absolute top-2 right-2">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDelete(item.id);
-                      }}
-                      className="bg-red-600/80 hover:bg-red-600 text-white p-1.5 rounded opacity-0 group-hover:opacity-100 transition-opacity"
-                    >
-                      <IconTrash className="w-4 h-4" />
-                    </button>
-                  </div>
-                  <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-2">
-                    <div className="text-white text-xs">{formatDate(item.timestamp)}</div>
-                  </div>
+
+                  {(taggingId === item.id || (item.tags && item.tags.length > 0)) && (
+                    <div className="flex flex-wrap items-center gap-1">
+                      {item.tags?.map((tag) => (
+                        <span key={tag} className="group/tag flex items-center gap-0.5 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] text-slate-300">
+                          #{tag}
+                          <button
+                            onClick={() => onUpdate(item.id, { tags: item.tags!.filter((existing) => existing !== tag) })}
+                            className="hidden group-hover/tag:inline text-slate-500 hover:text-red-400"
+                          >
+                            <IconX className="w-2.5 h-2.5" />
+                          </button>
+                        </span>
+                      ))}
+                      {taggingId === item.id && (
+                        <input
+                          autoFocus
+                          value={tagInput}
+                          onChange={(e) => setTagInput(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') addTag(item);
+                            if (e.key === 'Escape') setTaggingId(null);
+                          }}
+                          onBlur={() => addTag(item)}
+                          placeholder={t('history.tag_placeholder')}
+                          className="w-20 bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] text-white"
+                        />
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           )}
         </div>
       </div>
+
+      {playing && <RecordingPlayer item={playing} onClose={() => setPlaying(null)} />}
     </div>
   );
 };
 
 export default HistoryPanel;
-
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { IconX } from './Icons';
+import { useLanguage } from './i18n/LanguageContext';
+import { AppSettings, HistoryRetention } from '../types';
+
+interface HistorySettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after the settings changed (a new retention policy may have removed entries)
+  onChange?: (settings: AppSettings) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const HistorySettings: React.FC<HistorySettingsProps> = ({ isOpen, onClose, onChange }) => {
+  const { t } = useLanguage();
+  const [retention, setRetention] = useState<HistoryRetention | null>(null);
+  const [ocr, setOcr] = useState(false);
+  const [stats, setStats] = useState<{ count: number; size: number } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      window.electronAPI.getSettings().then((s) => {
+        setRetention(s.historyRetention);
+        setOcr(s.historyOcr);
+      });
+      window.electronAPI.historyStats().then(setStats);
+    }
+  }, [isOpen]);
+
+  const update = async (patch: Partial<HistoryRetention>) => {
+    if (!retention) return;
+    const next = { ...retention, ...patch };
+    setRetention(next);
+    const settings = await window.electronAPI.updateSettings({ historyRetention: next });
+    setStats(await window.electronAPI.historyStats());
+    onChange?.(settings);
+  };
+
+  const toggleOcr = async (enabled: boolean) => {
+    setOcr(enabled);
+    onChange?.(await window.electronAPI.updateSettings({ historyOcr: enabled }));
+  };
+
+  if (!isOpen || !retention) return null;
+
+  const fields: Array<{ key: keyof HistoryRetention; label: string }> = [
+    { key: 'maxCount', label: t('history_settings.max_count') },
+    { key: 'maxAgeDays', label: t('history_settings.max_age') },
+    { key: 'maxSizeMB', label: t('history_settings.max_size') },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-md flex items-center justify-center animate-in fade-in duration-150">
+      <div className="bg-slate-900 border border-white/10 rounded-2xl w-[380px] max-w-[90vw] shadow-2xl animate-in zoom-in-95 duration-150">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+          <h2 className="text-white font-semibold">{t('history_settings.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <IconX className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-3 text-sm">
+          {stats && (
+            <div className="text-xs text-slate-400">
+              {t('history_settings.usage').replace('%s', stats.count.toString()).replace('%s', formatSize(stats.size))}
+            </div>
+          )}
+
+          {fields.map(({ key, label }) => (
+            <label key={key} className="flex items-center justify-between text-slate-300">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={0}
+                defaultValue={retention[key]}
+                onBlur={(e) => {
+                  const value = Math.max(0, parseInt(e.target.value) || 0);
+                  if (value !== retention[key]) update({ [key]: value });
+                }}
+                className="w-24 bg-slate-800 border border-slate-700 rounded-lg px-2.5 py-1.5 text-xs text-white text-right"
+              />
+            </label>
+          ))}
+          <p className="text-[11px] text-slate-500">{t('history_settings.hint')}</p>
+
+          <label className="flex items-center justify-between text-slate-300 pt-2 border-t border-white/10">
+            <span>{t('history_settings.ocr')}</span>
+            <input
+              type="checkbox"
+              checked={ocr}
+              onChange={(e) => toggleOcr(e.target.checked)}
+              className="accent-blue-500"
+            />
+          </label>
+          <p className="text-[11px] text-slate-500 -mt-2">{t('history_settings.ocr_desc')}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistorySettings;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { IconX } from './Icons';
+import { useLanguage } from './i18n/LanguageContext';
+import { CaptureHistory } from '../types';
+import { HistoryService } from '../services/historyService';
+
+interface RecordingPlayerProps {
+  item: CaptureHistory;
+  onClose: () => void;
+}
+
+const EXPORT_FORMATS = ['mp4', 'gif', 'webm'] as const;
+
+export const formatDuration = (seconds?: number) => {
+  if (seconds === undefined) return '--:--';
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ item, onClose }) => {
+  const { t } = useLanguage();
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!exporting) return;
+    return window.electronAPI.onExportProgress((value) => setProgress(Math.round(value)));
+  }, [exporting]);
+
+  const handleExport = async (format: typeof EXPORT_FORMATS[number]) => {
+    setExporting(format);
+    setProgress(0);
+    setMessage(null);
+    const result = await HistoryService.exportRecording(item.id, format);
+    setExporting(null);
+    if (result.success) {
+      setMessage(t('recording_player.exported').replace('%s', result.path || ''));
+    } else if (!result.canceled) {
+      setMessage(t('recording_player.export_failed').replace('%s', result.error || ''));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-3xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-700">
+          <div className="min-w-0">
+            <div className="text-white text-sm font-medium truncate">{item.filename || t('history.type_recording')}</div>
+            <div className="text-[11px] text-slate-400">
+              {formatDuration(item.duration)} · {formatFileSize(item.size)}
+              {item.width > 0 && ` · ${item.width} × ${item.height}`}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <IconX className="w-5 h-5" />
+          </button>
+        </div>
+
+        <video src={item.videoUrl} poster={item.thumbnail || undefined} controls autoPlay className="w-full max-h-[60vh] bg-black" />
+
+        <div className="flex items-center gap-2 px-5 py-3 border-t border-slate-700 text-xs">
+          <span className="text-slate-400 mr-1">{t('recording_player.export_as')}</span>
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={!!exporting}
+              className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-md text-white uppercase"
+            >
+              {exporting === format ? `${progress}%` : format}
+            </button>
+          ))}
+          {message && <span className="ml-2 text-slate-400 truncate" title={message}>{message}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingPlayer;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from './i18n/LanguageContext';
+import { IconX } from './Icons';
+import { SavedRegion } from '../types';
+import { CaptureService } from '../services/captureService';
+
+interface SavedRegionsProps {
+  hasPreviousRegion: boolean;
+  onCapture: (regionId: string) => void;
+}
+
+const SavedRegions: React.FC<SavedRegionsProps> = ({ hasPreviousRegion, onCapture }) => {
+  const { t } = useLanguage();
+  const [regions, setRegions] = useState<SavedRegion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [shortcut, setShortcut] = useState('');
+
+  useEffect(() => {
+    CaptureService.getSavedRegions().then(setRegions);
+  }, []);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setRegions(await CaptureService.saveRegion(name.trim(), undefined, shortcut.trim()));
+    setName('');
+    setShortcut('');
+    setIsSaving(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    setRegions(await CaptureService.deleteSavedRegion(id));
+  };
+
+  return (
+    <div className="bg-slate-800/60 border border-slate-700/50 rounded-xl px-4 py-2.5 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-white">{t('regions.title')}</span>
+        {hasPreviousRegion && !isSaving && (
+          <button onClick={() => setIsSaving(true)} className="text-[11px] text-blue-400 hover:text-blue-300">
+            {t('regions.save_previous')}
+          </button>
+        )}
+      </div>
+
+      {isSaving && (
+        <div className="flex items-center gap-1.5">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder={t('regions.name_placeholder')}
+            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-[11px] text-white"
+          />
+          <input
+            value={shortcut}
+            onChange={(e) => setShortcut(e.target.value)}
+            placeholder={t('regions.shortcut_placeholder')}
+            className="w-28 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-[11px] text-white"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="px-2 py-1 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 rounded text-[11px] text-white"
+          >
+            {t('regions.save')}
+          </button>
+          <button onClick={() => setIsSaving(false)} className="text-slate-400 hover:text-white">
+            <IconX className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      {regions.length === 0 ? (
+        <div className="text-[11px] text-slate-500">{t('regions.empty')}</div>
+      ) : (
+        <div className="space-y-1">
+          {regions.map((region) => (
+            <div key={region.id} className="group flex items-center gap-2">
+              <button
+                onClick={() => onCapture(region.id)}
+                className="flex-1 min-w-0 flex items-center justify-between text-left text-[11px] text-slate-300 hover:text-white py-0.5"
+                title={region.shortcut}
+              >
+                <span className="truncate">{region.name}</span>
+                <span className="text-slate-500 shrink-0 ml-2">
+                  {Math.round(region.bounds.width)} × {Math.round(region.bounds.height)}
+                </span>
+              </button>
+              <button
+                onClick={() => handleDelete(region.id)}
+                title={t('regions.delete')}
+                className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 transition-opacity"
+              >
+                <IconX className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedRegions;
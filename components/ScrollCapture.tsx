@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from './i18n/LanguageContext';
+import { IconX, IconCheck } from './Icons';
+import { ScrollStitcher, StitchResult } from '../utils/scrollStitcher';
+
+interface ScrollCaptureProps {
+  onClose: () => void;
+  onComplete: (imageData: string) => void;
+}
+
+type Bounds = { x: number; y: number; width: number; height: number };
+
+// 每次截取区域的间隔（desktopCapturer 单次耗时约 100-300ms）
+const CAPTURE_INTERVAL_MS = 400;
+const PREVIEW_WIDTH = 220;
+
+const loadFrame = (dataUrl: string): Promise<ImageData | null> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => resolve(null);
+    img.src = dataUrl;
+  });
+
+const ScrollCapture: React.FC<ScrollCaptureProps> = ({ onClose, onComplete }) => {
+  const { t } = useLanguage();
+  const [region, setRegion] = useState<Bounds | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [status, setStatus] = useState<StitchResult | null>(null);
+  const [stats, setStats] = useState({ frames: 0, height: 0 });
+  const [previewHeight, setPreviewHeight] = useState(0);
+
+  const stitcherRef = useRef(new ScrollStitcher());
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const isCapturingRef = useRef(false);
+
+  // 打开区域选择器
+  useEffect(() => {
+    const cleanup = window.electronAPI.onAreaSelectionResult((bounds) => {
+      if (bounds) {
+        setRegion(bounds);
+      } else {
+        onClose();
+      }
+    });
+    window.electronAPI.createAreaSelector();
+    return cleanup;
+  }, []);
+
+  // 选区确定后显示虚线框并开始循环截图
+  useEffect(() => {
+    if (!region) return;
+
+    window.electronAPI.showRecordingOverlay(region);
+    isCapturingRef.current = true;
+    setIsCapturing(true);
+
+    const captureLoop = async () => {
+      while (isCapturingRef.current) {
+        const started = Date.now();
+        try {
+          const dataUrl = await window.electronAPI.captureSelection(region);
+          const frame = dataUrl ? await loadFrame(dataUrl) : null;
+          if (frame && isCapturingRef.current) {
+            const result = stitcherRef.current.addFrame(frame);
+            setStatus(result);
+            if (result === 'appended') {
+              const scale = PREVIEW_WIDTH / frame.width;
+              setStats({ frames: stitcherRef.current.frameCount, height: stitcherRef.current.height });
+              setPreviewHeight(Math.round(stitcherRef.current.height * scale));
+              if (previewCanvasRef.current) {
+                stitcherRef.current.updatePreview(previewCanvasRef.current, scale);
+              }
+            } else if (result === 'limit-reached') {
+              isCapturingRef.current = false;
+              setIsCapturing(false);
+            }
+          }
+        } catch (e) {
+          console.error('[ScrollCapture] Frame capture failed:', e);
+        }
+        const elapsed = Date.now() - started;
+        await new Promise((resolve) => setTimeout(resolve, Math.max(0, CAPTURE_INTERVAL_MS - elapsed)));
+      }
+    };
+    captureLoop();
+
+    return () => {
+      isCapturingRef.current = false;
+      window.electronAPI.hideRecordingOverlay();
+    };
+  }, [region]);
+
+  const handleFinish = () => {
+    isCapturingRef.current = false;
+    setIsCapturing(false);
+    if (stitcherRef.current.frameCount > 0) {
+      onComplete(stitcherRef.current.toDataURL());
+    } else {
+      onClose();
+    }
+  };
+
+  const handleCancel = () => {
+    isCapturingRef.current = false;
+    onClose();
+  };
+
+  const statusText = () => {
+    switch (status) {
+      case 'no-match': return t('scroll.status_no_match');
+      case 'unchanged': return t('scroll.status_waiting');
+      case 'limit-reached': return t('scroll.status_limit');
+      default: return isCapturing ? t('scroll.status_capturing') : '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-slate-700">
+          <h2 className="text-lg font-bold text-white">{t('scroll.title')}</h2>
+          <button onClick={handleCancel} className="text-slate-400 hover:text-white transition-colors">
+            <IconX className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 flex gap-4">
+          <div className="w-[220px] shrink-0 bg-slate-950 rounded-lg border border-slate-800 overflow-auto max-h-[60vh]">
+            {/* The preview canvas is preallocated for the maximum height; only the stitched part is shown */}
+            <div className="overflow-hidden" style={{ height: previewHeight }}>
+              <canvas ref={previewCanvasRef} className="block w-full" />
+            </div>
+          </div>
+          <div className="flex-1 space-y-3 text-sm">
+            {!region ? (
+              <p className="text-slate-400">{t('scroll.select_region')}</p>
+            ) : (
+              <>
+                <p className="text-slate-300">{t('scroll.instructions')}</p>
+                <p className="text-xs text-slate-500">{t('scroll.manual_hint')}</p>
+                <div className="text-xs text-slate-400 space-y-1">
+                  <div>{t('scroll.frames').replace('%s', stats.frames.toString())}</div>
+                  <div>{t('scroll.height').replace('%s', stats.height.toString())}</div>
+                </div>
+                <div className={`text-xs ${status === 'no-match' || status === 'limit-reached' ? 'text-yellow-400' : 'text-blue-400'}`}>
+                  {statusText()}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-slate-700">
+          <button
+            onClick={handleCancel}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm transition-colors"
+          >
+            {t('scroll.cancel')}
+          </button>
+          <button
+            onClick={handleFinish}
+            disabled={stats.frames === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-white/30 text-white rounded-lg text-sm flex items-center gap-2 transition-colors"
+          >
+            <IconCheck className="w-4 h-4" />
+            {t('scroll.finish')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScrollCapture;
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useLanguage } from './i18n/LanguageContext';
 import {
   IconDownload,
@@ -13,6 +13,8 @@ import {
   IconMonitor
 } from './Icons';
 import { useVideoRecorder, CameraConfig } from '../hooks/useVideoRecorder';
+import { SavedRegion } from '../types';
+import { CaptureService } from '../services/captureService';
 
 interface VideoRecorderProps {
   onClose: () => void;
@@ -164,6 +166,9 @@ const VideoRecorder: React.FC<VideoRecorderProps> = ({ onClose }) => {
 
   // 录制模式：全屏/窗口/区域（借鉴 Cap 的 Screen / Window / Region）
   const [recordMode, setRecordMode] = useState<'screen' | 'area' | 'window'>('screen');
+  // 区域模式：空字符串表示新建选区，否则为已保存区域的 id
+  const [savedRegions, setSavedRegions] = useState<SavedRegion[]>([]);
+  const [areaRegionId, setAreaRegionId] = useState('');
   
   // 预览准备状态：选择区域/窗口后，进入预览模式，允许调整摄像头后再开始录制
   const [isPreviewReady, setIsPreviewReady] = useState(false);
@@ -258,269 +263,278 @@ const VideoRecorder: React.FC<VideoRecorderProps> = ({ onClose }) => {
   }, [isPreviewReady, isRecording]);
   // 注意：previewVideoRef 已在上面定义，这里不再重复声明
 
-  // Listen for area selection result from Electron（用于区域录制）
-  useEffect(() => {
-    if (window.electronAPI && window.electronAPI.onAreaSelectionResult) {
-      const cleanup = window.electronAPI.onAreaSelectionResult(async (bounds) => {
-        console.log('[VideoRecorder] ========== AREA SELECTION RESULT DEBUG ==========');
-        console.log('[VideoRecorder] Received area selection result:', bounds);
-        if (bounds) {
-          console.log('[VideoRecorder] Entering preview mode for AREA recording');
-
-          // Start recording with the selected area (Region 模式)
-          // 等待选择器窗口完全关闭，避免录制到选择器 UI（虚线框、按钮等）
-          // 主进程已经等待窗口关闭事件 + 300ms，这里再等待500ms确保渲染完全清理
-          // 总共约800ms应该足够窗口完全从屏幕上消失
-          await new Promise(resolve => setTimeout(resolve, 100));
+  // 区域录制：bounds 来自区域选择器，或直接使用已保存的区域
+  const handleAreaSelected = useCallback(async (bounds: { x: number; y: number; width: number; height: number } | null) => {
+    console.log('[VideoRecorder] ========== AREA SELECTION RESULT DEBUG ==========');
+    console.log('[VideoRecorder] Received area selection result:', bounds);
+    if (bounds) {
+      console.log('[VideoRecorder] Entering preview mode for AREA recording');
+
+      // Start recording with the selected area (Region 模式)
+      // 等待选择器窗口完全关闭，避免录制到选择器 UI（虚线框、按钮等）
+      // 主进程已经等待窗口关闭事件 + 300ms，这里再等待500ms确保渲染完全清理
+      // 总共约800ms应该足够窗口完全从屏幕上消失
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      if (typeof window !== 'undefined' && 'electronAPI' in window) {
+        try {
+          // 1. 获取屏幕信息（包含 workArea，用于归一化）
+          const screens = await window.electronAPI.getScreens();
+          const primary = screens.find((s: any) => s.bounds?.x === 0 && s.bounds?.y === 0) || screens[0];
+
+          if (!primary || !primary.workArea) {
+            console.warn('[VideoRecorder] No primary screen or workArea, fallback to full screen recording');
+            const sources = await window.electronAPI.getDesktopSources();
+            const screenSource = sources.find((s: any) => s.id.startsWith('screen:0')) || sources[0];
+            if (screenSource) {
+              startRecording(screenSource.id);
+            }
+            return;
+          }
+
+          // 重要：选择器窗口使用的是 workAreaSize（不包含 Dock/任务栏），但屏幕录制获取的是整个屏幕
+          // 选择器窗口的坐标 bounds 是相对于 workArea 的，需要转换为相对于整个屏幕的坐标
+          const screenBounds = primary.bounds || primary.workArea;
+          const screenWidth = screenBounds.width || primary.workArea.width;
+          const screenHeight = screenBounds.height || primary.workArea.height;
+          const workAreaWidth = primary.workArea.width;
+          const workAreaHeight = primary.workArea.height;
+          
+          // bounds 是相对于选择器窗口的坐标（选择器窗口大小 = workAreaSize）
+          // 选择器窗口从 primaryDisplay.bounds.x/y 开始（通常是 0,0）
+          // 所以 bounds 就是相对于 workArea 的坐标
+          // 但屏幕录制获取的是整个屏幕，所以需要按比例转换
+          // 注意：workArea 和整个屏幕的宽度通常相同，但高度可能不同（Dock/任务栏）
+          const scaleX = screenWidth / workAreaWidth;
+          const scaleY = screenHeight / workAreaHeight;
+          
+          // ========== 坐标转换分析 ==========
+          // bounds 是从 AreaSelector 发送过来的坐标，已经排除了：
+          // - 边框（4px）
+          // - resize handles（1.5px）
+          // 所以 bounds 已经是选择框内容区域的坐标（相对于 workArea）
+          //
+          // 转换步骤：
+          // 1. 将 workArea 坐标转换为屏幕坐标（乘以 scaleX/scaleY）
+          // 2. 归一化为 0-1 范围（除以 screenWidth/screenHeight）
+          // 3. 裁剪时使用归一化坐标计算像素位置
           
-          if (typeof window !== 'undefined' && 'electronAPI' in window) {
+          const screenX = bounds.x * scaleX;
+          const screenY = bounds.y * scaleY;
+          const screenW = bounds.width * scaleX;
+          const screenH = bounds.height * scaleY;
+          
+          // 确保坐标不超出屏幕范围
+          // 注意：bounds 已经排除了边框和 resize handles，所以这里的坐标已经是内容区域的坐标
+          // 起点（左上角）：限制在屏幕范围内，但不要过度限制，避免影响精确的裁剪区域
+          const finalX = Math.max(0, Math.min(screenWidth - 1, Math.round(screenX)));
+          const finalY = Math.max(0, Math.min(screenHeight - 1, Math.round(screenY)));
+          
+          // 终点（右下角）：确保宽度和高度不超出屏幕边界
+          // 使用 Math.round 确保坐标转换的精度，然后限制在合理范围内
+          const roundedW = Math.round(screenW);
+          const roundedH = Math.round(screenH);
+          const finalW = Math.max(1, Math.min(screenWidth - finalX, roundedW));
+          const finalH = Math.max(1, Math.min(screenHeight - finalY, roundedH));
+          
+          console.log('[VideoRecorder] 坐标转换详情:', {
+            bounds,
+            scale: { scaleX, scaleY },
+            screen: { screenX, screenY, screenW, screenH },
+            rounded: { roundedW, roundedH },
+            final: { finalX, finalY, finalW, finalH }
+          });
+          
+          // 归一化到 0-1 范围
+          const normX = finalX / screenWidth;  // 起点 X（归一化）
+          const normY = finalY / screenHeight; // 起点 Y（归一化）
+          const normW = finalW / screenWidth;  // 宽度（归一化）
+          const normH = finalH / screenHeight; // 高度（归一化）
+
+          const normalizedRegion = { x: normX, y: normY, width: normW, height: normH };
+
+          // 显示录制区域虚线框（使用转换后的屏幕坐标）
+          if (window.electronAPI.showRecordingOverlay) {
             try {
-              // 1. 获取屏幕信息（包含 workArea，用于归一化）
-              const screens = await window.electronAPI.getScreens();
-              const primary = screens.find((s: any) => s.bounds?.x === 0 && s.bounds?.y === 0) || screens[0];
-
-              if (!primary || !primary.workArea) {
-                console.warn('[VideoRecorder] No primary screen or workArea, fallback to full screen recording');
-                const sources = await window.electronAPI.getDesktopSources();
-                const screenSource = sources.find((s: any) => s.id.startsWith('screen:0')) || sources[0];
-                if (screenSource) {
-                  startRecording(screenSource.id);
-                }
-                return;
-              }
+              const overlayBounds = {
+                x: finalX,
+                y: finalY,
+                width: finalW,
+                height: finalH
+              };
+              await window.electronAPI.showRecordingOverlay(overlayBounds);
+            } catch (e) {
+              console.error('[VideoRecorder] Failed to show recording overlay:', e);
+              console.error('[VideoRecorder] Error details:', e);
+            }
+          } else {
+            console.warn('[VideoRecorder] showRecordingOverlay API not available');
+          }
 
-              // 重要：选择器窗口使用的是 workAreaSize（不包含 Dock/任务栏），但屏幕录制获取的是整个屏幕
-              // 选择器窗口的坐标 bounds 是相对于 workArea 的，需要转换为相对于整个屏幕的坐标
-              const screenBounds = primary.bounds || primary.workArea;
-              const screenWidth = screenBounds.width || primary.workArea.width;
-              const screenHeight = screenBounds.height || primary.workArea.height;
-              const workAreaWidth = primary.workArea.width;
-              const workAreaHeight = primary.workArea.height;
-              
-              // bounds 是相对于选择器窗口的坐标（选择器窗口大小 = workAreaSize）
-              // 选择器窗口从 primaryDisplay.bounds.x/y 开始（通常是 0,0）
-              // 所以 bounds 就是相对于 workArea 的坐标
-              // 但屏幕录制获取的是整个屏幕，所以需要按比例转换
-              // 注意：workArea 和整个屏幕的宽度通常相同，但高度可能不同（Dock/任务栏）
-              const scaleX = screenWidth / workAreaWidth;
-              const scaleY = screenHeight / workAreaHeight;
-              
-              // ========== 坐标转换分析 ==========
-              // bounds 是从 AreaSelector 发送过来的坐标，已经排除了：
-              // - 边框（4px）
-              // - resize handles（1.5px）
-              // 所以 bounds 已经是选择框内容区域的坐标（相对于 workArea）
-              //
-              // 转换步骤：
-              // 1. 将 workArea 坐标转换为屏幕坐标（乘以 scaleX/scaleY）
-              // 2. 归一化为 0-1 范围（除以 screenWidth/screenHeight）
-              // 3. 裁剪时使用归一化坐标计算像素位置
-              
-              const screenX = bounds.x * scaleX;
-              const screenY = bounds.y * scaleY;
-              const screenW = bounds.width * scaleX;
-              const screenH = bounds.height * scaleY;
-              
-              // 确保坐标不超出屏幕范围
-              // 注意：bounds 已经排除了边框和 resize handles，所以这里的坐标已经是内容区域的坐标
-              // 起点（左上角）：限制在屏幕范围内，但不要过度限制，避免影响精确的裁剪区域
-              const finalX = Math.max(0, Math.min(screenWidth - 1, Math.round(screenX)));
-              const finalY = Math.max(0, Math.min(screenHeight - 1, Math.round(screenY)));
-              
-              // 终点（右下角）：确保宽度和高度不超出屏幕边界
-              // 使用 Math.round 确保坐标转换的精度，然后限制在合理范围内
-              const roundedW = Math.round(screenW);
-              const roundedH = Math.round(screenH);
-              const finalW = Math.max(1, Math.min(screenWidth - finalX, roundedW));
-              const finalH = Math.max(1, Math.min(screenHeight - finalY, roundedH));
-              
-              console.log('[VideoRecorder] 坐标转换详情:', {
-                bounds,
-                scale: { scaleX, scaleY },
-                screen: { screenX, screenY, screenW, screenH },
-                rounded: { roundedW, roundedH },
-                final: { finalX, finalY, finalW, finalH }
+          // 2. 选择主屏幕作为录制源（与区域选择器一致，借鉴 Cap 的 Region 录制）
+          const sources = await window.electronAPI.getDesktopSources();
+          console.log('[VideoRecorder] Got sources:', sources.length);
+          const screenSource = sources.find((s: any) => s.id.startsWith('screen:0')) || sources[0];
+          if (screenSource) {
+            console.log('[VideoRecorder] Setting preview state:', {
+              sourceId: screenSource.id,
+              region: normalizedRegion
+            });
+            // 进入预览模式，而不是直接开始录制
+            setPreviewSourceId(screenSource.id);
+            setPreviewRegion(normalizedRegion);
+            setIsPreviewReady(true);
+            console.log('[VideoRecorder] Preview state set, isPreviewReady should be true');
+            
+            // 启动预览流（如果有区域，使用 Canvas 裁剪）
+            try {
+              console.log('[VideoRecorder] Starting preview stream...');
+              const fullStream = await navigator.mediaDevices.getUserMedia({
+                video: {
+                  mandatory: {
+                    chromeMediaSource: 'desktop',
+                    chromeMediaSourceId: screenSource.id
+                  }
+                } as any,
+                audio: false
+              });
+              previewStreamRef.current = fullStream;
+              console.log('[VideoRecorder] Preview stream obtained:', {
+                active: fullStream.active,
+                videoTracks: fullStream.getVideoTracks().length
               });
               
-              // 归一化到 0-1 范围
-              const normX = finalX / screenWidth;  // 起点 X（归一化）
-              const normY = finalY / screenHeight; // 起点 Y（归一化）
-              const normW = finalW / screenWidth;  // 宽度（归一化）
-              const normH = finalH / screenHeight; // 高度（归一化）
-
-              const normalizedRegion = { x: normX, y: normY, width: normW, height: normH };
-
-              // 显示录制区域虚线框（使用转换后的屏幕坐标）
-              if (window.electronAPI.showRecordingOverlay) {
-                try {
-                  const overlayBounds = {
-                    x: finalX,
-                    y: finalY,
-                    width: finalW,
-                    height: finalH
-                  };
-                  await window.electronAPI.showRecordingOverlay(overlayBounds);
-                } catch (e) {
-                  console.error('[VideoRecorder] Failed to show recording overlay:', e);
-                  console.error('[VideoRecorder] Error details:', e);
-                }
-              } else {
-                console.warn('[VideoRecorder] showRecordingOverlay API not available');
-              }
-
-              // 2. 选择主屏幕作为录制源（与区域选择器一致，借鉴 Cap 的 Region 录制）
-              const sources = await window.electronAPI.getDesktopSources();
-              console.log('[VideoRecorder] Got sources:', sources.length);
-              const screenSource = sources.find((s: any) => s.id.startsWith('screen:0')) || sources[0];
-              if (screenSource) {
-                console.log('[VideoRecorder] Setting preview state:', {
-                  sourceId: screenSource.id,
-                  region: normalizedRegion
+              // 如果有区域，使用 Canvas 裁剪预览
+              if (normalizedRegion && previewCanvasRef.current) {
+                console.log('[VideoRecorder] Setting up canvas crop preview...');
+                const canvas = previewCanvasRef.current;
+                const ctx = canvas.getContext('2d', { 
+                  alpha: false,
+                  desynchronized: true 
                 });
-                // 进入预览模式，而不是直接开始录制
-                setPreviewSourceId(screenSource.id);
-                setPreviewRegion(normalizedRegion);
-                setIsPreviewReady(true);
-                console.log('[VideoRecorder] Preview state set, isPreviewReady should be true');
-                
-                // 启动预览流（如果有区域，使用 Canvas 裁剪）
-                try {
-                  console.log('[VideoRecorder] Starting preview stream...');
-                  const fullStream = await navigator.mediaDevices.getUserMedia({
-                    video: {
-                      mandatory: {
-                        chromeMediaSource: 'desktop',
-                        chromeMediaSourceId: screenSource.id
-                      }
-                    } as any,
-                    audio: false
-                  });
-                  previewStreamRef.current = fullStream;
-                  console.log('[VideoRecorder] Preview stream obtained:', {
-                    active: fullStream.active,
-                    videoTracks: fullStream.getVideoTracks().length
+                if (ctx) {
+                  // 创建临时 video 元素来播放完整流
+                  const tempVideo = document.createElement('video');
+                  tempVideo.srcObject = fullStream;
+                  tempVideo.autoplay = true;
+                  tempVideo.muted = true;
+                  tempVideo.playsInline = true;
+                  
+                  // 等待视频元数据加载
+                  await new Promise<void>((resolve) => {
+                    if (tempVideo.readyState >= 2) {
+                      resolve();
+                    } else {
+                      tempVideo.addEventListener('loadedmetadata', () => resolve(), { once: true });
+                    }
                   });
                   
-                  // 如果有区域，使用 Canvas 裁剪预览
-                  if (normalizedRegion && previewCanvasRef.current) {
-                    console.log('[VideoRecorder] Setting up canvas crop preview...');
-                    const canvas = previewCanvasRef.current;
-                    const ctx = canvas.getContext('2d', { 
-                      alpha: false,
-                      desynchronized: true 
-                    });
-                    if (ctx) {
-                      // 创建临时 video 元素来播放完整流
-                      const tempVideo = document.createElement('video');
-                      tempVideo.srcObject = fullStream;
-                      tempVideo.autoplay = true;
-                      tempVideo.muted = true;
-                      tempVideo.playsInline = true;
-                      
-                      // 等待视频元数据加载
-                      await new Promise<void>((resolve) => {
-                        if (tempVideo.readyState >= 2) {
-                          resolve();
-                        } else {
-                          tempVideo.addEventListener('loadedmetadata', () => resolve(), { once: true });
-                        }
-                      });
-                      
-                      await tempVideo.play();
-                      
-                      const videoWidth = tempVideo.videoWidth;
-                      const videoHeight = tempVideo.videoHeight;
-                      
-                      // ========== 预览 Canvas 裁剪计算 ==========
-                      // 将归一化坐标转换为像素坐标
-                      // 起点（左上角）：使用 Math.floor 向下取整，确保不包含边界外的像素
-                      const cropX = Math.max(0, Math.min(videoWidth - 1, Math.floor(normalizedRegion.x * videoWidth)));
-                      const cropY = Math.max(0, Math.min(videoHeight - 1, Math.floor(normalizedRegion.y * videoHeight)));
-                      
-                      // 终点（右下角）：计算宽度和高度
-                      // 使用 Math.floor 确保不超出选择区域（避免包含边界外的像素）
-                      // 注意：这里使用 Math.floor 而不是 Math.ceil，确保裁剪区域完全在选择区域内
-                      const rawCropWidth = normalizedRegion.width * videoWidth;
-                      const rawCropHeight = normalizedRegion.height * videoHeight;
-                      const cropWidth = Math.max(1, Math.min(videoWidth - cropX, Math.floor(rawCropWidth)));
-                      const cropHeight = Math.max(1, Math.min(videoHeight - cropY, Math.floor(rawCropHeight)));
-                      
-                      // 设置 Canvas 尺寸为裁剪区域尺寸
-                      canvas.width = cropWidth;
-                      canvas.height = cropHeight;
-                      
-                      // 创建裁剪后的流
-                      const canvasStream = canvas.captureStream(30);
-                      previewCanvasStreamRef.current = canvasStream;
-                      
-                      // 绘制循环
-                      let animationFrameId: number;
-                      const drawFrame = () => {
-                        if (tempVideo.readyState >= 2 && tempVideo.videoWidth > 0 && tempVideo.videoHeight > 0) {
-                          ctx.drawImage(
-                            tempVideo,
-                            cropX, cropY, cropWidth, cropHeight,  // 源区域
-                            0, 0, cropWidth, cropHeight            // 目标区域
-                          );
-                        }
-                        animationFrameId = requestAnimationFrame(drawFrame);
-                      };
-                      drawFrame();
-                      
-                      // 保存清理函数
-                      (canvas as any)._cleanup = () => {
-                        if (animationFrameId) {
-                          cancelAnimationFrame(animationFrameId);
-                        }
-                        tempVideo.srcObject = null;
-                        tempVideo.remove();
-                      };
-                      
-                      // 绑定裁剪后的流到预览视频
-                      if (previewVideoRef.current) {
-                        console.log('[VideoRecorder] Binding canvas stream to preview video');
-                        previewVideoRef.current.srcObject = canvasStream;
-                        previewVideoRef.current.play()
-                          .then(() => console.log('[VideoRecorder] Canvas preview video started playing'))
-                          .catch((err) => console.error('[VideoRecorder] Failed to play canvas preview:', err));
-                      } else {
-                        console.warn('[VideoRecorder] previewVideoRef.current is null, cannot bind canvas stream');
-                      }
+                  await tempVideo.play();
+                  
+                  const videoWidth = tempVideo.videoWidth;
+                  const videoHeight = tempVideo.videoHeight;
+                  
+                  // ========== 预览 Canvas 裁剪计算 ==========
+                  // 将归一化坐标转换为像素坐标
+                  // 起点（左上角）：使用 Math.floor 向下取整，确保不包含边界外的像素
+                  const cropX = Math.max(0, Math.min(videoWidth - 1, Math.floor(normalizedRegion.x * videoWidth)));
+                  const cropY = Math.max(0, Math.min(videoHeight - 1, Math.floor(normalizedRegion.y * videoHeight)));
+                  
+                  // 终点（右下角）：计算宽度和高度
+                  // 使用 Math.floor 确保不超出选择区域（避免包含边界外的像素）
+                  // 注意：这里使用 Math.floor 而不是 Math.ceil，确保裁剪区域完全在选择区域内
+                  const rawCropWidth = normalizedRegion.width * videoWidth;
+                  const rawCropHeight = normalizedRegion.height * videoHeight;
+                  const cropWidth = Math.max(1, Math.min(videoWidth - cropX, Math.floor(rawCropWidth)));
+                  const cropHeight = Math.max(1, Math.min(videoHeight - cropY, Math.floor(rawCropHeight)));
+                  
+                  // 设置 Canvas 尺寸为裁剪区域尺寸
+                  canvas.width = cropWidth;
+                  canvas.height = cropHeight;
+                  
+                  // 创建裁剪后的流
+                  const canvasStream = canvas.captureStream(30);
+                  previewCanvasStreamRef.current = canvasStream;
+                  
+                  // 绘制循环
+                  let animationFrameId: number;
+                  const drawFrame = () => {
+                    if (tempVideo.readyState >= 2 && tempVideo.videoWidth > 0 && tempVideo.videoHeight > 0) {
+                      ctx.drawImage(
+                        tempVideo,
+                        cropX, cropY, cropWidth, cropHeight,  // 源区域
+                        0, 0, cropWidth, cropHeight            // 目标区域
+                      );
                     }
-                  } else {
-                    // 没有区域，直接使用完整流
-                    console.log('[VideoRecorder] No region, using full stream directly');
-                    if (previewVideoRef.current) {
-                      console.log('[VideoRecorder] Binding full stream to preview video');
-                      previewVideoRef.current.srcObject = fullStream;
-                      previewVideoRef.current.play()
-                        .then(() => console.log('[VideoRecorder] Full preview video started playing'))
-                        .catch((err) => console.error('[VideoRecorder] Failed to play full preview:', err));
-                    } else {
-                      console.warn('[VideoRecorder] previewVideoRef.current is null, cannot bind full stream');
+                    animationFrameId = requestAnimationFrame(drawFrame);
+                  };
+                  drawFrame();
+                  
+                  // 保存清理函数
+                  (canvas as any)._cleanup = () => {
+                    if (animationFrameId) {
+                      cancelAnimationFrame(animationFrameId);
                     }
+                    tempVideo.srcObject = null;
+                    tempVideo.remove();
+                  };
+                  
+                  // 绑定裁剪后的流到预览视频
+                  if (previewVideoRef.current) {
+                    console.log('[VideoRecorder] Binding canvas stream to preview video');
+                    previewVideoRef.current.srcObject = canvasStream;
+                    previewVideoRef.current.play()
+                      .then(() => console.log('[VideoRecorder] Canvas preview video started playing'))
+                      .catch((err) => console.error('[VideoRecorder] Failed to play canvas preview:', err));
+                  } else {
+                    console.warn('[VideoRecorder] previewVideoRef.current is null, cannot bind canvas stream');
                   }
-                } catch (e) {
-                  console.error('[VideoRecorder] Failed to start preview stream:', e);
                 }
               } else {
-                console.error('[VideoRecorder] No screen source found!');
+                // 没有区域，直接使用完整流
+                console.log('[VideoRecorder] No region, using full stream directly');
+                if (previewVideoRef.current) {
+                  console.log('[VideoRecorder] Binding full stream to preview video');
+                  previewVideoRef.current.srcObject = fullStream;
+                  previewVideoRef.current.play()
+                    .then(() => console.log('[VideoRecorder] Full preview video started playing'))
+                    .catch((err) => console.error('[VideoRecorder] Failed to play full preview:', err));
+                } else {
+                  console.warn('[VideoRecorder] previewVideoRef.current is null, cannot bind full stream');
+                }
               }
             } catch (e) {
-              console.error('[VideoRecorder] Failed to start area recording:', e);
+              console.error('[VideoRecorder] Failed to start preview stream:', e);
             }
-            console.log('[VideoRecorder] ========== END AREA SELECTION RESULT DEBUG ==========');
+          } else {
+            console.error('[VideoRecorder] No screen source found!');
           }
-        } else {
-          console.log('[VideoRecorder] Area selection cancelled');
+        } catch (e) {
+          console.error('[VideoRecorder] Failed to start area recording:', e);
         }
-      });
-      return cleanup;
+        console.log('[VideoRecorder] ========== END AREA SELECTION RESULT DEBUG ==========');
+      }
     } else {
-      console.warn('[VideoRecorder] electronAPI.onAreaSelectionResult not available');
+      console.log('[VideoRecorder] Area selection cancelled');
     }
   }, [startRecording, setIsPreviewReady, setPreviewSourceId, setPreviewRegion]);
 
+  // Listen for area selection result from Electron（用于区域录制）
+  useEffect(() => {
+    if (window.electronAPI && window.electronAPI.onAreaSelectionResult) {
+      return window.electronAPI.onAreaSelectionResult(handleAreaSelected);
+    } else {
+      console.warn('[VideoRecorder] electronAPI.onAreaSelectionResult not available');
+    }
+  }, [handleAreaSelected]);
+
+  // 加载已保存的区域，供区域录制直接使用
+  useEffect(() => {
+    if (recordMode === 'area') {
+      CaptureService.getSavedRegions().then(setSavedRegions);
+    }
+  }, [recordMode]);
+
   // Fetch Sources
   const fetchSources = async () => {
     console.log('[VideoRecorder] ========== FETCH SOURCES DEBUG ==========');
@@ -543,7 +557,16 @@ const VideoRecorder: React.FC<VideoRecorderProps> = ({ onClose }) => {
 
   const handleStartRequest = async () => {
     if (typeof window !== 'undefined' && 'electronAPI' in window) {
-      if (recordMode === 'area' && window.electronAPI.createAreaSelector) {
+      const savedRegion = recordMode === 'area' ? savedRegions.find((r) => r.id === areaRegionId) : undefined;
+      if (savedRegion) {
+        console.log('[VideoRecorder] handleStartRequest: AREA mode with saved region', savedRegion.name);
+        // 已保存的区域是全局屏幕坐标（见主进程 finishAreaCapture）；实时选择器窗口从主显示器 bounds.x/y 开始，
+        // 这里换算到同一原点，与选择器返回的坐标一致
+        const screens = await window.electronAPI.getScreens();
+        const primary = screens.find((s: any) => s.bounds?.x === 0 && s.bounds?.y === 0) || screens[0];
+        const origin = primary?.bounds || { x: 0, y: 0 };
+        handleAreaSelected({ ...savedRegion.bounds, x: savedRegion.bounds.x - origin.x, y: savedRegion.bounds.y - origin.y });
+      } else if (recordMode === 'area' && window.electronAPI.createAreaSelector) {
         console.log('[VideoRecorder] handleStartRequest: AREA mode, create selector WITHOUT minimizing main window');
         // 区域录制：不再最小化主窗口，只在其上方弹出全屏透明区域选择器
         console.log('[VideoRecorder] Calling electronAPI.createAreaSelector()');
@@ -2284,6 +2307,21 @@ const VideoRecorder: React.FC<VideoRecorderProps> = ({ onClose }) => {
                 </button>
               </div>
 
+              {/* 区域模式：新建选区或使用已保存的区域 */}
+              {recordMode === 'area' && savedRegions.length > 0 && (
+                <div className="mt-2 flex items-center justify-center gap-2 text-[11px] text-white/70 pointer-events-auto">
+                  <span>{t('recorder.record_region')}</span>
+                  <SimpleSelect
+                    value={areaRegionId}
+                    onChange={setAreaRegionId}
+                    options={[
+                      { label: t('recorder.new_selection'), value: '' },
+                      ...savedRegions.map((r) => ({ label: `${r.name} (${Math.round(r.bounds.width)}×${Math.round(r.bounds.height)})`, value: r.id })),
+                    ]}
+                  />
+                </div>
+              )}
+
               {/* Pre-record Export Settings（更轻量的 Chip 按钮，点击循环选项，固定宽度防止抖动） */}
               <div className="mt-4 flex items-center justify-center gap-3 text-[11px] text-white/80 pointer-events-auto">
                 <button
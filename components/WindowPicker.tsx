@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from './i18n/LanguageContext';
+import { IconX } from './Icons';
+
+interface WindowSource {
+  id: string;
+  name: string;
+  thumbnail: string;
+  appIcon?: string | null;
+}
+
+const WindowPicker: React.FC = () => {
+  const { t } = useLanguage();
+  const [sources, setSources] = useState<WindowSource[] | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getDesktopSources().then((all) => {
+      // 只保留有内容的窗口源（最小化窗口的缩略图为空）
+      setSources(all.filter((s) => !s.id.startsWith('screen:') && s.thumbnail !== 'data:image/png;base64,'));
+    });
+  }, []);
+
+  const handleCancel = () => {
+    window.electronAPI.windowSelected(null);
+  };
+
+  const handleSelect = (source: WindowSource) => {
+    window.electronAPI.windowSelected({ id: source.id, name: source.name });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        handleCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center select-none"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) handleCancel();
+      }}
+    >
+      <div className="bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl w-[900px] max-w-[90vw] max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+          <h2 className="text-white font-semibold">{t('picker.select_window')}</h2>
+          <button onClick={handleCancel} className="text-slate-400 hover:text-white transition-colors">
+            <IconX className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-5">
+          {sources === null ? (
+            <div className="text-center text-slate-400 py-12">{t('recorder.loading_sources')}</div>
+          ) : sources.length === 0 ? (
+            <div className="text-center text-slate-400 py-12">{t('picker.no_windows')}</div>
+          ) : (
+            <div className="grid grid-cols-3 gap-4">
+              {sources.map((source) => (
+                <button
+                  key={source.id}
+                  onClick={() => handleSelect(source)}
+                  onMouseEnter={() => setHoveredId(source.id)}
+                  onMouseLeave={() => setHoveredId(null)}
+                  className={`text-left bg-slate-800 rounded-lg overflow-hidden border-2 transition-all ${
+                    hoveredId === source.id ? 'border-blue-500 shadow-lg shadow-blue-500/20' : 'border-slate-700'
+                  }`}
+                >
+                  <div className="h-32 bg-slate-950 flex items-center justify-center">
+                    <img src={source.thumbnail} alt={source.name} className="max-w-full max-h-full object-contain" />
+                  </div>
+                  <div className="flex items-center gap-2 px-3 py-2">
+                    {source.appIcon && <img src={source.appIcon} alt="" className="w-4 h-4 shrink-0" />}
+                    <span className="text-xs text-slate-200 truncate">{source.name}</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-white/10 text-[11px] text-slate-500">
+          {t('picker.hint')}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WindowPicker;
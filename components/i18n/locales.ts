@@ -47,6 +47,43 @@ export const translations = {
         "home.capture_area": "Capture Area",
         "home.capture_area_desc": "Select a region to capture",
         "home.capture_fullscreen": "Capture Fullscreen",
+        "home.capture_all_displays": "All Displays",
+        "autosave.title": "Auto-save",
+        "autosave.enabled": "Save captures and recordings automatically",
+        "autosave.enabled_desc": "Skips the save dialog and writes files straight into the folder below.",
+        "autosave.folder": "Folder",
+        "autosave.choose": "Choose…",
+        "autosave.template": "Filename template",
+        "autosave.tokens": "Available: %s. Use / for subfolders.",
+        "autosave.subfolder_by_date": "Create a subfolder for each day",
+        "autosave.saved_to": "Saved to %s",
+        "autosave.show_in_folder": "Show in folder",
+        "history_settings.title": "History Library",
+        "history_settings.usage": "%s captures, %s on disk",
+        "history_settings.max_count": "Keep at most (captures)",
+        "history_settings.max_age": "Delete after (days)",
+        "history_settings.max_size": "Total size limit (MB)",
+        "history_settings.hint": "0 means unlimited. The oldest captures are removed first; favorites are never removed.",
+        "history_settings.ocr": "Make text in captures searchable",
+        "history_settings.ocr_desc": "Captures are sent to Gemini in the background to extract their text.",
+        "home.capture_previous_region": "Capture Previous Region",
+        "regions.title": "Saved Regions",
+        "regions.save_previous": "Save previous region",
+        "regions.name_placeholder": "Name",
+        "regions.shortcut_placeholder": "Shortcut (optional)",
+        "regions.save": "Save",
+        "regions.delete": "Delete",
+        "regions.empty": "No saved regions yet",
+        "home.timer": "Timer",
+        "home.timer_off": "Off",
+        "home.timer_seconds": "%ss",
+        "interval.title": "Interval Capture",
+        "interval.every": "Every",
+        "interval.seconds_for": "s for",
+        "interval.minutes": "min",
+        "interval.start": "Start",
+        "interval.stop": "Stop",
+        "interval.frames": "%s frames",
         "home.capture_window": "Capture Window",
         "home.record_screen": "Record Screen",
         "home.record_screen_desc": "Video or GIF • System Audio",
@@ -58,6 +95,44 @@ export const translations = {
         "history.minutes_ago": "%sm ago",
         "history.hours_ago": "%sh ago",
         "history.days_ago": "%sd ago",
+        "history.layers": "%s layers",
+        "history.search_placeholder": "Search filenames, #tags, window titles and text in captures",
+        "history.no_matches": "No captures match your search",
+        "history.type_all": "All types",
+        "history.type_fullscreen": "Fullscreen",
+        "history.type_area": "Area",
+        "history.type_window": "Window",
+        "history.type_scroll": "Scrolling",
+        "history.type_recording": "Recording",
+        "history.from": "From",
+        "history.to": "to",
+        "history.favorites": "Favorites",
+        "history.favorite": "Favorite (kept by cleanup)",
+        "history.add_tag": "Add tag",
+        "history.tag_placeholder": "tag",
+        "history.indexing": "Indexing text… %s left",
+        "history.select": "Select",
+        "history.done": "Done",
+        "history.selected": "%s selected",
+        "history.select_all": "Select all",
+        "history.select_none": "Select none",
+        "history.copy": "Copy",
+        "history.open_together": "Open together",
+        "history.copied": "Copied to clipboard",
+        "history.export_folder": "Export to folder",
+        "history.export_archive": "Export as archive",
+        "history.export_all": "Export history",
+        "history.import_archive": "Import",
+        "history.delete": "Delete",
+        "history.confirm_delete": "Delete %s captures? This cannot be undone.",
+        "history.exported": "Exported %s captures",
+        "history.imported": "Imported %s captures",
+        "history.bulk_failed": "Operation failed %s",
+        "recording_player.export_as": "Export as",
+        "recording_player.exported": "Saved to %s",
+        "recording_player.export_failed": "Export failed: %s",
+        "home.open_project": "Open Project (.cleansnap)",
+        "project.open_failed": "Could not open the project file. It may be damaged or from a newer version of CleanSnap.",
         "app.footer_powered": "Powered by Gemini AI • %s",
         "app.desktop_app": "Desktop App",
         "app.web_app": "Web App",
@@ -78,8 +153,10 @@ export const translations = {
         "recorder.ratio_free": "Free",
         "recorder.dimensions": "Dimensions",
         "recorder.confirm_selection": "Confirm",
-        "app.shortcuts_mac": "⌘⇧3: Fullscreen • ⌘⇧4: Area",
-        "app.shortcuts_win": "Ctrl+Shift+3: Fullscreen • Ctrl+Shift+4: Area",
+        "recorder.record_region": "Record region",
+        "recorder.new_selection": "New selection",
+        "app.shortcuts_mac": "⌘⇧3: Fullscreen • ⌘⇧4: Area • ⌘⇧6: Previous Region",
+        "app.shortcuts_win": "Ctrl+Shift+3: Fullscreen • Ctrl+Shift+4: Area • Ctrl+Shift+6: Previous Region",
         "license.pro": "Pro",
         "license.pro_active": "Pro License Active",
         "license.upgrade_to_pro": "Upgrade to Pro",
@@ -121,6 +198,22 @@ export const translations = {
         "permission.cancel": "Cancel",
         "permission.partial_title": "Partial Permission Detected",
         "permission.partial_message": "Screen recording permission may be limited. Some features might not work properly.",
+        "picker.select_window": "Select a window to capture",
+        "picker.no_windows": "No capturable windows found.",
+        "picker.hint": "Click a window to capture it, even if it is partially covered • ESC to cancel",
+        "home.capture_scrolling": "Scrolling Capture",
+        "scroll.title": "Scrolling Capture",
+        "scroll.select_region": "Select the scrollable region to capture...",
+        "scroll.instructions": "Scroll the content slowly. New rows are stitched automatically; click Done when you reach the end.",
+        "scroll.manual_hint": "Scrolling is manual: CleanSnap does not scroll the page for you.",
+        "scroll.frames": "Frames: %s",
+        "scroll.height": "Height: %spx",
+        "scroll.status_capturing": "Capturing...",
+        "scroll.status_waiting": "Waiting for scroll...",
+        "scroll.status_no_match": "Lost track of the content. Scroll back a little and continue more slowly.",
+        "scroll.status_limit": "Maximum image height reached.",
+        "scroll.cancel": "Cancel",
+        "scroll.finish": "Done",
     },
     zh: {
         "recorder.preview": "预览",
@@ -170,6 +263,43 @@ export const translations = {
         "home.capture_area": "区域截图",
         "home.capture_area_desc": "选择区域进行截图",
         "home.capture_fullscreen": "全屏截图",
+        "home.capture_all_displays": "所有显示器",
+        "autosave.title": "自动保存",
+        "autosave.enabled": "自动保存截图和录屏",
+        "autosave.enabled_desc": "不再弹出保存对话框，文件直接写入下方文件夹。",
+        "autosave.folder": "文件夹",
+        "autosave.choose": "选择…",
+        "autosave.template": "文件名模板",
+        "autosave.tokens": "可用变量：%s，用 / 分隔子文件夹",
+        "autosave.subfolder_by_date": "按日期创建子文件夹",
+        "autosave.saved_to": "已保存到 %s",
+        "autosave.show_in_folder": "在文件夹中显示",
+        "history_settings.title": "历史记录库",
+        "history_settings.usage": "共 %s 张截图，占用 %s",
+        "history_settings.max_count": "最多保留（张）",
+        "history_settings.max_age": "保留天数",
+        "history_settings.max_size": "总大小上限（MB）",
+        "history_settings.hint": "0 表示不限制，超出时优先删除最早的截图，收藏的截图不会被删除。",
+        "history_settings.ocr": "搜索截图中的文字",
+        "history_settings.ocr_desc": "截图会在后台发送给 Gemini 识别文字。",
+        "home.capture_previous_region": "截取上次区域",
+        "regions.title": "已保存区域",
+        "regions.save_previous": "保存上次区域",
+        "regions.name_placeholder": "名称",
+        "regions.shortcut_placeholder": "快捷键（可选）",
+        "regions.save": "保存",
+        "regions.delete": "删除",
+        "regions.empty": "还没有保存的区域",
+        "home.timer": "延时",
+        "home.timer_off": "关",
+        "home.timer_seconds": "%s秒",
+        "interval.title": "定时连拍",
+        "interval.every": "每",
+        "interval.seconds_for": "秒，持续",
+        "interval.minutes": "分钟",
+        "interval.start": "开始",
+        "interval.stop": "停止",
+        "interval.frames": "已截取 %s 张",
         "home.capture_window": "窗口截图",
         "home.record_screen": "录制屏幕",
         "home.record_screen_desc": "支持视频或 GIF • 系统录音",
@@ -181,6 +311,44 @@ export const translations = {
         "history.minutes_ago": "%s分钟前",
         "history.hours_ago": "%s小时前",
         "history.days_ago": "%s天前",
+        "history.layers": "%s 个图层",
+        "history.search_placeholder": "搜索文件名、#标签、窗口标题和截图中的文字",
+        "history.no_matches": "没有符合条件的截图",
+        "history.type_all": "全部类型",
+        "history.type_fullscreen": "全屏",
+        "history.type_area": "区域",
+        "history.type_window": "窗口",
+        "history.type_scroll": "滚动截图",
+        "history.type_recording": "录屏",
+        "history.from": "从",
+        "history.to": "至",
+        "history.favorites": "收藏",
+        "history.favorite": "收藏（不会被自动清理）",
+        "history.add_tag": "添加标签",
+        "history.tag_placeholder": "标签",
+        "history.indexing": "正在识别文字… 剩余 %s",
+        "history.select": "选择",
+        "history.done": "完成",
+        "history.selected": "已选择 %s 项",
+        "history.select_all": "全选",
+        "history.select_none": "取消全选",
+        "history.copy": "复制",
+        "history.open_together": "合并打开",
+        "history.copied": "已复制到剪贴板",
+        "history.export_folder": "导出到文件夹",
+        "history.export_archive": "导出为压缩包",
+        "history.export_all": "导出历史",
+        "history.import_archive": "导入",
+        "history.delete": "删除",
+        "history.confirm_delete": "确定删除 %s 张截图？此操作无法撤销。",
+        "history.exported": "已导出 %s 项",
+        "history.imported": "已导入 %s 项",
+        "history.bulk_failed": "操作失败 %s",
+        "recording_player.export_as": "导出为",
+        "recording_player.exported": "已保存到 %s",
+        "recording_player.export_failed": "导出失败：%s",
+        "home.open_project": "打开项目 (.cleansnap)",
+        "project.open_failed": "无法打开项目文件，文件可能已损坏或来自更新版本的 CleanSnap。",
         "app.footer_powered": "由 Gemini AI 驱动 • %s",
         "app.desktop_app": "桌面版",
         "app.web_app": "Web版",
@@ -201,8 +369,10 @@ export const translations = {
         "recorder.ratio_free": "自由",
         "recorder.dimensions": "尺寸",
         "recorder.confirm_selection": "确认",
-        "app.shortcuts_mac": "⌘⇧3: 全屏 • ⌘⇧4: 区域",
-        "app.shortcuts_win": "Ctrl+Shift+3: 全屏 • Ctrl+Shift+4: 区域",
+        "recorder.record_region": "录制区域",
+        "recorder.new_selection": "新建选区",
+        "app.shortcuts_mac": "⌘⇧3: 全屏 • ⌘⇧4: 区域 • ⌘⇧6: 上次区域",
+        "app.shortcuts_win": "Ctrl+Shift+3: 全屏 • Ctrl+Shift+4: 区域 • Ctrl+Shift+6: 上次区域",
         "license.pro": "专业版",
         "license.pro_active": "✓ 专业版授权已激活",
         "license.upgrade_to_pro": "升级到专业版",
@@ -244,6 +414,22 @@ export const translations = {
         "permission.cancel": "取消",
         "permission.partial_title": "检测到部分权限",
         "permission.partial_message": "屏幕录制权限可能受限。某些功能可能无法正常工作。",
+        "picker.select_window": "选择要截图的窗口",
+        "picker.no_windows": "未找到可截图的窗口。",
+        "picker.hint": "点击窗口即可截图，即使窗口被部分遮挡 • ESC 取消",
+        "home.capture_scrolling": "滚动截图",
+        "scroll.title": "滚动截图",
+        "scroll.select_region": "请选择要滚动截图的区域...",
+        "scroll.instructions": "请缓慢滚动内容，新内容会自动拼接；滚动到底部后点击完成。",
+        "scroll.manual_hint": "需要手动滚动：CleanSnap 不会自动滚动页面。",
+        "scroll.frames": "帧数：%s",
+        "scroll.height": "高度：%spx",
+        "scroll.status_capturing": "正在截图...",
+        "scroll.status_waiting": "等待滚动...",
+        "scroll.status_no_match": "无法对齐内容，请向回滚动一点并放慢速度。",
+        "scroll.status_limit": "已达到最大图片高度。",
+        "scroll.cancel": "取消",
+        "scroll.finish": "完成",
     }
 };
 
@@ -1,13 +1,45 @@
+import type { AppSettings, CaptureHistory, CleanSnapProject, FullscreenMode, HistoryAddRequest, HistoryUpdate, ImageEncodeOptions } from './types';
+
 export interface ElectronAPI {
-  captureFullscreen: () => Promise<string>;
-  captureArea: () => Promise<string>;
-  captureWindow: () => Promise<string>;
+  captureFullscreen: (mode?: FullscreenMode) => Promise<string>;
+  captureArea: (delay?: number) => Promise<string>;
+  pickWindow: () => Promise<{ id: string; name: string } | null>;
   captureSelection: (bounds: { x: number; y: number; width: number; height: number }) => Promise<string>;
   getScreens: () => Promise<any[]>;
-  getDesktopSources: () => Promise<Array<{ id: string; name: string; thumbnail: string }>>;
+  showCountdown: (seconds: number) => Promise<void>;
+  getSettings: () => Promise<AppSettings>;
+  updateSettings: (patch: Partial<AppSettings>) => Promise<AppSettings>;
+  getDesktopSources: () => Promise<Array<{ id: string; name: string; thumbnail: string; appIcon?: string | null }>>;
   showRecordingOverlay: (bounds: { x: number; y: number; width: number; height: number }) => Promise<void>;
   hideRecordingOverlay: () => Promise<void>;
-  saveImage: (imageData: string, filename?: string) => Promise<{ success: boolean; path?: string; error?: string }>;
+  // Format is taken from the chosen file extension; unspecified options fall back to the last used ones
+  saveImage: (imageData: string, filename?: string, options?: Partial<ImageEncodeOptions>) => Promise<{ success: boolean; path?: string; error?: string; canceled?: boolean }>;
+  // Saves into the auto-save folder using the filename template; app fills the {app} token
+  quickSaveImage: (imageData: string, meta?: { app?: string }) => Promise<{ success: boolean; path?: string; error?: string }>;
+  chooseFolder: (defaultPath?: string) => Promise<string | null>;
+  showItemInFolder: (filePath: string) => Promise<void>;
+  // Writes a serialized .cleansnap project chosen via a save dialog
+  saveProject: (content: string, filename?: string) => Promise<{ success: boolean; path?: string; error?: string; canceled?: boolean }>;
+  openProject: () => Promise<{ path: string; content: string } | null>;
+  // History library in userData: list returns thumbnails only, full images/projects are loaded on demand
+  historyList: () => Promise<CaptureHistory[]>;
+  historyStats: () => Promise<{ count: number; size: number }>;
+  // removed: ids dropped by the retention policy after adding
+  historyAdd: (request: HistoryAddRequest) => Promise<{ entry: CaptureHistory; removed: string[] }>;
+  historyGetImage: (id: string) => Promise<string | null>;
+  historyGetProject: (id: string) => Promise<CleanSnapProject | null>;
+  historySetProject: (id: string, project: CleanSnapProject) => Promise<CaptureHistory | null>;
+  historyUpdate: (id: string, patch: HistoryUpdate) => Promise<CaptureHistory | null>;
+  historyDelete: (id: string) => Promise<void>;
+  // Bulk operations; count is the number of captures exported/imported
+  historyExportFiles: (ids: string[]) => Promise<{ success: boolean; count?: number; path?: string; error?: string; canceled?: boolean }>;
+  // Zip with images, thumbnails, recordings, projects and metadata; all captures when ids is omitted
+  historyExportArchive: (ids?: string[]) => Promise<{ success: boolean; count?: number; path?: string; error?: string; canceled?: boolean }>;
+  historyImportArchive: () => Promise<{ success: boolean; count?: number; error?: string; canceled?: boolean }>;
+  // Re-encodes a recording's retained WebM source; progress is reported via onExportProgress
+  historyExportRecording: (id: string, format: 'mp4' | 'gif' | 'webm') => Promise<{ success: boolean; path?: string; error?: string; canceled?: boolean }>;
+  // Imports legacy localStorage entries, returns the number imported
+  historyMigrate: (entries: HistoryAddRequest[]) => Promise<number>;
   copyToClipboard: (imageData: string) => Promise<{ success: boolean; error?: string }>;
   closeSelector: () => Promise<void>;
   showPreview: (imageData: string) => Promise<void>;
@@ -18,10 +50,15 @@ export interface ElectronAPI {
   stopRecordingStream: (format: 'mp4' | 'gif') => Promise<{ success: boolean; path?: string; error?: string; canceled?: boolean }>;
   setIgnoreMouseEvents: (ignore: boolean, options?: { forward: boolean }) => void;
   minimizeWindow: () => void;
+  // Minimizes the main window and keeps it out of captures until called with false (interval capture)
+  excludeFromCapture: (exclude: boolean) => Promise<void>;
   showWindow: () => void;
   createAreaSelector: () => void;
   areaSelected: (bounds: { x: number; y: number; width: number; height: number }) => void;
   cancelAreaSelection: () => void;
+  // Frozen desktop image behind the area selector (null when selecting over the live desktop)
+  getFrozenScreen: () => Promise<{ imageData: string; bounds: { x: number; y: number; width: number; height: number } } | null>;
+  windowSelected: (source: { id: string; name: string } | null) => void;
   onAreaSelectionResult: (callback: (bounds: { x: number; y: number; width: number; height: number } | null) => void) => () => void;
   onPreviewImage: (callback: (imageData: string) => void) => () => void;
   onScreenshotCaptured: (callback: (imageData: string) => void) => () => void;
@@ -0,0 +1,525 @@
+import { app, nativeImage, net, protocol } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ZipReader, ZipWriter } from './zipArchive';
+// ffmpeg 路径由 main.ts 通过 ffmpeg.setFfmpegPath 统一配置
+const ffmpeg = require('fluent-ffmpeg');
+
+// 截图历史库：图片、缩略图和项目文件保存在 userData/history 下，index.json 记录元数据
+// 渲染进程只拿到缩略图，完整图片和项目在打开时按需读取
+// 注意：HistoryEntry / HistoryRetention / CaptureType 需与根目录 types.ts 中的 CaptureHistory / HistoryRetention / CaptureType 保持一致
+
+export type CaptureType = 'fullscreen' | 'area' | 'window' | 'scroll' | 'recording';
+
+export interface HistoryRetention {
+  // 0 表示不限制
+  maxCount: number;
+  maxAgeDays: number;
+  maxSizeMB: number;
+}
+
+interface HistoryRecord {
+  id: string;
+  timestamp: number;
+  filename?: string;
+  ext: string;
+  width: number;
+  height: number;
+  // 图片 + 缩略图 + 项目文件的总字节数
+  size: number;
+  // 项目中的标注数量，没有项目时为 undefined
+  layers?: number;
+  captureType?: CaptureType;
+  // 窗口截图的来源窗口标题
+  source?: string;
+  tags?: string[];
+  // 收藏（置顶）的记录不会被保留策略清理
+  favorite?: boolean;
+  // 后台 OCR 识别出的文字；undefined 表示尚未识别
+  ocrText?: string;
+  // 录屏时长（秒）
+  duration?: number;
+}
+
+// 渲染进程可以修改的字段
+export type HistoryUpdate = Partial<Pick<HistoryRecord, 'filename' | 'tags' | 'favorite' | 'ocrText'>>;
+
+export interface HistoryEntry extends Omit<HistoryRecord, 'ext'> {
+  // 缩略图 data URL（录屏为封面帧）
+  thumbnail: string;
+  // 录屏源文件的播放地址（MEDIA_SCHEME 协议）
+  videoUrl?: string;
+}
+
+export interface RecordingAddRequest {
+  id: string;
+  // 录制得到的 WebM 临时文件，会被移入历史库
+  sourcePath: string;
+  // 用户保存的导出文件
+  exportedPath: string;
+}
+
+// .cleansnap 项目；主进程只负责读写 JSON，不解析标注和背景
+// 注意：字段需与根目录 types.ts 中的 CleanSnapProject 保持一致
+export interface CleanSnapProject {
+  version: number;
+  image: string;
+  annotations: unknown[];
+  background: unknown;
+  imageTransform?: unknown;
+  canvasExpansion?: unknown;
+  images?: Record<string, string>;
+  savedAt: number;
+}
+
+export interface HistoryAddRequest {
+  id: string;
+  imageData: string;
+  timestamp?: number;
+  filename?: string;
+  project?: CleanSnapProject;
+  captureType?: CaptureType;
+  source?: string;
+}
+
+const THUMBNAIL_WIDTH = 320;
+
+// 渲染进程通过 cleansnap-media://history/<文件名> 播放历史库中的录屏
+export const MEDIA_SCHEME = 'cleansnap-media';
+
+let records: HistoryRecord[] | null = null;
+
+function getLibraryDir(): string {
+  const dir = path.join(app.getPath('userData'), 'history');
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+const imagePath = (record: HistoryRecord) => path.join(getLibraryDir(), `${record.id}.${record.ext}`);
+const thumbnailPath = (id: string) => path.join(getLibraryDir(), `${id}.thumb.jpg`);
+const projectPath = (id: string) => path.join(getLibraryDir(), `${id}.cleansnap`);
+
+// id 和扩展名会用作文件名，只接受库中生成的格式（时间戳和图片类型），渲染进程或归档传入的值都要先检查
+const isValidId = (id: unknown) => /^\d+$/.test(String(id));
+const isValidExt = (ext: unknown) => /^\w+$/.test(String(ext));
+
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+function loadRecords(): HistoryRecord[] {
+  if (records) return records;
+  try {
+    const indexPath = path.join(getLibraryDir(), 'index.json');
+    records = fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath, 'utf-8')) : [];
+  } catch (e) {
+    console.error('[HISTORY] Failed to read index, starting empty:', e);
+    records = [];
+  }
+  return records!;
+}
+
+// 先写临时文件再重命名，避免写到一半崩溃导致索引损坏
+function saveRecords() {
+  const indexPath = path.join(getLibraryDir(), 'index.json');
+  const tempPath = `${indexPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(records), 'utf-8');
+  fs.renameSync(tempPath, indexPath);
+}
+
+function toEntry(record: HistoryRecord): HistoryEntry {
+  const { ext, ...rest } = record;
+  let thumbnail = '';
+  try {
+    thumbnail = `data:image/jpeg;base64,${fs.readFileSync(thumbnailPath(record.id)).toString('base64')}`;
+  } catch {
+    // 缩略图缺失（例如 WebP 原图无法解码）时由渲染进程显示占位
+  }
+  return record.captureType === 'recording'
+    ? { ...rest, thumbnail, videoUrl: `${MEDIA_SCHEME}://history/${record.id}.${ext}` }
+    : { ...rest, thumbnail };
+}
+
+function removeFiles(record: HistoryRecord) {
+  for (const filePath of [imagePath(record), thumbnailPath(record.id), projectPath(record.id)]) {
+    fs.promises.unlink(filePath).catch(() => {});
+  }
+}
+
+/**
+ * 按数量、时间和总大小清理最旧的记录，返回被删除的 id。
+ * 收藏的记录既不会被删除，也不计入数量和大小限制
+ */
+export function applyRetention(retention: HistoryRetention): string[] {
+  const list = loadRecords();
+  const now = Date.now();
+  const candidates = list.filter((record) => !record.favorite);
+  const removed = new Set<HistoryRecord>();
+  let totalSize = candidates.reduce((sum, record) => sum + record.size, 0);
+
+  // 索引按时间倒序，从最旧的开始检查
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const record = candidates[i];
+    const overCount = retention.maxCount > 0 && i >= retention.maxCount;
+    const tooOld = retention.maxAgeDays > 0 && now - record.timestamp > retention.maxAgeDays * 86400000;
+    const overSize = retention.maxSizeMB > 0 && totalSize > retention.maxSizeMB * 1024 * 1024;
+    if (overCount || tooOld || overSize) {
+      removed.add(record);
+      totalSize -= record.size;
+    }
+  }
+
+  if (removed.size > 0) {
+    removed.forEach(removeFiles);
+    records = list.filter((record) => !removed.has(record));
+    saveRecords();
+  }
+  return Array.from(removed, (record) => record.id);
+}
+
+export function listHistory(): HistoryEntry[] {
+  return loadRecords().map(toEntry);
+}
+
+export function getHistoryStats(): { count: number; size: number } {
+  const list = loadRecords();
+  return { count: list.length, size: list.reduce((sum, record) => sum + record.size, 0) };
+}
+
+function writeProject(id: string, project: CleanSnapProject): number {
+  const content = JSON.stringify(project);
+  fs.writeFileSync(projectPath(id), content, 'utf-8');
+  return Buffer.byteLength(content);
+}
+
+export function addHistory(request: HistoryAddRequest): HistoryEntry {
+  if (!isValidId(request.id)) throw new Error(`Invalid history id: ${request.id}`);
+  const match = request.imageData.match(/^data:image\/(\w+);base64,/);
+  const ext = match ? (match[1] === 'jpeg' ? 'jpg' : match[1]) : 'png';
+  const buffer = Buffer.from(request.imageData.replace(/^data:image\/\w+;base64,/, ''), 'base64');
+
+  const record: HistoryRecord = {
+    id: request.id,
+    timestamp: request.timestamp || Date.now(),
+    filename: request.filename,
+    ext,
+    width: 0,
+    height: 0,
+    size: buffer.length,
+    captureType: request.captureType,
+    source: request.source,
+  };
+  fs.writeFileSync(imagePath(record), buffer);
+
+  const image = nativeImage.createFromBuffer(buffer);
+  if (!image.isEmpty()) {
+    const { width, height } = image.getSize();
+    record.width = width;
+    record.height = height;
+    const thumbnail = (width > THUMBNAIL_WIDTH ? image.resize({ width: THUMBNAIL_WIDTH, quality: 'good' }) : image).toJPEG(80);
+    fs.writeFileSync(thumbnailPath(record.id), thumbnail);
+    record.size += thumbnail.length;
+  }
+
+  if (request.project) {
+    record.size += writeProject(record.id, request.project);
+    record.layers = Array.isArray(request.project.annotations) ? request.project.annotations.length : 0;
+  }
+
+  const list = loadRecords();
+  const existing = list.findIndex((r) => r.id === record.id);
+  if (existing >= 0) list.splice(existing, 1);
+  list.unshift(record);
+  list.sort((a, b) => b.timestamp - a.timestamp);
+  saveRecords();
+  return toEntry(record);
+}
+
+export function getHistoryImage(id: string): string | null {
+  const record = loadRecords().find((r) => r.id === id);
+  if (!record || record.captureType === 'recording') return null;
+  try {
+    const mime = record.ext === 'jpg' ? 'jpeg' : record.ext;
+    return `data:image/${mime};base64,${fs.readFileSync(imagePath(record)).toString('base64')}`;
+  } catch (e) {
+    console.error('[HISTORY] Failed to read image:', e);
+    return null;
+  }
+}
+
+export function getHistoryProject(id: string): CleanSnapProject | null {
+  if (!isValidId(id)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(projectPath(id), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+export function setHistoryProject(id: string, project: CleanSnapProject): HistoryEntry | null {
+  const record = loadRecords().find((r) => r.id === id);
+  if (!record) return null;
+  writeProject(id, project);
+  record.size = fileSize(imagePath(record)) + fileSize(thumbnailPath(id)) + fileSize(projectPath(id));
+  record.layers = Array.isArray(project.annotations) ? project.annotations.length : 0;
+  saveRecords();
+  return toEntry(record);
+}
+
+/**
+ * 检查渲染进程传入的记录修改：只保留可修改的字段和合法的值，其余忽略并记录警告
+ */
+export function validateHistoryPatch(patch: unknown): HistoryUpdate {
+  if (!patch || typeof patch !== 'object') return {};
+  const input = patch as Record<string, unknown>;
+  const result: HistoryUpdate = {};
+
+  if (typeof input.filename === 'string') result.filename = input.filename;
+  if (Array.isArray(input.tags) && input.tags.every((tag) => typeof tag === 'string')) result.tags = input.tags;
+  if (typeof input.favorite === 'boolean') result.favorite = input.favorite;
+  if (typeof input.ocrText === 'string') result.ocrText = input.ocrText;
+
+  const ignored = Object.keys(input).filter((key) => !(key in result));
+  if (ignored.length > 0) console.warn('[HISTORY] Ignored invalid history update:', ignored);
+  return result;
+}
+
+export function updateHistory(id: string, patch: HistoryUpdate): HistoryEntry | null {
+  const record = loadRecords().find((r) => r.id === id);
+  if (!record) return null;
+  if (patch.filename !== undefined) record.filename = patch.filename;
+  if (patch.tags !== undefined) record.tags = Array.from(new Set(patch.tags.map((tag) => tag.trim()).filter(Boolean)));
+  if (patch.favorite !== undefined) record.favorite = patch.favorite;
+  if (patch.ocrText !== undefined) record.ocrText = patch.ocrText;
+  saveRecords();
+  return toEntry(record);
+}
+
+export function deleteHistory(id: string): void {
+  const list = loadRecords();
+  const index = list.findIndex((r) => r.id === id);
+  if (index < 0) return;
+  removeFiles(list[index]);
+  list.splice(index, 1);
+  saveRecords();
+}
+
+/**
+ * 导入旧版 localStorage 中的历史记录（已存在的 id 会跳过），返回导入数量
+ */
+export function migrateHistory(entries: HistoryAddRequest[]): number {
+  const existing = new Set(loadRecords().map((r) => r.id));
+  let imported = 0;
+  for (const entry of entries) {
+    if (!entry || !entry.id || typeof entry.imageData !== 'string' || existing.has(entry.id)) continue;
+    try {
+      addHistory(entry);
+      imported++;
+    } catch (e) {
+      console.error('[HISTORY] Failed to migrate entry:', entry.id, e);
+    }
+  }
+  return imported;
+}
+
+// 需在 app ready 之前调用，使 <video> 可以流式读取（支持拖动进度条）
+export function registerMediaScheme() {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: MEDIA_SCHEME, privileges: { standard: true, secure: true, stream: true, supportFetchAPI: true } },
+  ]);
+}
+
+// app ready 之后调用；只允许访问历史库目录内的文件
+export function handleMediaProtocol() {
+  protocol.handle(MEDIA_SCHEME, (request) => {
+    const fileName = path.basename(decodeURIComponent(new URL(request.url).pathname));
+    const filePath = path.join(getLibraryDir(), fileName);
+    if (!fs.existsSync(filePath)) return new Response(null, { status: 404 });
+    return net.fetch(pathToFileURL(filePath).toString(), { headers: request.headers });
+  });
+}
+
+function probe(filePath: string): Promise<any> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err: Error, metadata: any) => resolve(err ? null : metadata));
+  });
+}
+
+function extractPoster(videoPath: string, outputPath: string, atSeconds: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(videoPath)
+      .seekInput(atSeconds)
+      .outputOptions(['-frames:v', '1', '-vf', `scale='min(${THUMBNAIL_WIDTH},iw)':-2`, '-q:v', '4'])
+      .save(outputPath)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err));
+  });
+}
+
+/**
+ * 把录屏源文件移入历史库，生成封面帧并读取时长与分辨率
+ */
+export async function addRecording(request: RecordingAddRequest): Promise<HistoryEntry> {
+  const record: HistoryRecord = {
+    id: request.id,
+    timestamp: Date.now(),
+    filename: path.basename(request.exportedPath),
+    ext: 'webm',
+    width: 0,
+    height: 0,
+    size: 0,
+    captureType: 'recording',
+  };
+
+  // 临时目录可能在另一个分区，rename 失败时改为复制
+  try {
+    await fs.promises.rename(request.sourcePath, imagePath(record));
+  } catch {
+    await fs.promises.copyFile(request.sourcePath, imagePath(record));
+    await fs.promises.unlink(request.sourcePath).catch(() => {});
+  }
+
+  // MediaRecorder 生成的 WebM 常常没有时长信息，此时 ffprobe 得到的 duration 为 N/A
+  const metadata = await probe(imagePath(record));
+  const videoStream = metadata?.streams?.find((stream: any) => stream.codec_type === 'video');
+  const duration = Number(metadata?.format?.duration);
+  record.duration = Number.isFinite(duration) ? duration : undefined;
+  record.width = videoStream?.width || 0;
+  record.height = videoStream?.height || 0;
+
+  try {
+    await extractPoster(imagePath(record), thumbnailPath(record.id), Math.min(1, (record.duration || 0) / 2));
+  } catch (e) {
+    console.warn('[HISTORY] Failed to extract poster frame:', e);
+  }
+  record.size = fileSize(imagePath(record)) + fileSize(thumbnailPath(record.id));
+
+  const list = loadRecords();
+  list.unshift(record);
+  saveRecords();
+  return toEntry(record);
+}
+
+// 历史库中录屏源文件的路径，用于重新导出
+export function getRecordingSource(id: string): string | null {
+  const record = loadRecords().find((r) => r.id === id);
+  return record && record.captureType === 'recording' ? imagePath(record) : null;
+}
+
+const ARCHIVE_VERSION = 1;
+
+/**
+ * 把历史记录（默认全部）连同图片、缩略图、录屏源文件和项目导出为一个 zip 文件，返回导出数量
+ * 失败时删除不完整的归档
+ */
+export async function exportArchive(filePath: string, ids?: string[]): Promise<number> {
+  const selected = loadRecords().filter((r) => !ids || ids.includes(r.id));
+  const zip = await ZipWriter.create(filePath);
+  try {
+    await zip.add('manifest.json', Buffer.from(JSON.stringify({ version: ARCHIVE_VERSION, exportedAt: Date.now(), records: selected }, null, 2)));
+    for (const record of selected) {
+      for (const file of [imagePath(record), thumbnailPath(record.id), projectPath(record.id)]) {
+        if (!fs.existsSync(file)) continue;
+        // 图片和视频本身已压缩，直接存储
+        await zip.addFile(`files/${path.basename(file)}`, file, file.endsWith('.cleansnap'));
+      }
+    }
+    await zip.close();
+  } catch (e) {
+    await zip.discard();
+    throw e;
+  }
+  return selected.length;
+}
+
+const CAPTURE_TYPES: CaptureType[] = ['fullscreen', 'area', 'window', 'scroll', 'recording'];
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * 归档可能来自他人，清单中的记录按字段白名单重建：类型不对的字段丢弃，文件名只保留 basename
+ */
+function toImportedRecord(raw: unknown): HistoryRecord | null {
+  const r = raw as Record<string, unknown> | null;
+  if (!r || typeof r !== 'object' || !isValidId(r.id) || !isValidExt(r.ext) || !isFiniteNumber(r.timestamp)) return null;
+
+  const record: HistoryRecord = {
+    id: String(r.id),
+    timestamp: r.timestamp,
+    ext: String(r.ext),
+    width: isFiniteNumber(r.width) ? r.width : 0,
+    height: isFiniteNumber(r.height) ? r.height : 0,
+    size: isFiniteNumber(r.size) ? r.size : 0,
+  };
+  if (typeof r.filename === 'string' && path.basename(r.filename)) record.filename = path.basename(r.filename);
+  if (isFiniteNumber(r.layers)) record.layers = r.layers;
+  if (CAPTURE_TYPES.includes(r.captureType as CaptureType)) record.captureType = r.captureType as CaptureType;
+  if (typeof r.source === 'string') record.source = r.source;
+  if (Array.isArray(r.tags) && r.tags.every((tag) => typeof tag === 'string')) record.tags = r.tags;
+  if (typeof r.favorite === 'boolean') record.favorite = r.favorite;
+  if (typeof r.ocrText === 'string') record.ocrText = r.ocrText;
+  if (isFiniteNumber(r.duration)) record.duration = r.duration;
+  return record;
+}
+
+/**
+ * 从 zip 导入历史记录，已存在的 id 会跳过，返回导入数量
+ */
+export async function importArchive(filePath: string): Promise<number> {
+  const zip = await ZipReader.open(filePath);
+  try {
+    const manifest = JSON.parse((await zip.read('manifest.json'))?.toString('utf-8') || 'null');
+    if (!manifest || !Array.isArray(manifest.records)) throw new Error('Not a CleanSnap history archive');
+    if (manifest.version > ARCHIVE_VERSION) throw new Error(`Unsupported archive version: ${manifest.version}`);
+
+    const list = loadRecords();
+    const existing = new Set(list.map((r) => r.id));
+    let imported = 0;
+    for (const raw of manifest.records as unknown[]) {
+      const record = toImportedRecord(raw);
+      if (!record || existing.has(record.id)) continue;
+      if (!(await zip.extract(`files/${record.id}.${record.ext}`, imagePath(record)))) continue;
+      for (const file of [thumbnailPath(record.id), projectPath(record.id)]) {
+        await zip.extract(`files/${path.basename(file)}`, file);
+      }
+      list.push(record);
+      existing.add(record.id);
+      imported++;
+    }
+
+    list.sort((a, b) => b.timestamp - a.timestamp);
+    saveRecords();
+    return imported;
+  } finally {
+    await zip.close();
+  }
+}
+
+/**
+ * 把选中的记录复制到文件夹（录屏为 WebM 源文件），文件名重复时追加序号，返回复制数量
+ */
+export function exportFiles(ids: string[], folder: string): number {
+  let copied = 0;
+  for (const record of loadRecords().filter((r) => ids.includes(r.id))) {
+    const source = imagePath(record);
+    if (!fs.existsSync(source)) continue;
+    // 文件名可能来自导入的归档，只取 basename，并确认目标仍在所选文件夹内
+    const base = path.basename(record.filename || '').replace(/\.[^.]+$/, '') || `cleansnap-${record.timestamp}`;
+    let target = path.join(folder, `${base}.${record.ext}`);
+    for (let n = 2; fs.existsSync(target); n++) {
+      target = path.join(folder, `${base} (${n}).${record.ext}`);
+    }
+    const relative = path.relative(path.resolve(folder), path.resolve(target));
+    if (!relative || relative.split(path.sep)[0] === '..' || path.isAbsolute(relative)) {
+      console.warn('[HISTORY] Skipping export outside the target folder:', target);
+      continue;
+    }
+    fs.copyFileSync(source, target);
+    copied++;
+  }
+  return copied;
+}
@@ -0,0 +1,131 @@
+import { nativeImage, type NativeImage } from 'electron';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+// ffmpeg 路径由 main.ts 通过 ffmpeg.setFfmpegPath 统一配置
+const ffmpeg = require('fluent-ffmpeg');
+
+// 图片编码：PNG/JPEG 由 nativeImage 直接编码，WebP/AVIF 与 PNG 压缩/量化交给 ffmpeg
+// 注意：类型需与根目录 types.ts 中的 ImageFormat / ImageEncodeOptions 保持一致
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface ImageEncodeOptions {
+  format: ImageFormat;
+  // 1-100，用于 JPEG、有损 WebP 与 AVIF
+  quality: number;
+  // WebP 无损模式
+  lossless: boolean;
+  // PNG 最大压缩（更慢，文件更小，画质不变）
+  optimizePng: boolean;
+  // PNG 量化为 256 色调色板（有损，截图类图片通常体积减半以上）
+  quantizePng: boolean;
+}
+
+export const IMAGE_EXTENSIONS: Record<ImageFormat, string[]> = {
+  png: ['png'],
+  jpeg: ['jpg', 'jpeg'],
+  webp: ['webp'],
+  avif: ['avif'],
+};
+
+// 保存对话框中的文件类型名称
+export const IMAGE_FORMAT_NAMES: Record<ImageFormat, string> = {
+  png: 'PNG Images',
+  jpeg: 'JPEG Images',
+  webp: 'WebP Images',
+  avif: 'AVIF Images',
+};
+
+// 格式来自渲染进程或 settings.json，使用前需要检查
+export function isImageFormat(value: unknown): value is ImageFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(IMAGE_EXTENSIONS, value);
+}
+
+export function formatFromExtension(filePath: string): ImageFormat | null {
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  const match = (Object.keys(IMAGE_EXTENSIONS) as ImageFormat[]).find((format) => IMAGE_EXTENSIONS[format].includes(ext));
+  return match || null;
+}
+
+function clampQuality(quality: unknown): number {
+  const value = Number(quality);
+  return Number.isFinite(value) && value > 0 ? Math.max(1, Math.min(100, Math.round(value))) : 90;
+}
+
+// JPEG 没有透明通道：先合成到白底上，与浏览器端的保存结果一致（位图为预乘 alpha 的 BGRA）
+function flattenOnWhite(image: NativeImage): NativeImage {
+  const bitmap = image.toBitmap();
+  for (let i = 0; i < bitmap.length; i += 4) {
+    const cover = 255 - bitmap[i + 3];
+    if (cover === 0) continue;
+    bitmap[i] = Math.min(255, bitmap[i] + cover);
+    bitmap[i + 1] = Math.min(255, bitmap[i + 1] + cover);
+    bitmap[i + 2] = Math.min(255, bitmap[i + 2] + cover);
+    bitmap[i + 3] = 255;
+  }
+  return nativeImage.createFromBitmap(bitmap, image.getSize());
+}
+
+// 用 ffmpeg 把临时 PNG 转为目标格式，返回编码后的字节
+async function runFfmpeg(input: Buffer, extension: string, outputOptions: string[]): Promise<Buffer> {
+  const stamp = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const tempInput = path.join(os.tmpdir(), `cleansnap-encode-${stamp}.png`);
+  const tempOutput = path.join(os.tmpdir(), `cleansnap-encode-${stamp}.${extension}`);
+
+  await fs.promises.writeFile(tempInput, input);
+  try {
+    await new Promise((resolve, reject) => {
+      ffmpeg(tempInput)
+        .outputOptions(['-frames:v', '1', ...outputOptions])
+        .save(tempOutput)
+        .on('end', () => resolve(null))
+        .on('error', (err: Error) => reject(err));
+    });
+    return await fs.promises.readFile(tempOutput);
+  } finally {
+    fs.promises.unlink(tempInput).catch(() => {});
+    fs.promises.unlink(tempOutput).catch(() => {});
+  }
+}
+
+/**
+ * 将 PNG 字节编码为目标格式
+ */
+export async function encodeImage(png: Buffer, options: ImageEncodeOptions): Promise<Buffer> {
+  const quality = clampQuality(options.quality);
+
+  switch (options.format) {
+    case 'jpeg':
+      return flattenOnWhite(nativeImage.createFromBuffer(png)).toJPEG(quality);
+
+    case 'webp':
+      return runFfmpeg(png, 'webp', options.lossless
+        ? ['-c:v', 'libwebp', '-lossless', '1', '-compression_level', '6']
+        : ['-c:v', 'libwebp', '-quality', String(quality), '-compression_level', '6']);
+
+    case 'avif':
+      // crf 0-63，数值越小画质越高；quality 100 对应 crf 0
+      return runFfmpeg(png, 'avif', [
+        '-c:v', 'libaom-av1',
+        '-still-picture', '1',
+        '-crf', String(Math.round(63 * (1 - quality / 100))),
+        '-b:v', '0',
+        '-cpu-used', '6',
+        '-pix_fmt', 'yuv420p',
+      ]);
+
+    case 'png':
+    default:
+      if (options.quantizePng) {
+        return runFfmpeg(png, 'png', [
+          '-vf', 'split[a][b];[a]palettegen=max_colors=256:reserve_transparent=1[p];[b][p]paletteuse=dither=sierra2_4a',
+          '-compression_level', '9',
+          '-pred', 'mixed',
+        ]);
+      }
+      if (options.optimizePng) {
+        return runFfmpeg(png, 'png', ['-compression_level', '9', '-pred', 'mixed']);
+      }
+      return png;
+  }
+}
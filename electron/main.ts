@@ -2,11 +2,23 @@
 const electron = require('electron');
 const { app, BrowserWindow, globalShortcut, ipcMain, screen: electronScreen, nativeImage, clipboard, dialog, shell } = electron;
 const path = require('path');
-const { writeFile, unlink } = require('fs/promises');
+const { writeFile, readFile, unlink } = require('fs/promises');
 const { createWriteStream } = require('fs');
 const fs = require('fs');
 const os = require('os');
 const ffmpeg = require('fluent-ffmpeg');
+const { getSettings, updateSettings, validateImageEncode, validateSettingsPatch } = require('./settingsStore');
+type ImageFormat = import('./imageEncoder').ImageFormat;
+const { encodeImage, formatFromExtension, isImageFormat, IMAGE_EXTENSIONS, IMAGE_FORMAT_NAMES } = require('./imageEncoder') as typeof import('./imageEncoder');
+const { resolveQuickSavePath } = require('./quickSave');
+const {
+  addHistory, addRecording, applyRetention, deleteHistory, exportArchive, exportFiles, getHistoryImage, getHistoryProject,
+  getHistoryStats, getRecordingSource, handleMediaProtocol, importArchive, listHistory, migrateHistory, registerMediaScheme,
+  setHistoryProject, updateHistory, validateHistoryPatch,
+} = require('./historyLibrary');
+
+// 历史库录屏播放协议，必须在 app ready 之前注册
+registerMediaScheme();
 let ffmpegPath = require('ffmpeg-static');
 
 // Fix for packaged apps
@@ -251,87 +263,270 @@ ipcMain.handle('write-recording-chunk', async (event, buffer) => {
   return false;
 });
 
-ipcMain.handle('stop-recording-stream', async (event, format) => {
-  console.log('[MAIN] Stopping recording stream...');
-
-  if (!recordingWriteStream) {
-    return { success: false, error: 'No active stream' };
+// 把录制的 WebM 源文件导出为目标格式（MP4 / GIF / WebM），录制结束和从历史记录重新导出共用
+async function exportRecording(tempInput: string, filePath: string, format: string, sendProgress: (progress: number) => void) {
+  // 获取输入文件信息用于进度计算
+  let inputDuration = 0;
+  let inputSize = 0;
+  try {
+    const stats = await fs.promises.stat(tempInput);
+    inputSize = stats.size;
+    
+    // 尝试获取视频时长（用于更准确的进度）
+    await new Promise((resolve) => {
+      ffmpeg.ffprobe(tempInput, (err, metadata) => {
+        if (!err && metadata?.format?.duration) {
+          inputDuration = metadata.format.duration;
+        }
+        resolve(null);
+      });
+    });
+  } catch (e) {
+    console.warn('[MAIN] Failed to get input file info:', e);
   }
 
-  // Close the stream safely
-  await new Promise((resolve) => {
-    recordingWriteStream.end(resolve);
-  });
-  recordingWriteStream = null;
-
-  const tempInput = recordingTempPath;
-  if (!tempInput) return { success: false, error: 'No temp file path' };
-
-  // Prompt save dialog
-  const { canceled, filePath } = await dialog.showSaveDialog({
-    filters: [{ name: format.toUpperCase(), extensions: [format] }],
-    defaultPath: `recording-${Date.now()}.${format}`
-  });
-
-  if (canceled || !filePath) {
-    // Cleanup if cancelled
-    try { await unlink(tempInput); } catch (e) { }
-    return { success: false, canceled: true };
-  }
+  // 发送初始进度
+  sendProgress(5);
+
+  // Process the streamed file (tempInput) to destination (filePath)
+  // 优化的编码处理（借鉴 Cap 的编码参数）
+  if (format === 'gif') {
+    // GIF Conversion with optimized settings
+    await new Promise((resolve, reject) => {
+      const command = ffmpeg(tempInput)
+        .outputOptions([
+          '-vf', 'fps=15,scale=800:-1:flags=lanczos,split[s0][s1];[s0]palettegen[p];[s1][p]paletteuse',
+          '-loop', '0'
+        ])
+        .toFormat('gif');
+
+      // 改进的进度追踪：基于时间和文件大小
+      let lastProgress = 5;
+      const progressInterval = setInterval(() => {
+        if (lastProgress < 90) {
+          lastProgress += 5;
+          sendProgress(lastProgress);
+        }
+      }, 500); // 每 500ms 更新一次
+
+      command.on('progress', (progress) => {
+        if (progress.percent !== undefined) {
+          const percent = Math.min(95, Math.max(5, progress.percent));
+          lastProgress = percent;
+          sendProgress(percent);
+        } else if (progress.timemark && inputDuration > 0) {
+          // 基于时间计算进度
+          const timeMatch = progress.timemark.match(/(\d+):(\d+):(\d+\.\d+)/);
+          if (timeMatch) {
+            const hours = parseInt(timeMatch[1]);
+            const minutes = parseInt(timeMatch[2]);
+            const seconds = parseFloat(timeMatch[3]);
+            const currentTime = hours * 3600 + minutes * 60 + seconds;
+            const percent = Math.min(95, Math.max(5, (currentTime / inputDuration) * 100));
+            lastProgress = percent;
+            sendProgress(percent);
+          }
+        }
+      });
 
-  try {
-    const fs = require('fs');
-    
-    // 获取输入文件信息用于进度计算
-    let inputDuration = 0;
-    let inputSize = 0;
-    try {
-      const stats = await fs.promises.stat(tempInput);
-      inputSize = stats.size;
+      command
+        .save(filePath)
+        .on('end', () => {
+          clearInterval(progressInterval);
+          sendProgress(100);
+          resolve(null);
+        })
+        .on('error', (err) => {
+          clearInterval(progressInterval);
+          reject(err);
+        });
+    });
+  } else {
+    // MP4 Processing with optimized encoding (借鉴 Cap)
+    // 最优方案：如果输入是 WebM 且用户选择保存为 WebM，直接复制（最快）
+    if (filePath.endsWith('.webm') && tempInput.endsWith('.webm')) {
+      console.log('[MAIN] Input and output are both WebM, directly copying (fastest)');
+      sendProgress(50);
+      await fs.promises.copyFile(tempInput, filePath);
+      sendProgress(100);
+    } else if (filePath.endsWith('.mp4')) {
+      // 先检查输入格式（同步获取，避免异步问题）
+      let useStreamCopy = false;
+      let actualDuration = inputDuration;
+      let probeMetadata: any = null;
       
-      // 尝试获取视频时长（用于更准确的进度）
-      await new Promise((resolve) => {
+      await new Promise((resolveProbe) => {
         ffmpeg.ffprobe(tempInput, (err, metadata) => {
-          if (!err && metadata?.format?.duration) {
-            inputDuration = metadata.format.duration;
+          if (!err && metadata?.streams) {
+            probeMetadata = metadata; // 保存 metadata 供后续使用
+            const videoStream = metadata.streams.find((s: any) => s.codec_type === 'video');
+            const audioStream = metadata.streams.find((s: any) => s.codec_type === 'audio');
+            
+            // 更新实际时长
+            if (metadata.format?.duration) {
+              actualDuration = metadata.format.duration;
+            }
+            
+            // 优化：尽可能使用 stream copy
+            // 1. 如果已经是 H.264 和 AAC，直接 stream copy（最快）
+            // 2. 如果视频是 H.264，音频是 AAC 或兼容格式，也可以 stream copy
+            const videoCodec = videoStream?.codec_name?.toLowerCase();
+            const audioCodec = audioStream?.codec_name?.toLowerCase();
+            
+            const containerFormat = metadata.format?.format_name?.toLowerCase() || '';
+            
+            console.log('[MAIN] ========== INPUT FILE ANALYSIS ==========');
+            console.log('[MAIN] Container format:', containerFormat);
+            console.log('[MAIN] Video codec:', videoCodec || 'unknown');
+            console.log('[MAIN] Audio codec:', audioCodec || 'none');
+            console.log('[MAIN] Duration:', actualDuration, 's');
+            console.log('[MAIN] ==========================================');
+            
+            if (videoCodec === 'h264' && (audioCodec === 'aac' || audioCodec === 'mp3' || !audioCodec)) {
+              useStreamCopy = true;
+              console.log('[MAIN] ✅ Input is H.264 with compatible audio, using stream copy (very fast)');
+            } else {
+              console.log('[MAIN] ⚠️ Input codec:', videoCodec || 'unknown', audioCodec || 'unknown', '- will re-encode');
+              console.log('[MAIN] ⚠️ This will be slower. For fastest export, save as WebM format.');
+            }
           }
-          resolve(null);
+          resolveProbe(null);
         });
       });
-    } catch (e) {
-      console.warn('[MAIN] Failed to get input file info:', e);
-    }
-
-    // 发送初始进度
-    event.sender.send('export-progress', 5);
 
-    // Process the streamed file (tempInput) to destination (filePath)
-    // 优化的编码处理（借鉴 Cap 的编码参数）
-    if (format === 'gif') {
-      // GIF Conversion with optimized settings
+      // 现在执行编码
       await new Promise((resolve, reject) => {
-        const command = ffmpeg(tempInput)
-          .outputOptions([
-            '-vf', 'fps=15,scale=800:-1:flags=lanczos,split[s0][s1];[s0]palettegen[p];[s1][p]paletteuse',
-            '-loop', '0'
-          ])
-          .toFormat('gif');
-
-        // 改进的进度追踪：基于时间和文件大小
-        let lastProgress = 5;
-        const progressInterval = setInterval(() => {
-          if (lastProgress < 90) {
-            lastProgress += 5;
-            event.sender.send('export-progress', lastProgress);
+        const preset = getRecommendedPreset();
+        const crf = getRecommendedCRF();
+        
+        const command = ffmpeg(tempInput);
+        
+        if (useStreamCopy) {
+          // 使用 stream copy（极快，几乎瞬间完成）
+          // 即使使用 stream copy，也添加音视频同步参数以确保长时间录制时的同步
+          command
+            .outputOptions([
+              '-c', 'copy',  // 直接复制流，不重新编码
+              '-movflags', '+faststart',
+              '-async', '1',  // 音视频同步：修复长时间录制时的不同步问题
+              '-vsync', 'cfr'  // 强制恒定帧率，确保音视频同步
+            ]);
+        } else {
+          // 重新编码（优化参数 - 优先速度）
+          // 使用之前保存的 metadata
+          const videoStream = probeMetadata?.streams?.find((s: any) => s.codec_type === 'video');
+          const audioStream = probeMetadata?.streams?.find((s: any) => s.codec_type === 'audio');
+          const videoCodec = videoStream?.codec_name?.toLowerCase();
+          const audioCodec = audioStream?.codec_name?.toLowerCase();
+          
+          console.log('[MAIN] ⚠️ Re-encoding required (this will take time)');
+          console.log('[MAIN] Re-encoding with preset:', preset, 'CRF:', crf, 'Duration:', actualDuration, 's');
+          console.log('[MAIN] Input video codec:', videoCodec || 'unknown', '-> Output: H.264');
+          console.log('[MAIN] Input audio codec:', audioCodec || 'unknown', '-> Output: AAC');
+          
+          const outputOptions: string[] = [];
+          
+          // 视频编码：如果已经是 H.264，尝试 stream copy；否则重新编码
+          if (videoCodec === 'h264') {
+            outputOptions.push('-c:v', 'copy');  // 视频 stream copy
+            console.log('[MAIN] Video is H.264, using stream copy for video (faster)');
+          } else {
+            outputOptions.push(
+              '-c:v', 'libx264',
+              '-preset', preset,  // medium/slow - 最优质量
+              '-crf', crf.toString(),  // 16-20 - 接近无损质量
+              '-profile:v', 'high',  // 使用 high profile 以获得最好的质量和兼容性
+              '-level', '4.2',  // H.264 level 4.2，支持更高分辨率和比特率
+              '-pix_fmt', 'yuv420p',  // 确保兼容性
+              '-threads', '0',  // 使用所有可用线程
+              '-tune', 'film',  // 使用 film tune 以获得最佳视频质量
+              '-x264-params', 'keyint=250:min-keyint=25:scenecut=60:ref=6:bframes=6:me=umh:subme=9:merange=24:trellis=2:aq-mode=2:aq-strength=1.0'  // 最优质量参数：
+              // keyint=250: 更长的关键帧间隔（更好的压缩效率）
+              // min-keyint=25: 最小关键帧间隔
+              // scenecut=60: 更强的场景检测
+              // ref=6: 更多参考帧（提高质量）
+              // bframes=6: 更多B帧（更好的压缩）
+              // me=umh: 使用更高级的运动估计算法
+              // subme=9: 最高质量的子像素运动估计
+              // merange=24: 更大的运动搜索范围
+              // trellis=2: 启用 trellis 量化（提高质量）
+              // aq-mode=2: 自适应量化模式
+              // aq-strength=1.0: 自适应量化强度
+            );
+          }
+          
+          // 音频编码：如果已经是 AAC，尝试 stream copy；否则重新编码
+          if (audioCodec === 'aac' || audioCodec === 'mp3') {
+            outputOptions.push('-c:a', 'copy');  // 音频 stream copy
+            console.log('[MAIN] Audio is compatible, using stream copy for audio (faster)');
+          } else {
+            outputOptions.push(
+              '-c:a', 'aac',
+              '-b:a', '192k',  // 提高音频比特率到 192kbps（从 128k 提高到 192k，更高质量）
+              '-ar', '48000',  // 确保音频采样率为 48kHz，与录制时一致
+              '-ac', '2'       // 立体声，与录制时一致
+            );
           }
-        }, 500); // 每 500ms 更新一次
+          
+          outputOptions.push('-movflags', '+faststart');  // 优化流式播放
+          // 音视频同步：使用多个参数确保音视频完全同步
+          // -async 1: 音频同步到视频，自动调整音频速度以匹配视频时间戳
+          // -vsync cfr: 强制恒定帧率，确保视频帧时间戳准确
+          // -r: 设置输出帧率，与录制帧率一致
+          outputOptions.push(
+            '-async', '1',
+            '-vsync', 'cfr',
+            '-r', '30'  // 确保输出帧率恒定
+          );
+          
+          command.outputOptions(outputOptions);
+        }
+        
+        command.toFormat('mp4');
+
+        // 改进的进度追踪 - 确保总是有进度更新
+        let lastProgress = 10;
+        let startTime = Date.now();
+        let progressInterval: NodeJS.Timeout | null = null;
+        
+        // 立即发送初始进度
+        sendProgress(10);
+        
+        // 设置进度更新间隔（fallback）
+        progressInterval = setInterval(() => {
+          if (useStreamCopy) {
+            // Stream copy 很快，直接跳到 95%
+            if (lastProgress < 95) {
+              lastProgress = 95;
+              sendProgress(95);
+            }
+          } else {
+            // 基于时间估算进度（fallback）
+            const elapsed = (Date.now() - startTime) / 1000; // 秒
+            // 假设编码速度：低端设备 0.3x，中端 0.7x，高端 1.2x
+            const tier = getPerformanceTier();
+            const speedFactor = tier === 'low' ? 0.3 : tier === 'medium' ? 0.7 : 1.2;
+            const estimatedTotal = actualDuration > 0 ? actualDuration / speedFactor : Math.max(5, actualDuration || 10); // 至少 5 秒
+            const timeBasedProgress = Math.min(90, Math.max(10, (elapsed / estimatedTotal) * 100));
+            
+            if (timeBasedProgress > lastProgress) {
+              lastProgress = timeBasedProgress;
+              sendProgress(Math.round(lastProgress));
+            } else if (lastProgress < 50) {
+              // 即使没有更新，也缓慢增加（防止卡在 0）
+              lastProgress += 3;
+              sendProgress(Math.round(lastProgress));
+            }
+          }
+        }, 300); // 每 300ms 更新一次
 
         command.on('progress', (progress) => {
+          console.log('[MAIN] FFmpeg progress:', progress);
           if (progress.percent !== undefined) {
-            const percent = Math.min(95, Math.max(5, progress.percent));
+            const percent = Math.min(95, Math.max(10, progress.percent));
             lastProgress = percent;
-            event.sender.send('export-progress', percent);
-          } else if (progress.timemark && inputDuration > 0) {
+            sendProgress(Math.round(percent));
+          } else if (progress.timemark && actualDuration > 0) {
             // 基于时间计算进度
             const timeMatch = progress.timemark.match(/(\d+):(\d+):(\d+\.\d+)/);
             if (timeMatch) {
@@ -339,254 +534,83 @@ ipcMain.handle('stop-recording-stream', async (event, format) => {
               const minutes = parseInt(timeMatch[2]);
               const seconds = parseFloat(timeMatch[3]);
               const currentTime = hours * 3600 + minutes * 60 + seconds;
-              const percent = Math.min(95, Math.max(5, (currentTime / inputDuration) * 100));
+              const percent = Math.min(95, Math.max(10, (currentTime / actualDuration) * 100));
               lastProgress = percent;
-              event.sender.send('export-progress', percent);
+              sendProgress(Math.round(percent));
             }
           }
         });
 
         command
           .save(filePath)
+          .on('start', (commandLine) => {
+            console.log('[MAIN] FFmpeg command:', commandLine);
+            startTime = Date.now();
+            sendProgress(15);
+          })
           .on('end', () => {
-            clearInterval(progressInterval);
-            event.sender.send('export-progress', 100);
+            if (progressInterval) clearInterval(progressInterval);
+            sendProgress(100);
+            console.log('[MAIN] Export completed');
             resolve(null);
           })
           .on('error', (err) => {
-            clearInterval(progressInterval);
+            if (progressInterval) clearInterval(progressInterval);
+            console.error('[MAIN] FFmpeg error:', err);
             reject(err);
           });
       });
     } else {
-      // MP4 Processing with optimized encoding (借鉴 Cap)
-      // 最优方案：如果输入是 WebM 且用户选择保存为 WebM，直接复制（最快）
-      if (filePath.endsWith('.webm') && tempInput.endsWith('.webm')) {
-        console.log('[MAIN] Input and output are both WebM, directly copying (fastest)');
-        event.sender.send('export-progress', 50);
-        await fs.promises.copyFile(tempInput, filePath);
-        event.sender.send('export-progress', 100);
-      } else if (filePath.endsWith('.mp4')) {
-        // 先检查输入格式（同步获取，避免异步问题）
-        let useStreamCopy = false;
-        let actualDuration = inputDuration;
-        let probeMetadata: any = null;
-        
-        await new Promise((resolveProbe) => {
-          ffmpeg.ffprobe(tempInput, (err, metadata) => {
-            if (!err && metadata?.streams) {
-              probeMetadata = metadata; // 保存 metadata 供后续使用
-              const videoStream = metadata.streams.find((s: any) => s.codec_type === 'video');
-              const audioStream = metadata.streams.find((s: any) => s.codec_type === 'audio');
-              
-              // 更新实际时长
-              if (metadata.format?.duration) {
-                actualDuration = metadata.format.duration;
-              }
-              
-              // 优化：尽可能使用 stream copy
-              // 1. 如果已经是 H.264 和 AAC，直接 stream copy（最快）
-              // 2. 如果视频是 H.264，音频是 AAC 或兼容格式，也可以 stream copy
-              const videoCodec = videoStream?.codec_name?.toLowerCase();
-              const audioCodec = audioStream?.codec_name?.toLowerCase();
-              
-              const containerFormat = metadata.format?.format_name?.toLowerCase() || '';
-              
-              console.log('[MAIN] ========== INPUT FILE ANALYSIS ==========');
-              console.log('[MAIN] Container format:', containerFormat);
-              console.log('[MAIN] Video codec:', videoCodec || 'unknown');
-              console.log('[MAIN] Audio codec:', audioCodec || 'none');
-              console.log('[MAIN] Duration:', actualDuration, 's');
-              console.log('[MAIN] ==========================================');
-              
-              if (videoCodec === 'h264' && (audioCodec === 'aac' || audioCodec === 'mp3' || !audioCodec)) {
-                useStreamCopy = true;
-                console.log('[MAIN] ✅ Input is H.264 with compatible audio, using stream copy (very fast)');
-              } else {
-                console.log('[MAIN] ⚠️ Input codec:', videoCodec || 'unknown', audioCodec || 'unknown', '- will re-encode');
-                console.log('[MAIN] ⚠️ This will be slower. For fastest export, save as WebM format.');
-              }
-            }
-            resolveProbe(null);
-          });
-        });
+      // Just copy/move if WebM
+      sendProgress(50);
+      await fs.promises.copyFile(tempInput, filePath);
+      sendProgress(100);
+    }
+  }
+}
 
-        // 现在执行编码
-        await new Promise((resolve, reject) => {
-          const preset = getRecommendedPreset();
-          const crf = getRecommendedCRF();
-          
-          const command = ffmpeg(tempInput);
-          
-          if (useStreamCopy) {
-            // 使用 stream copy（极快，几乎瞬间完成）
-            // 即使使用 stream copy，也添加音视频同步参数以确保长时间录制时的同步
-            command
-              .outputOptions([
-                '-c', 'copy',  // 直接复制流，不重新编码
-                '-movflags', '+faststart',
-                '-async', '1',  // 音视频同步：修复长时间录制时的不同步问题
-                '-vsync', 'cfr'  // 强制恒定帧率，确保音视频同步
-              ]);
-          } else {
-            // 重新编码（优化参数 - 优先速度）
-            // 使用之前保存的 metadata
-            const videoStream = probeMetadata?.streams?.find((s: any) => s.codec_type === 'video');
-            const audioStream = probeMetadata?.streams?.find((s: any) => s.codec_type === 'audio');
-            const videoCodec = videoStream?.codec_name?.toLowerCase();
-            const audioCodec = audioStream?.codec_name?.toLowerCase();
-            
-            console.log('[MAIN] ⚠️ Re-encoding required (this will take time)');
-            console.log('[MAIN] Re-encoding with preset:', preset, 'CRF:', crf, 'Duration:', actualDuration, 's');
-            console.log('[MAIN] Input video codec:', videoCodec || 'unknown', '-> Output: H.264');
-            console.log('[MAIN] Input audio codec:', audioCodec || 'unknown', '-> Output: AAC');
-            
-            const outputOptions: string[] = [];
-            
-            // 视频编码：如果已经是 H.264，尝试 stream copy；否则重新编码
-            if (videoCodec === 'h264') {
-              outputOptions.push('-c:v', 'copy');  // 视频 stream copy
-              console.log('[MAIN] Video is H.264, using stream copy for video (faster)');
-            } else {
-              outputOptions.push(
-                '-c:v', 'libx264',
-                '-preset', preset,  // medium/slow - 最优质量
-                '-crf', crf.toString(),  // 16-20 - 接近无损质量
-                '-profile:v', 'high',  // 使用 high profile 以获得最好的质量和兼容性
-                '-level', '4.2',  // H.264 level 4.2，支持更高分辨率和比特率
-                '-pix_fmt', 'yuv420p',  // 确保兼容性
-                '-threads', '0',  // 使用所有可用线程
-                '-tune', 'film',  // 使用 film tune 以获得最佳视频质量
-                '-x264-params', 'keyint=250:min-keyint=25:scenecut=60:ref=6:bframes=6:me=umh:subme=9:merange=24:trellis=2:aq-mode=2:aq-strength=1.0'  // 最优质量参数：
-                // keyint=250: 更长的关键帧间隔（更好的压缩效率）
-                // min-keyint=25: 最小关键帧间隔
-                // scenecut=60: 更强的场景检测
-                // ref=6: 更多参考帧（提高质量）
-                // bframes=6: 更多B帧（更好的压缩）
-                // me=umh: 使用更高级的运动估计算法
-                // subme=9: 最高质量的子像素运动估计
-                // merange=24: 更大的运动搜索范围
-                // trellis=2: 启用 trellis 量化（提高质量）
-                // aq-mode=2: 自适应量化模式
-                // aq-strength=1.0: 自适应量化强度
-              );
-            }
-            
-            // 音频编码：如果已经是 AAC，尝试 stream copy；否则重新编码
-            if (audioCodec === 'aac' || audioCodec === 'mp3') {
-              outputOptions.push('-c:a', 'copy');  // 音频 stream copy
-              console.log('[MAIN] Audio is compatible, using stream copy for audio (faster)');
-            } else {
-              outputOptions.push(
-                '-c:a', 'aac',
-                '-b:a', '192k',  // 提高音频比特率到 192kbps（从 128k 提高到 192k，更高质量）
-                '-ar', '48000',  // 确保音频采样率为 48kHz，与录制时一致
-                '-ac', '2'       // 立体声，与录制时一致
-              );
-            }
-            
-            outputOptions.push('-movflags', '+faststart');  // 优化流式播放
-            // 音视频同步：使用多个参数确保音视频完全同步
-            // -async 1: 音频同步到视频，自动调整音频速度以匹配视频时间戳
-            // -vsync cfr: 强制恒定帧率，确保视频帧时间戳准确
-            // -r: 设置输出帧率，与录制帧率一致
-            outputOptions.push(
-              '-async', '1',
-              '-vsync', 'cfr',
-              '-r', '30'  // 确保输出帧率恒定
-            );
-            
-            command.outputOptions(outputOptions);
-          }
-          
-          command.toFormat('mp4');
+ipcMain.handle('stop-recording-stream', async (event, format) => {
+  console.log('[MAIN] Stopping recording stream...');
 
-          // 改进的进度追踪 - 确保总是有进度更新
-          let lastProgress = 10;
-          let startTime = Date.now();
-          let progressInterval: NodeJS.Timeout | null = null;
-          
-          // 立即发送初始进度
-          event.sender.send('export-progress', 10);
-          
-          // 设置进度更新间隔（fallback）
-          progressInterval = setInterval(() => {
-            if (useStreamCopy) {
-              // Stream copy 很快，直接跳到 95%
-              if (lastProgress < 95) {
-                lastProgress = 95;
-                event.sender.send('export-progress', 95);
-              }
-            } else {
-              // 基于时间估算进度（fallback）
-              const elapsed = (Date.now() - startTime) / 1000; // 秒
-              // 假设编码速度：低端设备 0.3x，中端 0.7x，高端 1.2x
-              const tier = getPerformanceTier();
-              const speedFactor = tier === 'low' ? 0.3 : tier === 'medium' ? 0.7 : 1.2;
-              const estimatedTotal = actualDuration > 0 ? actualDuration / speedFactor : Math.max(5, actualDuration || 10); // 至少 5 秒
-              const timeBasedProgress = Math.min(90, Math.max(10, (elapsed / estimatedTotal) * 100));
-              
-              if (timeBasedProgress > lastProgress) {
-                lastProgress = timeBasedProgress;
-                event.sender.send('export-progress', Math.round(lastProgress));
-              } else if (lastProgress < 50) {
-                // 即使没有更新，也缓慢增加（防止卡在 0）
-                lastProgress += 3;
-                event.sender.send('export-progress', Math.round(lastProgress));
-              }
-            }
-          }, 300); // 每 300ms 更新一次
+  if (!recordingWriteStream) {
+    return { success: false, error: 'No active stream' };
+  }
 
-          command.on('progress', (progress) => {
-            console.log('[MAIN] FFmpeg progress:', progress);
-            if (progress.percent !== undefined) {
-              const percent = Math.min(95, Math.max(10, progress.percent));
-              lastProgress = percent;
-              event.sender.send('export-progress', Math.round(percent));
-            } else if (progress.timemark && actualDuration > 0) {
-              // 基于时间计算进度
-              const timeMatch = progress.timemark.match(/(\d+):(\d+):(\d+\.\d+)/);
-              if (timeMatch) {
-                const hours = parseInt(timeMatch[1]);
-                const minutes = parseInt(timeMatch[2]);
-                const seconds = parseFloat(timeMatch[3]);
-                const currentTime = hours * 3600 + minutes * 60 + seconds;
-                const percent = Math.min(95, Math.max(10, (currentTime / actualDuration) * 100));
-                lastProgress = percent;
-                event.sender.send('export-progress', Math.round(percent));
-              }
-            }
-          });
+  // Close the stream safely
+  await new Promise((resolve) => {
+    recordingWriteStream.end(resolve);
+  });
+  recordingWriteStream = null;
 
-          command
-            .save(filePath)
-            .on('start', (commandLine) => {
-              console.log('[MAIN] FFmpeg command:', commandLine);
-              startTime = Date.now();
-              event.sender.send('export-progress', 15);
-            })
-            .on('end', () => {
-              if (progressInterval) clearInterval(progressInterval);
-              event.sender.send('export-progress', 100);
-              console.log('[MAIN] Export completed');
-              resolve(null);
-            })
-            .on('error', (err) => {
-              if (progressInterval) clearInterval(progressInterval);
-              console.error('[MAIN] FFmpeg error:', err);
-              reject(err);
-            });
-        });
-      } else {
-        // Just copy/move if WebM
-        event.sender.send('export-progress', 50);
-        await fs.promises.copyFile(tempInput, filePath);
-        event.sender.send('export-progress', 100);
-      }
-    }
+  const tempInput = recordingTempPath;
+  if (!tempInput) return { success: false, error: 'No temp file path' };
 
-    // Cleanup temp
-    await unlink(tempInput);
+  // 开启快速保存时直接写入设置的目录，否则弹出保存对话框
+  const { autoSave } = getSettings();
+  const { canceled, filePath } = autoSave.enabled
+    ? { canceled: false, filePath: resolveQuickSavePath(autoSave, { ext: format }) }
+    : await dialog.showSaveDialog({
+      filters: [{ name: format.toUpperCase(), extensions: [format] }],
+      defaultPath: `recording-${Date.now()}.${format}`
+    });
+
+  if (canceled || !filePath) {
+    // Cleanup if cancelled
+    try { await unlink(tempInput); } catch (e) { }
+    return { success: false, canceled: true };
+  }
+
+  try {
+    await exportRecording(tempInput, filePath, format, (progress) => event.sender.send('export-progress', progress));
+
+    // 源文件移入历史库（保留用于重新导出），失败时再删除临时文件
+    try {
+      await addRecording({ id: Date.now().toString(), sourcePath: tempInput, exportedPath: filePath });
+      applyRetention(getSettings().historyRetention);
+    } catch (e) {
+      console.error('[MAIN] Failed to add recording to history:', e);
+      await unlink(tempInput).catch(() => {});
+    }
     return { success: true, path: filePath };
 
   } catch (err) {
@@ -600,6 +624,7 @@ let mainWindow: typeof BrowserWindow.prototype | null = null;
 let selectorWindow: typeof BrowserWindow.prototype | null = null;
 let previewWindow: typeof BrowserWindow.prototype | null = null;
 let recordingOverlayWindow: typeof BrowserWindow.prototype | null = null;
+let countdownWindow: typeof BrowserWindow.prototype | null = null;
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
@@ -748,8 +773,10 @@ async function checkScreenRecordingPermission() {
   }
 }
 
-function createSelectorWindow() {
-  console.log('[Main] createSelectorWindow called');
+// mode: area 为区域选择，window 为窗口选择器（复用同一个全屏透明窗口）
+// frozen: 选择器背景显示冻结的屏幕画面（由 get-frozen-screen 提供），而不是实时桌面
+function createSelectorWindow(mode: 'area' | 'window' = 'area', frozen = false) {
+  console.log('[Main] createSelectorWindow called, mode:', mode);
   
   // 最小化主窗口，让选择器窗口显示在最前面
   if (mainWindow && !mainWindow.isMinimized()) {
@@ -757,16 +784,20 @@ function createSelectorWindow() {
     mainWindow.minimize();
   }
   
-  const displays = electronScreen.getAllDisplays();
   const primaryDisplay = electronScreen.getPrimaryDisplay();
-  const { width, height } = primaryDisplay.workAreaSize;
-  console.log('[Main] Display size:', width, 'x', height);
+  // 冻结画面覆盖所有显示器（captureArea 会冻结每一块屏幕）；实时选择仍只覆盖主显示器的 workArea，
+  // 录屏按相对于该区域的坐标处理选区
+  const { x, y, width, height } = frozen
+    ? unionBounds(electronScreen.getAllDisplays().map((d: any) => d.bounds))
+    : { ...primaryDisplay.workAreaSize, x: primaryDisplay.bounds.x, y: primaryDisplay.bounds.y };
+  console.log('[Main] Selector bounds:', x, y, width, height);
 
   selectorWindow = new BrowserWindow({
-    width: width,
-    height: height,
-    x: primaryDisplay.bounds.x,
-    y: primaryDisplay.bounds.y,
+    width,
+    height,
+    x,
+    y,
+    enableLargerThanScreen: frozen,
     frame: false,
     transparent: true,  // 透明窗口，让系统/其它应用内容可见
     backgroundColor: '#00000000',
@@ -784,10 +815,12 @@ function createSelectorWindow() {
   const url = isDev ? 'http://localhost:3000/selector.html' : path.join(__dirname, '../dist/selector.html');
   console.log('[Main] Loading selector from:', url);
 
+  const query: Record<string, string> = { mode };
+  if (frozen) query.frozen = '1';
   if (isDev) {
-    selectorWindow.loadURL(url);
+    selectorWindow.loadURL(`${url}?${new URLSearchParams(query).toString()}`);
   } else {
-    selectorWindow.loadFile(url);
+    selectorWindow.loadFile(url, { query });
   }
 
   selectorWindow.webContents.on('did-finish-load', () => {
@@ -843,6 +876,7 @@ function createPreviewWindow(imagePath: string) {
 app.whenReady().then(() => {
   // 初始化日志系统（每日一个日志文件，位于 userData/logs）
   initLogger();
+  handleMediaProtocol();
 
   createMainWindow();
 
@@ -885,20 +919,28 @@ app.whenReady().then(() => {
 
   // Register global shortcuts
   // CommandOrControl automatically uses Cmd on macOS and Ctrl on Windows/Linux
+  // 截图倒计时取自设置（captureDelay），用于截取菜单、tooltip 等悬停状态
   globalShortcut.register('CommandOrControl+Shift+3', async () => {
-    const image = await captureFullScreen();
+    await showCountdown(getSettings().captureDelay);
+    const image = await captureFullScreen('cursor');
     mainWindow?.webContents.send('screenshot-captured', image);
   });
 
   globalShortcut.register('CommandOrControl+Shift+4', async () => {
-    const image = await captureArea();
+    const image = await captureArea(getSettings().captureDelay);
     if (image) mainWindow?.webContents.send('screenshot-captured', image);
   });
 
-  globalShortcut.register('CommandOrControl+Shift+5', async () => {
-    const image = await captureWindow();
-    if (image) mainWindow?.webContents.send('screenshot-captured', image);
+  // 窗口截图需要在渲染进程中按原生分辨率抓取窗口帧，交给渲染进程处理
+  globalShortcut.register('CommandOrControl+Shift+5', () => {
+    mainWindow?.webContents.send('global-shortcut', 'capture-window');
+  });
+
+  // 截取上次区域（跳过区域选择器），同样交给渲染进程走 CaptureService
+  globalShortcut.register('CommandOrControl+Shift+6', () => {
+    mainWindow?.webContents.send('global-shortcut', 'capture-previous-region');
   });
+  registerRegionShortcuts();
 
   // macOS specific: handle dock icon click
   app.on('activate', () => {
@@ -936,16 +978,158 @@ app.on('will-quit', () => {
 });
 
 // IPC Handlers
-ipcMain.handle('capture-fullscreen', async () => {
-  return await captureFullScreen();
+ipcMain.handle('capture-fullscreen', async (_event: any, mode?: 'primary' | 'cursor' | 'all') => {
+  return await captureFullScreen(mode);
+});
+
+ipcMain.handle('capture-area', async (_event: any, delay?: number) => {
+  return await captureArea(delay);
+});
+
+ipcMain.handle('show-countdown', async (_event: any, seconds: number) => {
+  await showCountdown(seconds);
+});
+
+ipcMain.handle('get-settings', () => {
+  return getSettings();
+});
+
+ipcMain.handle('update-settings', (_event: any, patch: unknown) => {
+  // 渲染进程传入的内容会直接写入 settings.json，只接受已知字段
+  const valid = validateSettingsPatch(patch);
+  const settings = updateSettings(valid);
+  if ('savedRegions' in valid) {
+    registerRegionShortcuts();
+  }
+  if ('historyRetention' in valid) {
+    applyRetention(settings.historyRetention);
+  }
+  return settings;
+});
+
+// 截图历史库：添加后按保留策略清理，返回新记录和被清理的 id
+ipcMain.handle('history-list', () => listHistory());
+ipcMain.handle('history-stats', () => getHistoryStats());
+ipcMain.handle('history-add', (_event: any, request: any) => {
+  const entry = addHistory(request);
+  return { entry, removed: applyRetention(getSettings().historyRetention) };
+});
+ipcMain.handle('history-get-image', (_event: any, id: string) => getHistoryImage(id));
+ipcMain.handle('history-get-project', (_event: any, id: string) => getHistoryProject(id));
+ipcMain.handle('history-set-project', (_event: any, id: string, project: any) => setHistoryProject(id, project));
+ipcMain.handle('history-update', (_event: any, id: string, patch: unknown) => updateHistory(id, validateHistoryPatch(patch)));
+ipcMain.handle('history-delete', (_event: any, id: string) => deleteHistory(id));
+// 从历史库中保留的录屏源文件重新导出为其他格式
+ipcMain.handle('history-export-recording', async (event: any, id: string, format: 'mp4' | 'gif' | 'webm') => {
+  const source = getRecordingSource(id);
+  if (!source || !fs.existsSync(source)) {
+    return { success: false, error: 'Recording source not found' };
+  }
+
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    filters: [{ name: format.toUpperCase(), extensions: [format] }],
+    defaultPath: `recording-${Date.now()}.${format}`,
+  });
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    await exportRecording(source, result.filePath, format, (progress) => event.sender.send('export-progress', progress));
+    return { success: true, path: result.filePath };
+  } catch (err) {
+    console.error('Re-export recording error:', err);
+    return { success: false, error: err.message };
+  }
+});
+// 批量导出到文件夹
+ipcMain.handle('history-export-files', async (_event: any, ids: string[]) => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Export to Folder',
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+  try {
+    return { success: true, count: exportFiles(ids, result.filePaths[0]), path: result.filePaths[0] };
+  } catch (err) {
+    console.error('Export files error:', err);
+    return { success: false, error: String(err) };
+  }
+});
+
+// 历史记录归档（zip）：ids 为空时导出全部
+ipcMain.handle('history-export-archive', async (_event: any, ids?: string[]) => {
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    title: 'Export History',
+    defaultPath: `cleansnap-history-${new Date().toISOString().slice(0, 10)}.zip`,
+    filters: [{ name: 'Zip Archives', extensions: ['zip'] }],
+  });
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+  try {
+    return { success: true, count: await exportArchive(result.filePath, ids), path: result.filePath };
+  } catch (err) {
+    console.error('Export archive error:', err);
+    return { success: false, error: String(err) };
+  }
 });
 
-ipcMain.handle('capture-area', async () => {
-  return await captureArea();
+ipcMain.handle('history-import-archive', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Import History',
+    filters: [{ name: 'Zip Archives', extensions: ['zip'] }],
+    properties: ['openFile'],
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+  try {
+    const count = await importArchive(result.filePaths[0]);
+    applyRetention(getSettings().historyRetention);
+    return { success: true, count };
+  } catch (err) {
+    console.error('Import archive error:', err);
+    return { success: false, error: String(err) };
+  }
 });
 
-ipcMain.handle('capture-window', async () => {
-  return await captureWindow();
+ipcMain.handle('history-migrate', (_event: any, entries: any[]) => {
+  const imported = migrateHistory(entries || []);
+  applyRetention(getSettings().historyRetention);
+  return imported;
+});
+
+// 已保存区域的自定义快捷键：设置变化时整体重新注册
+let regionShortcuts: string[] = [];
+
+function registerRegionShortcuts() {
+  for (const accelerator of regionShortcuts) {
+    globalShortcut.unregister(accelerator);
+  }
+  regionShortcuts = [];
+
+  for (const region of getSettings().savedRegions) {
+    if (!region.shortcut) continue;
+    try {
+      const ok = globalShortcut.register(region.shortcut, () => {
+        mainWindow?.webContents.send('global-shortcut', `capture-region:${region.id}`);
+      });
+      if (ok) {
+        regionShortcuts.push(region.shortcut);
+      } else {
+        console.warn('[Main] Region shortcut already in use:', region.shortcut);
+      }
+    } catch (e) {
+      console.warn('[Main] Invalid region shortcut:', region.shortcut, e);
+    }
+  }
+}
+
+ipcMain.handle('pick-window', async () => {
+  return await pickWindowSource();
 });
 
 ipcMain.handle('capture-selection', async (_event: any, bounds: { x: number; y: number; width: number; height: number }) => {
@@ -1032,18 +1216,34 @@ ipcMain.handle('get-desktop-sources', async () => {
   }
 });
 
-ipcMain.handle('save-image', async (_event: any, imageData: string, filename?: string) => {
+// data URL 转为 PNG 字节（编码器以 PNG 为输入）
+function dataUrlToPng(imageData: string) {
+  const base64Data = imageData.replace(/^data:image\/\w+;base64,/, '');
+  const buffer = Buffer.from(base64Data, 'base64');
+  return imageData.startsWith('data:image/png') ? buffer : nativeImage.createFromBuffer(buffer).toPNG();
+}
+
+// options 未指定的字段沿用上次保存时的设置；最终格式以对话框中选择的扩展名为准
+ipcMain.handle('save-image', async (_event: any, imageData: string, filename?: string, options?: unknown) => {
   try {
+    // 渲染进程传入的参数按设置的规则检查后才用于编码并保存到设置中
+    const preferred = validateImageEncode(options ?? {}) ?? getSettings().imageEncode;
+    // settings.json 中的格式也可能不合法，未知格式回退到 PNG
+    const preferredFormat: ImageFormat = isImageFormat(preferred.format) ? preferred.format : 'png';
+    const preferredExt = IMAGE_EXTENSIONS[preferredFormat][0];
     const timestamp = Date.now();
-    const defaultFilename = filename || `cleansnap-${timestamp}.png`;
+    const defaultFilename = filename
+      ? filename.replace(/\.[^.]+$/, '') + `.${preferredExt}`
+      : `cleansnap-${timestamp}.${preferredExt}`;
+
+    const formats = (Object.keys(IMAGE_EXTENSIONS) as ImageFormat[]).sort((a, b) => (a === preferredFormat ? -1 : b === preferredFormat ? 1 : 0));
 
     // Show save dialog
     const result = await dialog.showSaveDialog(mainWindow!, {
       title: 'Save Image',
       defaultPath: defaultFilename,
       filters: [
-        { name: 'PNG Images', extensions: ['png'] },
-        { name: 'JPEG Images', extensions: ['jpg', 'jpeg'] },
+        ...formats.map((format) => ({ name: IMAGE_FORMAT_NAMES[format], extensions: IMAGE_EXTENSIONS[format] })),
         { name: 'All Files', extensions: ['*'] },
       ],
       buttonLabel: 'Save',
@@ -1054,23 +1254,17 @@ ipcMain.handle('save-image', async (_event: any, imageData: string, filename?: s
       return { success: false, canceled: true };
     }
 
-    const filePath = result.filePath;
-
-    // Determine file format from extension
-    const ext = path.extname(filePath).toLowerCase();
-    let format = 'png';
-    if (ext === '.jpg' || ext === '.jpeg') {
-      format = 'jpeg';
+    // Determine file format from extension（无扩展名时使用首选格式并补上扩展名）
+    let filePath = result.filePath;
+    let format = formatFromExtension(filePath);
+    if (!format) {
+      format = preferredFormat;
+      filePath = `${filePath}.${preferredExt}`;
     }
 
-    // Remove data URL prefix
-    const base64Data = imageData.replace(/^data:image\/\w+;base64,/, '');
-    const buffer = Buffer.from(base64Data, 'base64');
-
-    // If format is JPEG, we need to convert from PNG to JPEG
-    // For now, we'll save as PNG regardless of extension
-    // In a full implementation, you'd use a library like sharp to convert formats
-    await writeFile(filePath, buffer);
+    const encodeOptions = { ...preferred, format };
+    await writeFile(filePath, await encodeImage(dataUrlToPng(imageData), encodeOptions));
+    updateSettings({ imageEncode: encodeOptions });
 
     return { success: true, path: filePath };
   } catch (error) {
@@ -1079,6 +1273,75 @@ ipcMain.handle('save-image', async (_event: any, imageData: string, filename?: s
   }
 });
 
+// 快速保存：按设置中的目录/模板和上次使用的图片格式直接保存，不弹对话框
+ipcMain.handle('quick-save-image', async (_event: any, imageData: string, meta?: { app?: string }) => {
+  try {
+    const { autoSave, imageEncode: saved } = getSettings();
+    const format: ImageFormat = isImageFormat(saved.format) ? saved.format : 'png';
+    const imageEncode = { ...saved, format };
+    const filePath = resolveQuickSavePath(autoSave, {
+      ext: IMAGE_EXTENSIONS[format][0],
+      app: meta?.app,
+    });
+
+    await writeFile(filePath, await encodeImage(dataUrlToPng(imageData), imageEncode));
+    return { success: true, path: filePath };
+  } catch (error) {
+    console.error('Quick save error:', error);
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('choose-folder', async (_event: any, defaultPath?: string) => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    defaultPath,
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  return result.canceled ? null : result.filePaths[0];
+});
+
+// 在系统文件管理器中定位文件（自动保存完成后的提示）
+ipcMain.handle('show-item-in-folder', (_event: any, filePath: string) => {
+  if (typeof filePath === 'string' && fs.existsSync(filePath)) {
+    shell.showItemInFolder(filePath);
+  }
+});
+
+// 项目文件（.cleansnap）：内容由渲染进程序列化，这里只负责选择路径和读写
+ipcMain.handle('save-project', async (_event: any, content: string, filename?: string) => {
+  try {
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      title: 'Save Project',
+      defaultPath: (filename || `cleansnap-${Date.now()}`).replace(/\.[^.]+$/, '') + '.cleansnap',
+      filters: [{ name: 'CleanSnap Projects', extensions: ['cleansnap'] }],
+      buttonLabel: 'Save',
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    const filePath = result.filePath.endsWith('.cleansnap') ? result.filePath : `${result.filePath}.cleansnap`;
+    await writeFile(filePath, content, 'utf-8');
+    return { success: true, path: filePath };
+  } catch (error) {
+    console.error('Save project error:', error);
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('open-project', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Open Project',
+    filters: [{ name: 'CleanSnap Projects', extensions: ['cleansnap'] }],
+    properties: ['openFile'],
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+
+  const filePath = result.filePaths[0];
+  return { path: filePath, content: await readFile(filePath, 'utf-8') };
+});
+
 ipcMain.handle('copy-to-clipboard', async (_event: any, imageData: string) => {
   try {
     const base64Data = imageData.replace(/^data:image\/\w+;base64,/, '');
@@ -1115,6 +1378,19 @@ ipcMain.on('minimize-window', () => {
   mainWindow?.minimize();
 });
 
+// 定时连拍期间主窗口不能出现在截图中：最小化并开启内容保护（用户中途还原窗口时仍被排除），结束后恢复
+ipcMain.handle('exclude-from-capture', async (_event: any, exclude: boolean) => {
+  if (!mainWindow) return;
+  mainWindow.setContentProtection(!!exclude);
+  if (exclude && mainWindow.isVisible() && !mainWindow.isMinimized()) {
+    mainWindow.minimize();
+    // 等待最小化动画结束，与 captureArea 相同
+    await new Promise((resolve) => setTimeout(resolve, 300));
+  } else if (!exclude && mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+});
+
 ipcMain.on('create-area-selector', () => {
   console.log('[Main] create-area-selector called');
   if (selectorWindow) {
@@ -1128,6 +1404,10 @@ ipcMain.on('create-area-selector', () => {
 
 ipcMain.on('area-selected', (event, bounds) => {
   console.log('[Main] area-selected received:', bounds);
+  if (pendingAreaCapture) {
+    finishAreaCapture(bounds);
+    return;
+  }
   // 先关闭选择器窗口，确保不会录制到窗口UI
   if (selectorWindow) {
     const windowToClose = selectorWindow;
@@ -1164,6 +1444,10 @@ ipcMain.on('area-selected', (event, bounds) => {
 
 ipcMain.on('cancel-area-selection', () => {
   console.log('[Main] cancel-area-selection called');
+  if (pendingAreaCapture) {
+    finishAreaCapture(null);
+    return;
+  }
   if (selectorWindow) {
     selectorWindow.close();
     selectorWindow = null;
@@ -1287,39 +1571,206 @@ ipcMain.handle('hide-recording-overlay', () => {
   }
 });
 
-async function captureFullScreen(): Promise<string> {
-  const primaryDisplay = electronScreen.getPrimaryDisplay();
-  const { width, height } = primaryDisplay.size;
-  return await captureSelection({
-    x: 0,
-    y: 0,
-    width,
-    height,
+// primary: 主显示器；cursor: 鼠标所在显示器；all: 所有显示器拼接
+async function captureFullScreen(mode: 'primary' | 'cursor' | 'all' = 'primary'): Promise<string> {
+  let bounds: CaptureBounds;
+  if (mode === 'all') {
+    bounds = unionBounds(electronScreen.getAllDisplays().map((d: any) => d.bounds));
+  } else if (mode === 'cursor') {
+    bounds = electronScreen.getDisplayNearestPoint(electronScreen.getCursorScreenPoint()).bounds;
+  } else {
+    bounds = electronScreen.getPrimaryDisplay().bounds;
+  }
+  return await captureSelection(bounds);
+}
+
+// 截图前的倒计时浮窗：置顶、不可交互，并开启内容保护使其不会出现在截图中
+// 倒计时结束后关闭窗口并稍等片刻，确保合成器已移除该窗口
+async function showCountdown(seconds: number): Promise<void> {
+  if (!seconds || seconds <= 0) return;
+
+  if (countdownWindow) {
+    countdownWindow.close();
+    countdownWindow = null;
+  }
+
+  const display = electronScreen.getDisplayNearestPoint(electronScreen.getCursorScreenPoint());
+  const size = 120;
+
+  countdownWindow = new BrowserWindow({
+    width: size,
+    height: size,
+    x: Math.round(display.bounds.x + (display.bounds.width - size) / 2),
+    y: Math.round(display.bounds.y + display.bounds.height / 6),
+    frame: false,
+    transparent: true,
+    backgroundColor: '#00000000',
+    alwaysOnTop: true,
+    skipTaskbar: true,
+    resizable: false,
+    movable: false,
+    focusable: false,
+    hasShadow: false,
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+    },
+  });
+  countdownWindow.setAlwaysOnTop(true, 'screen-saver');
+  countdownWindow.setIgnoreMouseEvents(true);
+  countdownWindow.setContentProtection(true);
+  countdownWindow.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
+  countdownWindow.on('closed', () => {
+    countdownWindow = null;
   });
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <style>
+          html, body { margin: 0; height: 100%; background: transparent; overflow: hidden; }
+          .count {
+            width: 100%; height: 100%; border-radius: 50%;
+            display: flex; align-items: center; justify-content: center;
+            background: rgba(15, 23, 42, 0.85); color: #fff;
+            font: 600 56px -apple-system, 'Segoe UI', sans-serif;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="count" id="count">${seconds}</div>
+        <script>
+          let remaining = ${seconds};
+          setInterval(() => {
+            remaining = Math.max(1, remaining - 1);
+            document.getElementById('count').textContent = String(remaining);
+          }, 1000);
+        </script>
+      </body>
+    </html>
+  `;
+  countdownWindow.loadURL('data:text/html;charset=UTF-8,' + encodeURIComponent(html));
+  countdownWindow.showInactive();
+
+  await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+  if (countdownWindow) {
+    countdownWindow.close();
+    countdownWindow = null;
+  }
+  await new Promise((resolve) => setTimeout(resolve, 150));
 }
 
-async function captureWindow(): Promise<string> {
-  // For window capture, we'll use area selection
-  // In a full implementation, you'd enumerate windows
-  return await captureArea();
+// 窗口选择器的结果回调（同一时间只允许一个选择器）
+let pendingWindowPick: ((source: { id: string; name: string } | null) => void) | null = null;
+
+function finishWindowPick(source: { id: string; name: string } | null) {
+  const resolve = pendingWindowPick;
+  pendingWindowPick = null;
+  if (selectorWindow) {
+    const windowToClose = selectorWindow;
+    selectorWindow = null;
+    windowToClose.close();
+  }
+  if (mainWindow && mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+  resolve?.(source);
 }
 
-async function captureArea(): Promise<string> {
+// 打开窗口选择器，返回用户选中的窗口源（取消时为 null）
+async function pickWindowSource(): Promise<{ id: string; name: string } | null> {
+  if (pendingWindowPick) {
+    selectorWindow?.focus();
+    return null;
+  }
   return new Promise((resolve) => {
-    createSelectorWindow();
-
-    selectorWindow?.webContents.once('ipc-message', (_event: any, channel: string, bounds: any) => {
-      if (channel === 'selection-complete') {
-        selectorWindow?.close();
-        captureSelection(bounds).then(resolve);
-      } else if (channel === 'selection-cancelled') {
-        selectorWindow?.close();
-        resolve('');
-      }
+    pendingWindowPick = resolve;
+    createSelectorWindow('window');
+    selectorWindow?.once('closed', () => {
+      if (pendingWindowPick === resolve) finishWindowPick(null);
     });
   });
 }
 
+ipcMain.on('window-selected', (_event: any, source: { id: string; name: string } | null) => {
+  console.log('[Main] window-selected received:', source?.name);
+  finishWindowPick(source);
+});
+
+// 冻结的屏幕画面：区域截图先抓取所有显示器，选择器显示该画面，最终从中裁剪
+let frozenScreen: { snapshots: Map<number, any>; displays: any[] } | null = null;
+// 区域截图的结果回调（与录屏/滚动截图使用的 area-selection-result 分开）
+let pendingAreaCapture: ((bounds: CaptureBounds | null) => void) | null = null;
+
+function finishAreaCapture(bounds: CaptureBounds | null) {
+  const resolve = pendingAreaCapture;
+  pendingAreaCapture = null;
+  // 选择器坐标相对于窗口内容区域，换算为全局屏幕坐标
+  const origin = selectorWindow?.getContentBounds() || { x: 0, y: 0 };
+  if (selectorWindow) {
+    const windowToClose = selectorWindow;
+    selectorWindow = null;
+    windowToClose.close();
+  }
+  if (mainWindow && mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+  resolve?.(bounds ? { ...bounds, x: bounds.x + origin.x, y: bounds.y + origin.y } : null);
+}
+
+async function captureArea(delay = 0): Promise<string> {
+  if (pendingAreaCapture) {
+    selectorWindow?.focus();
+    return '';
+  }
+
+  // 先倒计时再冻结，选择时看到的就是最终截取的内容
+  await showCountdown(delay);
+  if (mainWindow && mainWindow.isVisible() && !mainWindow.isMinimized()) {
+    mainWindow.minimize();
+    // 等待最小化动画结束，避免主窗口出现在冻结画面中
+    await new Promise((resolve) => setTimeout(resolve, 300));
+  }
+
+  const displays = electronScreen.getAllDisplays();
+  const snapshots = await captureDisplays(displays);
+  frozenScreen = { snapshots, displays };
+
+  try {
+    const bounds = await new Promise<CaptureBounds | null>((resolve) => {
+      pendingAreaCapture = resolve;
+      createSelectorWindow('area', true);
+      selectorWindow?.once('closed', () => {
+        if (pendingAreaCapture === resolve) finishAreaCapture(null);
+      });
+    });
+    if (!bounds) return '';
+    updateSettings({ lastRegion: bounds });
+    return composeSelection(bounds, displays, snapshots);
+  } finally {
+    frozenScreen = null;
+  }
+}
+
+// 选择器窗口获取冻结画面：按窗口内容区域裁剪，保持原生分辨率（放大镜需要真实像素）
+ipcMain.handle('get-frozen-screen', (event: any) => {
+  const win = BrowserWindow.fromWebContents(event.sender);
+  if (!frozenScreen || !win) return null;
+  const bounds = win.getContentBounds();
+  try {
+    return {
+      imageData: composeSelection(bounds, frozenScreen.displays, frozenScreen.snapshots),
+      bounds,
+    };
+  } catch (error) {
+    console.error('[Main] Failed to prepare frozen screen:', error);
+    return null;
+  }
+});
+
 // Update Check Handlers
 ipcMain.handle('check-for-updates', async () => {
   try {
@@ -1459,58 +1910,134 @@ ipcMain.handle('recheck-screen-recording-permission', async () => {
   return await checkScreenRecordingPermission();
 });
 
-async function captureSelection(bounds: { x: number; y: number; width: number; height: number }): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      // Use desktopCapturer API for screen capture
-      const { desktopCapturer } = electron;
-
-      desktopCapturer.getSources({
-        types: ['screen'],
-        thumbnailSize: { width: 1920, height: 1080 }
-      }).then(async (sources: any[]) => {
-        if (sources.length === 0) {
-          reject(new Error('No screen sources available'));
-          return;
-        }
 
-        // Find the primary display source
-        const primarySource = sources.find((s: any) => s.id.startsWith('screen:0')) || sources[0];
+type CaptureBounds = { x: number; y: number; width: number; height: number };
 
-        // Get the thumbnail (full screen)
-        const thumbnail = primarySource.thumbnail;
+function intersectBounds(a: CaptureBounds, b: CaptureBounds): CaptureBounds | null {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  if (right <= x || bottom <= y) return null;
+  return { x, y, width: right - x, height: bottom - y };
+}
 
-        // Create native image from thumbnail
-        const fullImage = nativeImage.createFromDataURL(thumbnail.toDataURL());
+function unionBounds(rects: CaptureBounds[]): CaptureBounds {
+  const x = Math.min(...rects.map((r) => r.x));
+  const y = Math.min(...rects.map((r) => r.y));
+  const right = Math.max(...rects.map((r) => r.x + r.width));
+  const bottom = Math.max(...rects.map((r) => r.y + r.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
 
-        // Get primary display bounds
-        const primaryDisplay = electronScreen.getPrimaryDisplay();
-        const primaryBounds = primaryDisplay.bounds;
+// 按显示器抓取原生分辨率的整屏图像（Retina/4K 下按 scaleFactor 请求，避免被缩小变糊）
+async function captureDisplays(displays: any[]): Promise<Map<number, any>> {
+  const { desktopCapturer } = electron;
+  const allDisplays = electronScreen.getAllDisplays();
 
-        // Calculate crop area relative to primary display
-        const cropX = Math.max(0, bounds.x - primaryBounds.x);
-        const cropY = Math.max(0, bounds.y - primaryBounds.y);
-        const cropWidth = Math.min(bounds.width, primaryBounds.width - cropX);
-        const cropHeight = Math.min(bounds.height, primaryBounds.height - cropY);
+  // thumbnailSize 对所有源统一生效，取各显示器物理像素的最大值
+  const maxWidth = Math.max(...displays.map((d: any) => Math.round(d.bounds.width * d.scaleFactor)));
+  const maxHeight = Math.max(...displays.map((d: any) => Math.round(d.bounds.height * d.scaleFactor)));
 
-        // Crop the image
-        const croppedImage = fullImage.crop({
-          x: cropX,
-          y: cropY,
-          width: cropWidth,
-          height: cropHeight,
-        });
+  const sources = await desktopCapturer.getSources({
+    types: ['screen'],
+    thumbnailSize: { width: maxWidth, height: maxHeight },
+  });
 
-        const dataUrl = `data:image/png;base64,${croppedImage.toPNG().toString('base64')}`;
-        resolve(dataUrl);
-      }).catch((error: any) => {
-        console.error('Desktop capturer error:', error);
-        reject(error);
-      });
-    } catch (error) {
-      console.error('Capture selection error:', error);
-      reject(error);
+  if (sources.length === 0) {
+    throw new Error('No screen sources available');
+  }
+
+  const snapshots = new Map<number, any>();
+  for (const display of displays) {
+    // display_id 在部分 Linux 环境下为空，退回到按显示器顺序匹配
+    const source =
+      sources.find((s: any) => s.display_id && s.display_id === String(display.id)) ||
+      sources[allDisplays.findIndex((d: any) => d.id === display.id)] ||
+      sources[0];
+    snapshots.set(display.id, source.thumbnail);
+  }
+  return snapshots;
+}
+
+// bounds 为全局屏幕坐标（DIP），可跨越多个显示器
+async function captureSelection(bounds: CaptureBounds): Promise<string> {
+  try {
+    const displays = electronScreen
+      .getAllDisplays()
+      .filter((d: any) => intersectBounds(bounds, d.bounds));
+
+    if (displays.length === 0) {
+      throw new Error('Selection does not intersect any display');
     }
-  });
+
+    const snapshots = await captureDisplays(displays);
+    return composeSelection(bounds, displays, snapshots);
+  } catch (error) {
+    console.error('Capture selection error:', error);
+    throw error;
+  }
 }
 
+// 从各显示器的整屏图像中裁剪出 bounds 区域并拼接（displays 需与 bounds 相交）
+function composeSelection(bounds: CaptureBounds, displays: any[], snapshots: Map<number, any>): string {
+  displays = displays.filter((d: any) => intersectBounds(bounds, d.bounds) && snapshots.has(d.id));
+  if (displays.length === 0) {
+    throw new Error('Selection does not intersect any display');
+  }
+
+  // 输出按相交显示器中最高的 scaleFactor 渲染，低倍屏区域会被放大对齐
+  const outputScale = Math.max(...displays.map((d: any) => d.scaleFactor));
+  const outputWidth = Math.max(1, Math.round(bounds.width * outputScale));
+  const outputHeight = Math.max(1, Math.round(bounds.height * outputScale));
+
+  const pieces = displays.map((display: any) => {
+    const region = intersectBounds(bounds, display.bounds)!;
+    const thumbnail = snapshots.get(display.id);
+    const thumbSize = thumbnail.getSize();
+    // 缩略图可能因宽高比不同而小于物理尺寸，按实际比例换算
+    const sourceScaleX = thumbSize.width / display.bounds.width;
+    const sourceScaleY = thumbSize.height / display.bounds.height;
+
+    let image = thumbnail.crop({
+      x: Math.round((region.x - display.bounds.x) * sourceScaleX),
+      y: Math.round((region.y - display.bounds.y) * sourceScaleY),
+      width: Math.max(1, Math.round(region.width * sourceScaleX)),
+      height: Math.max(1, Math.round(region.height * sourceScaleY)),
+    });
+
+    const targetWidth = Math.max(1, Math.round(region.width * outputScale));
+    const targetHeight = Math.max(1, Math.round(region.height * outputScale));
+    const size = image.getSize();
+    if (size.width !== targetWidth || size.height !== targetHeight) {
+      image = image.resize({ width: targetWidth, height: targetHeight, quality: 'best' });
+    }
+
+    return {
+      image,
+      x: Math.round((region.x - bounds.x) * outputScale),
+      y: Math.round((region.y - bounds.y) * outputScale),
+    };
+  });
+
+  // 单显示器：直接返回裁剪结果
+  if (pieces.length === 1) {
+    return `data:image/png;base64,${pieces[0].image.toPNG().toString('base64')}`;
+  }
+
+  // 多显示器：将各块位图拼接到一张画布上，显示器之间的空隙保持透明
+  const output = Buffer.alloc(outputWidth * outputHeight * 4);
+  for (const piece of pieces) {
+    const { width, height } = piece.image.getSize();
+    const bitmap = piece.image.toBitmap();
+    const copyWidth = Math.min(width, outputWidth - piece.x);
+    const copyHeight = Math.min(height, outputHeight - piece.y);
+    for (let row = 0; row < copyHeight; row++) {
+      const srcStart = row * width * 4;
+      bitmap.copy(output, ((piece.y + row) * outputWidth + piece.x) * 4, srcStart, srcStart + copyWidth * 4);
+    }
+  }
+
+  const stitched = nativeImage.createFromBitmap(output, { width: outputWidth, height: outputHeight });
+  return `data:image/png;base64,${stitched.toPNG().toString('base64')}`;
+}
@@ -72,12 +72,16 @@ window.addEventListener('DOMContentLoaded', () => {
 });
 
 contextBridge.exposeInMainWorld('electronAPI', {
-  captureFullscreen: () => ipcRenderer.invoke('capture-fullscreen'),
-  captureArea: () => ipcRenderer.invoke('capture-area'),
-  captureWindow: () => ipcRenderer.invoke('capture-window'),
+  captureFullscreen: (mode?: 'primary' | 'cursor' | 'all') => ipcRenderer.invoke('capture-fullscreen', mode),
+  captureArea: (delay?: number) => ipcRenderer.invoke('capture-area', delay),
+  pickWindow: () => ipcRenderer.invoke('pick-window'),
   captureSelection: (bounds: { x: number; y: number; width: number; height: number }) =>
     ipcRenderer.invoke('capture-selection', bounds),
   getScreens: () => ipcRenderer.invoke('get-screens'),
+  showCountdown: (seconds: number) => ipcRenderer.invoke('show-countdown', seconds),
+  // Persistent settings
+  getSettings: () => ipcRenderer.invoke('get-settings'),
+  updateSettings: (patch: Record<string, unknown>) => ipcRenderer.invoke('update-settings', patch),
   getDesktopSources: () => ipcRenderer.invoke('get-desktop-sources'),
   // 录制区域虚线框 Overlay
   showRecordingOverlay: (bounds: { x: number; y: number; width: number; height: number }) =>
@@ -87,8 +91,27 @@ contextBridge.exposeInMainWorld('electronAPI', {
     console.log('[PRELOAD] Call stack:', new Error().stack);
     return ipcRenderer.invoke('hide-recording-overlay');
   },
-  saveImage: (imageData: string, filename?: string) =>
-    ipcRenderer.invoke('save-image', imageData, filename),
+  saveImage: (imageData: string, filename?: string, options?: Record<string, unknown>) =>
+    ipcRenderer.invoke('save-image', imageData, filename, options),
+  quickSaveImage: (imageData: string, meta?: { app?: string }) =>
+    ipcRenderer.invoke('quick-save-image', imageData, meta),
+  chooseFolder: (defaultPath?: string) => ipcRenderer.invoke('choose-folder', defaultPath),
+  showItemInFolder: (filePath: string) => ipcRenderer.invoke('show-item-in-folder', filePath),
+  saveProject: (content: string, filename?: string) => ipcRenderer.invoke('save-project', content, filename),
+  openProject: () => ipcRenderer.invoke('open-project'),
+  historyList: () => ipcRenderer.invoke('history-list'),
+  historyStats: () => ipcRenderer.invoke('history-stats'),
+  historyAdd: (request: any) => ipcRenderer.invoke('history-add', request),
+  historyGetImage: (id: string) => ipcRenderer.invoke('history-get-image', id),
+  historyGetProject: (id: string) => ipcRenderer.invoke('history-get-project', id),
+  historySetProject: (id: string, project: any) => ipcRenderer.invoke('history-set-project', id, project),
+  historyUpdate: (id: string, patch: any) => ipcRenderer.invoke('history-update', id, patch),
+  historyDelete: (id: string) => ipcRenderer.invoke('history-delete', id),
+  historyExportFiles: (ids: string[]) => ipcRenderer.invoke('history-export-files', ids),
+  historyExportArchive: (ids?: string[]) => ipcRenderer.invoke('history-export-archive', ids),
+  historyImportArchive: () => ipcRenderer.invoke('history-import-archive'),
+  historyExportRecording: (id: string, format: 'mp4' | 'gif' | 'webm') => ipcRenderer.invoke('history-export-recording', id, format),
+  historyMigrate: (entries: any[]) => ipcRenderer.invoke('history-migrate', entries),
   copyToClipboard: (imageData: string) => ipcRenderer.invoke('copy-to-clipboard', imageData),
   closeSelector: () => ipcRenderer.invoke('close-selector'),
   showPreview: (imageData: string) => ipcRenderer.invoke('show-preview', imageData),
@@ -119,11 +142,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
   setIgnoreMouseEvents: (ignore: boolean, options?: { forward: boolean }) =>
     ipcRenderer.send('set-ignore-mouse-events', ignore, options),
   minimizeWindow: () => ipcRenderer.send('minimize-window'),
+  excludeFromCapture: (exclude: boolean) => ipcRenderer.invoke('exclude-from-capture', exclude),
   showWindow: () => ipcRenderer.send('show-window'),
   createAreaSelector: () => ipcRenderer.send('create-area-selector'),
   areaSelected: (bounds: { x: number; y: number; width: number; height: number }) =>
     ipcRenderer.send('area-selected', bounds),
   cancelAreaSelection: () => ipcRenderer.send('cancel-area-selection'),
+  getFrozenScreen: () => ipcRenderer.invoke('get-frozen-screen'),
+  windowSelected: (source: { id: string; name: string } | null) => ipcRenderer.send('window-selected', source),
   onAreaSelectionResult: (callback: (bounds: { x: number; y: number; width: number; height: number } | null) => void) => {
     const handler = (_event: any, bounds: any) => callback(bounds);
     ipcRenderer.on('area-selection-result', handler);
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// 快速保存：按设置中的目录和文件名模板直接写入文件，跳过保存对话框
+// 注意：字段需与根目录 types.ts 中的 AutoSaveSettings 保持一致
+export interface AutoSaveSettings {
+  enabled: boolean;
+  folder: string;
+  // 支持 {date} {time} {app} {counter} {ext}，/ 分隔子文件夹
+  template: string;
+  // 按日期（YYYY-MM-DD）创建子文件夹
+  subfolderByDate: boolean;
+}
+
+export const DEFAULT_TEMPLATE = '{date}-{time}-{app}-{counter}.{ext}';
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// 去掉文件名中的非法字符，窗口标题可能包含 / : 等
+function sanitize(name: string): string {
+  return name
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 80);
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatTime(date: Date): string {
+  return `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
+function renderTemplate(template: string, values: { date: string; time: string; app: string; ext: string }, counter: string): string {
+  let name = (template || DEFAULT_TEMPLATE)
+    .replace(/\{date\}/g, values.date)
+    .replace(/\{time\}/g, values.time)
+    .replace(/\{app\}/g, values.app)
+    .replace(/\{counter\}/g, counter);
+
+  const hasExt = name.includes('{ext}');
+  name = name.replace(/\{ext\}/g, values.ext);
+  if (!hasExt) name = `${name}.${values.ext}`;
+
+  // 空的 {app} 会留下连续的分隔符，合并并去掉首尾分隔符
+  const tidy = (segment: string) => segment.replace(/([-_ ])[-_ ]+/g, '$1').replace(/^[-_ ]+|[-_ ]+$/g, '');
+  // / 和 \ 分隔子文件夹；忽略空段、. 和 ..，结果始终位于保存目录内
+  const segments = name.split(/[\\/]+/).filter((s) => s && s !== '.' && s !== '..');
+  const file = segments.pop() || '';
+  const ext = path.extname(file);
+  const base = tidy(file.slice(0, file.length - ext.length));
+  return path.join(...segments.map(tidy).filter(Boolean), `${base || 'cleansnap'}${ext}`);
+}
+
+/**
+ * 计算快速保存的完整路径（会创建目标目录，包括模板中的子文件夹）。
+ * 冲突处理是确定的：模板含 {counter} 时从 001 开始递增到第一个不存在的文件名；
+ * 否则依次尝试 "name.ext"、"name (2).ext"、"name (3).ext" ...
+ */
+export function resolveQuickSavePath(
+  settings: AutoSaveSettings,
+  meta: { ext: string; app?: string; date?: Date }
+): string {
+  const date = meta.date || new Date();
+  const folder = settings.subfolderByDate ? path.join(settings.folder, formatDate(date)) : settings.folder;
+
+  const values = {
+    date: formatDate(date),
+    time: formatTime(date),
+    app: sanitize(meta.app || ''),
+    ext: meta.ext,
+  };
+
+  let filePath: string;
+  if ((settings.template || DEFAULT_TEMPLATE).includes('{counter}')) {
+    for (let counter = 1; ; counter++) {
+      filePath = path.join(folder, renderTemplate(settings.template, values, pad(counter, 3)));
+      if (!fs.existsSync(filePath)) break;
+    }
+  } else {
+    const name = renderTemplate(settings.template, values, '');
+    const ext = path.extname(name);
+    const base = name.slice(0, name.length - ext.length);
+    filePath = path.join(folder, name);
+    for (let n = 2; fs.existsSync(filePath); n++) {
+      filePath = path.join(folder, `${base} (${n})${ext}`);
+    }
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  return filePath;
+}
@@ -0,0 +1,188 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isImageFormat, type ImageEncodeOptions } from './imageEncoder';
+import { DEFAULT_TEMPLATE, type AutoSaveSettings } from './quickSave';
+import type { HistoryRetention } from './historyLibrary';
+
+// 持久化设置（userData/settings.json），主进程与渲染进程共用
+// 注意：字段需与根目录 types.ts 中的 AppSettings 保持一致
+export interface RegionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 已保存的截图区域（全局屏幕坐标，DIP），可选绑定全局快捷键
+export interface SavedRegion {
+  id: string;
+  name: string;
+  bounds: RegionBounds;
+  shortcut?: string;
+}
+
+export interface AppSettings {
+  // 截图倒计时（秒），0 表示立即截图
+  captureDelay: number;
+  // 上一次区域截图的选区，用于"截取上次区域"
+  lastRegion: RegionBounds | null;
+  savedRegions: SavedRegion[];
+  // 上一次保存图片时使用的格式与质量
+  imageEncode: ImageEncodeOptions;
+  // 快速保存（跳过保存对话框）的目录与文件名模板
+  autoSave: AutoSaveSettings;
+  // 截图历史库的保留策略
+  historyRetention: HistoryRetention;
+  // 后台识别历史截图中的文字用于搜索（会把图片发送给 Gemini，默认关闭）
+  historyOcr: boolean;
+  // 安全导出：模糊/马赛克/涂黑区域只由粗粒度色块和噪声重新生成，导出图中不残留原始像素
+  secureExport: boolean;
+}
+
+// 默认值依赖 app.getPath，需要在使用时再计算
+const getDefaultSettings = (): AppSettings => ({
+  captureDelay: 0,
+  lastRegion: null,
+  savedRegions: [],
+  imageEncode: {
+    format: 'png',
+    quality: 90,
+    lossless: false,
+    optimizePng: false,
+    quantizePng: false,
+  },
+  autoSave: {
+    enabled: false,
+    folder: path.join(app.getPath('pictures'), 'CleanSnap'),
+    template: DEFAULT_TEMPLATE,
+    subfolderByDate: false,
+  },
+  historyRetention: {
+    maxCount: 500,
+    maxAgeDays: 0,
+    maxSizeMB: 2048,
+  },
+  historyOcr: false,
+  secureExport: true,
+});
+
+let cachedSettings: AppSettings | null = null;
+
+function getSettingsPath(): string {
+  return path.join(app.getPath('userData'), 'settings.json');
+}
+
+export function getSettings(): AppSettings {
+  if (cachedSettings) return cachedSettings;
+
+  let stored: Partial<AppSettings> = {};
+  try {
+    const filePath = getSettingsPath();
+    if (fs.existsSync(filePath)) {
+      stored = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    }
+  } catch (e) {
+    console.warn('[SETTINGS] Failed to read settings, using defaults:', e);
+  }
+
+  const defaults = getDefaultSettings();
+  cachedSettings = {
+    ...defaults,
+    ...stored,
+    autoSave: { ...defaults.autoSave, ...stored.autoSave },
+    historyRetention: { ...defaults.historyRetention, ...stored.historyRetention },
+  };
+  return cachedSettings;
+}
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNonNegative = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+function toBounds(value: unknown): RegionBounds | null {
+  const v = value as Record<string, unknown> | null;
+  if (!v || typeof v !== 'object') return null;
+  const { x, y, width, height } = v;
+  const valid = [x, y, width, height].every((n) => typeof n === 'number' && Number.isFinite(n));
+  return valid ? { x: x as number, y: y as number, width: width as number, height: height as number } : null;
+}
+
+function toSavedRegion(value: unknown): SavedRegion | null {
+  const v = value as Record<string, unknown> | null;
+  const bounds = toBounds(v?.bounds);
+  if (!v || !isString(v.id) || !isString(v.name) || !bounds || (v.shortcut !== undefined && !isString(v.shortcut))) return null;
+  return { id: v.id, name: v.name, bounds, ...(v.shortcut !== undefined ? { shortcut: v.shortcut as string } : {}) };
+}
+
+// 嵌套设置只接受已知且类型正确的字段，并与当前值合并
+function pickFields<T extends object>(value: unknown, current: T, validators: { [K in keyof T]: (v: unknown) => boolean }): T | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const result = { ...current };
+  for (const key of Object.keys(validators) as (keyof T)[]) {
+    const field = (value as Record<keyof T, unknown>)[key];
+    if (field !== undefined && validators[key](field)) result[key] = field as T[keyof T];
+  }
+  return result;
+}
+
+/**
+ * 检查图片编码参数（保存设置或单次保存时传入）：只接受合法字段，未指定或不合法的沿用当前设置
+ */
+export function validateImageEncode(value: unknown): ImageEncodeOptions | undefined {
+  return pickFields(value, getSettings().imageEncode, {
+    format: isImageFormat,
+    quality: isNonNegative,
+    lossless: isBoolean,
+    optimizePng: isBoolean,
+    quantizePng: isBoolean,
+  });
+}
+
+/**
+ * 检查渲染进程传入的设置修改：只保留已知字段和合法的值，其余忽略并记录警告
+ */
+export function validateSettingsPatch(patch: unknown): Partial<AppSettings> {
+  if (!patch || typeof patch !== 'object') return {};
+  const input = patch as Record<string, unknown>;
+  const current = getSettings();
+  const result: Partial<AppSettings> = {};
+
+  if (isNonNegative(input.captureDelay)) result.captureDelay = input.captureDelay;
+  if (input.lastRegion === null || toBounds(input.lastRegion)) result.lastRegion = input.lastRegion === null ? null : toBounds(input.lastRegion);
+  if (Array.isArray(input.savedRegions)) {
+    const regions = input.savedRegions.map(toSavedRegion);
+    if (regions.every(Boolean)) result.savedRegions = regions as SavedRegion[];
+  }
+  const imageEncode = validateImageEncode(input.imageEncode);
+  if (imageEncode) result.imageEncode = imageEncode;
+  const autoSave = pickFields(input.autoSave, current.autoSave, {
+    enabled: isBoolean,
+    folder: isString,
+    template: isString,
+    subfolderByDate: isBoolean,
+  });
+  if (autoSave) result.autoSave = autoSave;
+  const historyRetention = pickFields(input.historyRetention, current.historyRetention, {
+    maxCount: isNonNegative,
+    maxAgeDays: isNonNegative,
+    maxSizeMB: isNonNegative,
+  });
+  if (historyRetention) result.historyRetention = historyRetention;
+  if (isBoolean(input.historyOcr)) result.historyOcr = input.historyOcr;
+  if (isBoolean(input.secureExport)) result.secureExport = input.secureExport;
+
+  const ignored = Object.keys(input).filter((key) => !(key in result));
+  if (ignored.length > 0) console.warn('[SETTINGS] Ignored invalid settings:', ignored);
+  return result;
+}
+
+export function updateSettings(patch: Partial<AppSettings>): AppSettings {
+  cachedSettings = { ...getSettings(), ...patch };
+  try {
+    fs.writeFileSync(getSettingsPath(), JSON.stringify(cachedSettings, null, 2), 'utf-8');
+  } catch (e) {
+    console.error('[SETTINGS] Failed to write settings:', e);
+  }
+  return cachedSettings;
+}
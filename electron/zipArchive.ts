@@ -0,0 +1,363 @@
+import * as fs from 'fs';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as zlib from 'zlib';
+
+// 最小的 ZIP 读写实现（deflate / store，支持 ZIP64，不支持加密），用于历史记录的导出与导入
+// 条目以流的方式写入和解出，压缩在 libuv 线程池中进行，只在内存中保留中央目录，避免阻塞主进程或把整个历史库载入内存
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// 增量计算 CRC32：初始值 0xffffffff，全部数据处理完后再取反
+function updateCrc32(crc: number, data: Buffer): number {
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return crc >>> 0;
+}
+
+// 超过 32 位的值需要写入 ZIP64 记录
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+// 原始大小超过此值的条目预先在本地头中写入 ZIP64 字段（deflate 最坏情况下输出会比输入略大）
+const ZIP64_ENTRY_THRESHOLD = 0xff000000;
+
+function writeUInt64LE(buffer: Buffer, value: number, pos: number) {
+  buffer.writeUInt32LE(value % 0x100000000, pos);
+  buffer.writeUInt32LE(Math.floor(value / 0x100000000), pos + 4);
+}
+
+function readUInt64LE(buffer: Buffer, pos: number): number {
+  return buffer.readUInt32LE(pos) + buffer.readUInt32LE(pos + 4) * 0x100000000;
+}
+
+// DOS 格式的修改时间
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface EntryInfo {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  zip64: boolean;
+}
+
+function localHeader(entry: EntryInfo, time: number, date: number): Buffer {
+  const local = Buffer.alloc(30 + entry.name.length + (entry.zip64 ? 20 : 0));
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(entry.zip64 ? 45 : 20, 4); // version needed
+  local.writeUInt16LE(0x0800, 6); // UTF-8 文件名
+  local.writeUInt16LE(entry.method, 8);
+  local.writeUInt16LE(time, 10);
+  local.writeUInt16LE(date, 12);
+  local.writeUInt32LE(entry.crc, 14);
+  local.writeUInt32LE(entry.zip64 ? UINT32_MAX : entry.compressedSize, 18);
+  local.writeUInt32LE(entry.zip64 ? UINT32_MAX : entry.size, 22);
+  local.writeUInt16LE(entry.name.length, 26);
+  local.writeUInt16LE(entry.zip64 ? 20 : 0, 28);
+  entry.name.copy(local, 30);
+  if (entry.zip64) {
+    const extra = 30 + entry.name.length;
+    local.writeUInt16LE(0x0001, extra);
+    local.writeUInt16LE(16, extra + 2);
+    writeUInt64LE(local, entry.size, extra + 4);
+    writeUInt64LE(local, entry.compressedSize, extra + 12);
+  }
+  return local;
+}
+
+export class ZipWriter {
+  private offset = 0;
+  private central: Buffer[] = [];
+  private count = 0;
+
+  private constructor(private readonly filePath: string, private readonly file: fs.promises.FileHandle) {}
+
+  static async create(filePath: string): Promise<ZipWriter> {
+    return new ZipWriter(filePath, await fs.promises.open(filePath, 'w'));
+  }
+
+  /**
+   * 添加内存中的数据
+   */
+  add(name: string, data: Buffer, compress = true): Promise<void> {
+    return this.addStream(name, Readable.from([data]), data.length, compress);
+  }
+
+  /**
+   * 以流的方式添加磁盘上的文件；已压缩的格式（图片、视频）直接存储，其余使用 deflate
+   */
+  async addFile(name: string, filePath: string, compress = true): Promise<void> {
+    const { size } = await fs.promises.stat(filePath);
+    return this.addStream(name, fs.createReadStream(filePath), size, compress);
+  }
+
+  private async addStream(name: string, input: Readable, expectedSize: number, compress: boolean) {
+    const { time, date } = dosDateTime(new Date());
+    const offset = this.offset;
+    const entry: EntryInfo = {
+      name: Buffer.from(name, 'utf-8'),
+      method: compress ? 8 : 0,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      zip64: expectedSize >= ZIP64_ENTRY_THRESHOLD,
+    };
+
+    // 先写入占位的本地头，数据写完后再回填 CRC 和大小
+    await this.write(localHeader(entry, time, date));
+    const dataStart = this.offset;
+    let crc = 0xffffffff;
+    const measure = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        crc = updateCrc32(crc, chunk);
+        entry.size += chunk.length;
+        callback(null, chunk);
+      },
+    });
+    const output = new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        this.write(chunk).then(() => callback(), callback);
+      },
+    });
+    if (compress) await pipeline(input, measure, zlib.createDeflateRaw(), output);
+    else await pipeline(input, measure, output);
+
+    entry.crc = (crc ^ 0xffffffff) >>> 0;
+    entry.compressedSize = this.offset - dataStart;
+    if (!entry.zip64 && (entry.size > UINT32_MAX || entry.compressedSize > UINT32_MAX)) {
+      // 文件在读取过程中变大，本地头没有预留 ZIP64 字段
+      throw new Error(`File changed while archiving: ${name}`);
+    }
+    const header = localHeader(entry, time, date);
+    await this.file.write(header, 0, header.length, offset);
+
+    const zip64 = entry.zip64 || offset > UINT32_MAX;
+    const central = Buffer.alloc(46 + (zip64 ? 28 : 0));
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(zip64 ? 45 : 20, 4); // version made by
+    central.writeUInt16LE(zip64 ? 45 : 20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(entry.method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(entry.crc, 16);
+    central.writeUInt32LE(zip64 ? UINT32_MAX : entry.compressedSize, 20);
+    central.writeUInt32LE(zip64 ? UINT32_MAX : entry.size, 24);
+    central.writeUInt16LE(entry.name.length, 28);
+    central.writeUInt16LE(zip64 ? 28 : 0, 30);
+    central.writeUInt32LE(zip64 ? UINT32_MAX : offset, 42);
+    if (zip64) {
+      central.writeUInt16LE(0x0001, 46);
+      central.writeUInt16LE(24, 48);
+      writeUInt64LE(central, entry.size, 50);
+      writeUInt64LE(central, entry.compressedSize, 58);
+      writeUInt64LE(central, offset, 66);
+    }
+    this.central.push(central.subarray(0, 46), entry.name, central.subarray(46));
+    this.count++;
+  }
+
+  private async write(data: Buffer) {
+    await this.file.write(data, 0, data.length, this.offset);
+    this.offset += data.length;
+  }
+
+  /**
+   * 写入中央目录和结束记录；条目数或偏移超出 32 位限制时附加 ZIP64 结束记录
+   */
+  async close() {
+    const directory = Buffer.concat(this.central);
+    const directoryOffset = this.offset;
+    await this.write(directory);
+
+    const zip64 = this.count >= UINT16_MAX || directory.length >= UINT32_MAX || directoryOffset >= UINT32_MAX;
+    if (zip64) {
+      const record = Buffer.alloc(56 + 20);
+      record.writeUInt32LE(0x06064b50, 0);
+      writeUInt64LE(record, 44, 4); // 记录剩余部分的长度
+      record.writeUInt16LE(45, 12);
+      record.writeUInt16LE(45, 14);
+      writeUInt64LE(record, this.count, 24);
+      writeUInt64LE(record, this.count, 32);
+      writeUInt64LE(record, directory.length, 40);
+      writeUInt64LE(record, directoryOffset, 48);
+      // ZIP64 结束记录定位器
+      record.writeUInt32LE(0x07064b50, 56);
+      writeUInt64LE(record, this.offset, 64);
+      record.writeUInt32LE(1, 72);
+      await this.write(record);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Math.min(this.count, UINT16_MAX), 8);
+    end.writeUInt16LE(Math.min(this.count, UINT16_MAX), 10);
+    end.writeUInt32LE(Math.min(directory.length, UINT32_MAX), 12);
+    end.writeUInt32LE(Math.min(directoryOffset, UINT32_MAX), 16);
+    await this.write(end);
+    await this.file.close();
+  }
+
+  /**
+   * 放弃写入并删除不完整的文件
+   */
+  async discard() {
+    await this.file.close().catch(() => undefined);
+    await fs.promises.rm(this.filePath, { force: true });
+  }
+}
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+export class ZipReader {
+  private constructor(private readonly filePath: string, private readonly file: fs.promises.FileHandle, readonly entries: ZipEntry[]) {}
+
+  static async open(filePath: string): Promise<ZipReader> {
+    const file = await fs.promises.open(filePath, 'r');
+    try {
+      return new ZipReader(filePath, file, await readDirectory(file));
+    } catch (e) {
+      await file.close();
+      throw e;
+    }
+  }
+
+  private async readLocal(entry: ZipEntry): Promise<number> {
+    const local = await readAt(this.file, entry.offset, 30);
+    if (local.readUInt32LE(0) !== 0x04034b50) throw new Error('Corrupt zip entry');
+    return entry.offset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+  }
+
+  private async openEntry(name: string): Promise<Readable | null> {
+    const entry = this.entries.find((e) => e.name === name);
+    if (!entry) return null;
+    if (entry.method !== 0 && entry.method !== 8) throw new Error(`Unsupported zip compression method: ${entry.method}`);
+
+    const dataStart = await this.readLocal(entry);
+    if (entry.compressedSize === 0) return Readable.from([]);
+    const body = fs.createReadStream(this.filePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 });
+    return entry.method === 8 ? body.pipe(zlib.createInflateRaw()) : body;
+  }
+
+  /**
+   * 读取较小的条目（如清单）到内存
+   */
+  async read(name: string): Promise<Buffer | null> {
+    const stream = await this.openEntry(name);
+    if (!stream) return null;
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * 以流的方式把条目解出到文件，条目不存在时返回 false
+   */
+  async extract(name: string, filePath: string): Promise<boolean> {
+    const stream = await this.openEntry(name);
+    if (!stream) return false;
+    await pipeline(stream, fs.createWriteStream(filePath));
+    return true;
+  }
+
+  close() {
+    return this.file.close();
+  }
+}
+
+async function readAt(file: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  if (bytesRead < length) throw new Error('Unexpected end of zip archive');
+  return buffer;
+}
+
+async function readDirectory(file: fs.promises.FileHandle): Promise<ZipEntry[]> {
+  const { size: fileSize } = await file.stat();
+
+  // 结束记录位于文件末尾（最多 64KB 注释）
+  const tailSize = Math.min(fileSize, 22 + 0xffff);
+  const tail = await readAt(file, fileSize - tailSize, tailSize);
+  let endIndex = -1;
+  for (let i = tailSize - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === 0x06054b50) {
+      endIndex = i;
+      break;
+    }
+  }
+  if (endIndex < 0) throw new Error('Not a zip archive');
+
+  let count = tail.readUInt16LE(endIndex + 10);
+  let directorySize = tail.readUInt32LE(endIndex + 12);
+  let directoryOffset = tail.readUInt32LE(endIndex + 16);
+  // ZIP64 结束记录定位器紧挨在结束记录之前
+  const locatorPosition = fileSize - tailSize + endIndex - 20;
+  if (locatorPosition >= 0 && (count === UINT16_MAX || directorySize === UINT32_MAX || directoryOffset === UINT32_MAX)) {
+    const locator = await readAt(file, locatorPosition, 20);
+    if (locator.readUInt32LE(0) === 0x07064b50) {
+      const record = await readAt(file, readUInt64LE(locator, 8), 56);
+      if (record.readUInt32LE(0) !== 0x06064b50) throw new Error('Corrupt zip64 end record');
+      count = readUInt64LE(record, 32);
+      directorySize = readUInt64LE(record, 40);
+      directoryOffset = readUInt64LE(record, 48);
+    }
+  }
+  if (directoryOffset + directorySize > fileSize) throw new Error('Corrupt zip directory');
+
+  const directory = await readAt(file, directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (pos + 46 > directory.length || directory.readUInt32LE(pos) !== 0x02014b50) throw new Error('Corrupt zip directory');
+    const nameLength = directory.readUInt16LE(pos + 28);
+    const extraLength = directory.readUInt16LE(pos + 30);
+    const commentLength = directory.readUInt16LE(pos + 32);
+    const extraStart = pos + 46 + nameLength;
+    if (extraStart + extraLength + commentLength > directory.length) throw new Error('Corrupt zip directory');
+
+    const entry: ZipEntry = {
+      name: directory.toString('utf-8', pos + 46, extraStart),
+      method: directory.readUInt16LE(pos + 10),
+      compressedSize: directory.readUInt32LE(pos + 20),
+      size: directory.readUInt32LE(pos + 24),
+      offset: directory.readUInt32LE(pos + 42),
+    };
+    // ZIP64 扩展字段按顺序只包含值为 0xffffffff 的字段
+    for (let extra = extraStart; extra + 4 <= extraStart + extraLength; ) {
+      const id = directory.readUInt16LE(extra);
+      const length = directory.readUInt16LE(extra + 2);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        for (const key of ['size', 'compressedSize', 'offset'] as const) {
+          if (entry[key] !== UINT32_MAX || field + 8 > extra + 4 + length) continue;
+          entry[key] = readUInt64LE(directory, field);
+          field += 8;
+        }
+      }
+      extra += 4 + length;
+    }
+    if (entry.offset + entry.compressedSize > fileSize) throw new Error('Corrupt zip directory');
+    entries.push(entry);
+    pos = extraStart + extraLength + commentLength;
+  }
+  return entries;
+}
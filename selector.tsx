@@ -1,8 +1,13 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import AreaSelector from './components/AreaSelector';
+import WindowPicker from './components/WindowPicker';
+import { LanguageProvider } from './components/i18n/LanguageContext';
 import './index.css';
 
+// main 进程通过 ?mode=area|window 指定选择器类型
+const mode = new URLSearchParams(window.location.search).get('mode') || 'area';
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element");
@@ -11,6 +16,8 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <AreaSelector />
+    <LanguageProvider>
+      {mode === 'window' ? <WindowPicker /> : <AreaSelector />}
+    </LanguageProvider>
   </React.StrictMode>
 );
@@ -1,7 +1,27 @@
+import { CleanSnapProject, FullscreenMode, ImageEncodeOptions, RegionBounds, SavedRegion } from '../types';
+import { applyWindowChrome } from '../utils/windowChrome';
+import { parseProject, serializeProject, PROJECT_EXTENSION } from '../utils/projectFile';
+
 export interface CaptureOptions {
   autoCopy?: boolean;
   autoSave?: boolean;
   showPreview?: boolean;
+  fullscreenMode?: FullscreenMode;
+  // Seconds to count down before capturing (menus, tooltips, hover states)
+  delay?: number;
+  // Called with the file path when autoSave wrote the capture to the auto-save folder
+  onSaved?: (path: string) => void;
+  // Window capture only: called with the title of the picked window
+  onSource?: (name: string) => void;
+  // Window capture only: add a drop shadow / round the window corners (px)
+  windowShadow?: boolean;
+  windowCornerRadius?: number;
+}
+
+export interface IntervalCaptureConfig {
+  intervalSeconds: number;
+  durationMinutes: number;
+  fullscreenMode?: FullscreenMode;
 }
 
 export class CaptureService {
@@ -9,9 +29,20 @@ export class CaptureService {
     return typeof window !== 'undefined' && 'electronAPI' in window;
   }
 
+  private static async countdown(seconds?: number): Promise<void> {
+    if (!seconds || seconds <= 0) return;
+    if (this.isElectron()) {
+      // The countdown overlay is content-protected and closed before we capture
+      await window.electronAPI.showCountdown(seconds);
+    } else {
+      await new Promise((r) => setTimeout(r, seconds * 1000));
+    }
+  }
+
   static async captureFullscreen(options: CaptureOptions = {}): Promise<string> {
     if (this.isElectron()) {
-      const imageData = await window.electronAPI.captureFullscreen();
+      await this.countdown(options.delay);
+      const imageData = await window.electronAPI.captureFullscreen(options.fullscreenMode);
       await this.handleCaptureResult(imageData, options);
       return imageData;
     } else {
@@ -22,7 +53,7 @@ export class CaptureService {
 
   static async captureArea(options: CaptureOptions = {}): Promise<string> {
     if (this.isElectron()) {
-      const imageData = await window.electronAPI.captureArea();
+      const imageData = await window.electronAPI.captureArea(options.delay);
       await this.handleCaptureResult(imageData, options);
       return imageData;
     } else {
@@ -32,8 +63,17 @@ export class CaptureService {
 
   static async captureWindow(options: CaptureOptions = {}): Promise<string> {
     if (this.isElectron()) {
-      const imageData = await window.electronAPI.captureWindow();
-      await this.handleCaptureResult(imageData, options);
+      const source = await window.electronAPI.pickWindow();
+      if (!source) return '';
+      options.onSource?.(source.name);
+      await this.countdown(options.delay);
+      // Grab the window's own frame (native size, unaffected by overlapping windows)
+      const rawImage = await this.captureDesktopSource(source.id);
+      const imageData = await applyWindowChrome(rawImage, {
+        shadow: options.windowShadow,
+        cornerRadius: options.windowCornerRadius,
+      });
+      await this.handleCaptureResult(imageData, options, source.name);
       return imageData;
     } else {
       return await this.browserCapture();
@@ -45,6 +85,7 @@ export class CaptureService {
     options: CaptureOptions = {}
   ): Promise<string> {
     if (this.isElectron()) {
+      await this.countdown(options.delay);
       const imageData = await window.electronAPI.captureSelection(bounds);
       await this.handleCaptureResult(imageData, options);
       return imageData;
@@ -53,7 +94,95 @@ export class CaptureService {
     }
   }
 
-  private static async handleCaptureResult(imageData: string, options: CaptureOptions): Promise<void> {
+  /**
+   * Re-capture the selection of the most recent area capture, skipping the area selector.
+   */
+  static async capturePreviousRegion(options: CaptureOptions = {}): Promise<string> {
+    if (!this.isElectron()) return '';
+    const { lastRegion } = await window.electronAPI.getSettings();
+    if (!lastRegion) return '';
+    return await this.captureSelection(lastRegion, options);
+  }
+
+  static async captureSavedRegion(id: string, options: CaptureOptions = {}): Promise<string> {
+    if (!this.isElectron()) return '';
+    const { savedRegions } = await window.electronAPI.getSettings();
+    const region = savedRegions.find((r) => r.id === id);
+    if (!region) return '';
+    return await this.captureSelection(region.bounds, options);
+  }
+
+  static async getSavedRegions(): Promise<SavedRegion[]> {
+    if (!this.isElectron()) return [];
+    return (await window.electronAPI.getSettings()).savedRegions;
+  }
+
+  /**
+   * Save a named region. Defaults to the previous area-capture selection.
+   */
+  static async saveRegion(name: string, bounds?: RegionBounds, shortcut?: string): Promise<SavedRegion[]> {
+    if (!this.isElectron()) return [];
+    const settings = await window.electronAPI.getSettings();
+    const regionBounds = bounds || settings.lastRegion;
+    if (!regionBounds) return settings.savedRegions;
+    const region: SavedRegion = { id: Date.now().toString(), name, bounds: regionBounds, shortcut: shortcut || undefined };
+    const updated = await window.electronAPI.updateSettings({ savedRegions: [...settings.savedRegions, region] });
+    return updated.savedRegions;
+  }
+
+  static async deleteSavedRegion(id: string): Promise<SavedRegion[]> {
+    if (!this.isElectron()) return [];
+    const settings = await window.electronAPI.getSettings();
+    const updated = await window.electronAPI.updateSettings({
+      savedRegions: settings.savedRegions.filter((r) => r.id !== id),
+    });
+    return updated.savedRegions;
+  }
+
+  /**
+   * Capture the screen every N seconds for M minutes. Each frame is passed to onFrame;
+   * returns a function that stops the session early.
+   */
+  static startIntervalCapture(
+    config: IntervalCaptureConfig,
+    onFrame: (imageData: string, index: number) => void,
+    onDone?: () => void
+  ): () => void {
+    const total = Math.max(1, Math.floor((config.durationMinutes * 60) / config.intervalSeconds));
+    let index = 0;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const stop = () => {
+      if (stopped) return;
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      if (this.isElectron()) window.electronAPI.excludeFromCapture(false);
+      onDone?.();
+    };
+
+    const tick = async () => {
+      if (stopped) return;
+      try {
+        const imageData = await this.captureFullscreen({ fullscreenMode: config.fullscreenMode });
+        if (imageData && !stopped) onFrame(imageData, index);
+      } catch (err) {
+        console.error('Interval capture failed', err);
+      }
+      index++;
+      if (index >= total) {
+        stop();
+      } else if (!stopped) {
+        timer = setTimeout(tick, config.intervalSeconds * 1000);
+      }
+    };
+
+    // Like the single-shot captures, the CleanSnap window must not end up in the frames
+    (this.isElectron() ? window.electronAPI.excludeFromCapture(true) : Promise.resolve()).then(tick);
+    return stop;
+  }
+
+  private static async handleCaptureResult(imageData: string, options: CaptureOptions, app?: string): Promise<void> {
     if (!imageData) return;
 
     if (options.autoCopy && this.isElectron()) {
@@ -61,7 +190,12 @@ export class CaptureService {
     }
 
     if (options.autoSave && this.isElectron()) {
-      await window.electronAPI.saveImage(imageData);
+      const result = await this.quickSave(imageData, app);
+      if (result.success && result.path) {
+        options.onSaved?.(result.path);
+      } else {
+        console.error('Auto-save failed', result.error);
+      }
     }
 
     if (options.showPreview && this.isElectron()) {
@@ -69,60 +203,150 @@ export class CaptureService {
     }
   }
 
+  private static async captureDesktopSource(sourceId: string): Promise<string> {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: {
+          mandatory: {
+            chromeMediaSource: 'desktop',
+            chromeMediaSourceId: sourceId,
+            maxWidth: 7680,
+            maxHeight: 4320,
+          },
+        } as any,
+        audio: false,
+      });
+      return await this.grabFrame(stream);
+    } catch (err) {
+      console.error('Window capture failed', err);
+      return '';
+    }
+  }
+
   private static async browserCapture(): Promise<string> {
     try {
       const stream = await navigator.mediaDevices.getDisplayMedia({
         video: { displaySurface: 'window' },
         audio: false,
       });
+      return await this.grabFrame(stream);
+    } catch (err) {
+      console.error('Capture failed', err);
+      return '';
+    }
+  }
 
-      const track = stream.getVideoTracks()[0];
-      const video = document.createElement('video');
-      video.srcObject = stream;
-      video.play();
+  private static async grabFrame(stream: MediaStream): Promise<string> {
+    const track = stream.getVideoTracks()[0];
+    const video = document.createElement('video');
+    video.srcObject = stream;
+    video.play();
 
-      await new Promise((resolve) => {
-        video.onloadedmetadata = () => resolve(true);
-      });
+    await new Promise((resolve) => {
+      video.onloadedmetadata = () => resolve(true);
+    });
 
-      await new Promise((r) => setTimeout(r, 500));
-
-      const canvas = document.createElement('canvas');
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(video, 0, 0);
-        const dataUrl = canvas.toDataURL('image/png');
-        track.stop();
-        video.remove();
-        canvas.remove();
-        return dataUrl;
-      }
+    await new Promise((r) => setTimeout(r, 500));
 
-      track.stop();
-      video.remove();
-      canvas.remove();
-      return '';
-    } catch (err) {
-      console.error('Capture failed', err);
-      return '';
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    let dataUrl = '';
+    if (ctx) {
+      ctx.drawImage(video, 0, 0);
+      dataUrl = canvas.toDataURL('image/png');
+    }
+
+    track.stop();
+    video.remove();
+    canvas.remove();
+    return dataUrl;
+  }
+
+  /**
+   * Save without a dialog into the auto-save folder (filename template, last used format).
+   */
+  static async quickSave(imageData: string, app?: string): Promise<{ success: boolean; path?: string; error?: string }> {
+    if (!this.isElectron()) {
+      return await this.saveImage(imageData);
     }
+    return await window.electronAPI.quickSaveImage(imageData, { app });
   }
 
-  static async saveImage(imageData: string, filename?: string): Promise<{ success: boolean; path?: string }> {
+  private static async reencode(imageData: string, format: 'jpeg' | 'webp', quality = 90): Promise<string> {
+    const img = new Image();
+    img.src = imageData;
+    await img.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return imageData;
+    if (format === 'jpeg') {
+      // JPEG has no alpha channel
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(img, 0, 0);
+    return canvas.toDataURL(`image/${format}`, quality / 100);
+  }
+
+  static async saveImage(
+    imageData: string,
+    filename?: string,
+    options?: Partial<ImageEncodeOptions>
+  ): Promise<{ success: boolean; path?: string }> {
     if (this.isElectron()) {
-      return await window.electronAPI.saveImage(imageData, filename);
+      return await window.electronAPI.saveImage(imageData, filename, options);
     } else {
-      // Browser fallback
+      // Browser fallback: canvas can encode JPEG/WebP (AVIF falls back to PNG)
+      const format = options?.format && options.format !== 'avif' ? options.format : 'png';
+      const encoded = format === 'png' ? imageData : await this.reencode(imageData, format, options?.quality);
       const link = document.createElement('a');
-      link.download = filename || `cleansnap-${Date.now()}.png`;
-      link.href = imageData;
+      link.download = filename || `cleansnap-${Date.now()}.${format === 'jpeg' ? 'jpg' : format}`;
+      link.href = encoded;
       link.click();
       return { success: true };
     }
   }
 
+  /**
+   * Save an editable .cleansnap project (original image + annotation layers + background).
+   */
+  static async saveProject(project: CleanSnapProject, filename?: string): Promise<{ success: boolean; path?: string }> {
+    const content = serializeProject(project);
+    if (this.isElectron()) {
+      return await window.electronAPI.saveProject(content, filename);
+    } else {
+      const link = document.createElement('a');
+      link.download = `${(filename || `cleansnap-${Date.now()}`).replace(/\.[^.]+$/, '')}.${PROJECT_EXTENSION}`;
+      link.href = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+      return { success: true };
+    }
+  }
+
+  /**
+   * Let the user pick a .cleansnap file. Resolves null when cancelled; throws if the file is invalid.
+   */
+  static async openProject(): Promise<CleanSnapProject | null> {
+    if (this.isElectron()) {
+      const result = await window.electronAPI.openProject();
+      return result ? parseProject(result.content) : null;
+    }
+
+    const file = await new Promise<File | null>((resolve) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = `.${PROJECT_EXTENSION}`;
+      input.onchange = () => resolve(input.files?.[0] || null);
+      input.click();
+    });
+    return file ? parseProject(await file.text()) : null;
+  }
+
   static async copyToClipboard(imageData: string): Promise<boolean> {
     if (this.isElectron()) {
       const result = await window.electronAPI.copyToClipboard(imageData);
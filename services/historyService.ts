@@ -0,0 +1,193 @@
+import { CaptureHistory, CleanSnapProject, HistoryAddRequest, HistoryUpdate } from '../types';
+import { extractTextFromImage } from './geminiService';
+import { CaptureService } from './captureService';
+
+// Pre-library history format (kept as the browser fallback storage)
+type LegacyEntry = HistoryAddRequest & HistoryUpdate;
+
+const LEGACY_STORAGE_KEY = 'cleansnap-history';
+const BROWSER_LIMIT = 50;
+
+export class HistoryService {
+  private static isElectron(): boolean {
+    return typeof window !== 'undefined' && 'electronAPI' in window;
+  }
+
+  private static readLegacy(): LegacyEntry[] {
+    try {
+      return JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '[]');
+    } catch (e) {
+      console.error('Failed to load history', e);
+      return [];
+    }
+  }
+
+  private static writeLegacy(entries: LegacyEntry[]) {
+    try {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(entries.slice(0, BROWSER_LIMIT)));
+    } catch (e) {
+      console.error('Failed to save history (storage quota exceeded?)', e);
+    }
+  }
+
+  private static toEntry(item: LegacyEntry): CaptureHistory {
+    const { imageData, project, ...rest } = item;
+    return {
+      ...rest,
+      timestamp: item.timestamp || Number(item.id),
+      thumbnail: imageData,
+      width: 0,
+      height: 0,
+      size: imageData.length,
+      layers: project?.annotations.length,
+    };
+  }
+
+  /**
+   * Load the library, importing entries left in localStorage by older versions first.
+   */
+  static async list(): Promise<CaptureHistory[]> {
+    if (!this.isElectron()) {
+      return this.readLegacy().map((item) => this.toEntry(item));
+    }
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      const imported = await window.electronAPI.historyMigrate(this.readLegacy());
+      console.log(`[History] Migrated ${imported} entries from localStorage`);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+    return await window.electronAPI.historyList();
+  }
+
+  static async add(request: HistoryAddRequest): Promise<{ entry: CaptureHistory; removed: string[] }> {
+    if (this.isElectron()) {
+      return await window.electronAPI.historyAdd(request);
+    }
+    const entries = [request, ...this.readLegacy()];
+    this.writeLegacy(entries);
+    return {
+      entry: this.toEntry(request),
+      removed: entries.slice(BROWSER_LIMIT).map((item) => item.id),
+    };
+  }
+
+  static async getImage(id: string): Promise<string | null> {
+    if (this.isElectron()) {
+      return await window.electronAPI.historyGetImage(id);
+    }
+    return this.readLegacy().find((item) => item.id === id)?.imageData ?? null;
+  }
+
+  static async getProject(id: string): Promise<CleanSnapProject | null> {
+    if (this.isElectron()) {
+      return await window.electronAPI.historyGetProject(id);
+    }
+    return this.readLegacy().find((item) => item.id === id)?.project ?? null;
+  }
+
+  static async setProject(id: string, project: CleanSnapProject): Promise<CaptureHistory | null> {
+    if (this.isElectron()) {
+      return await window.electronAPI.historySetProject(id, project);
+    }
+    const entries = this.readLegacy();
+    const item = entries.find((entry) => entry.id === id);
+    if (!item) return null;
+    item.project = project;
+    this.writeLegacy(entries);
+    return this.toEntry(item);
+  }
+
+  static async update(id: string, patch: HistoryUpdate): Promise<CaptureHistory | null> {
+    if (this.isElectron()) {
+      return await window.electronAPI.historyUpdate(id, patch);
+    }
+    const entries = this.readLegacy();
+    const item = entries.find((entry) => entry.id === id);
+    if (!item) return null;
+    Object.assign(item, patch);
+    this.writeLegacy(entries);
+    return this.toEntry(item);
+  }
+
+  /**
+   * OCR a capture and store the text for search. Throws when OCR is unavailable (e.g. no API key).
+   */
+  static async indexText(id: string): Promise<CaptureHistory | null> {
+    const imageData = await this.getImage(id);
+    if (!imageData) return await this.update(id, { ocrText: '' });
+    const text = await extractTextFromImage(imageData);
+    return await this.update(id, { ocrText: /^No text detected\.?$/i.test(text.trim()) ? '' : text });
+  }
+
+  /**
+   * Export a recording's retained source to another format (desktop only).
+   */
+  static async exportRecording(id: string, format: 'mp4' | 'gif' | 'webm'): Promise<{ success: boolean; path?: string; error?: string; canceled?: boolean }> {
+    if (!this.isElectron()) {
+      return { success: false, error: 'Not supported in the browser' };
+    }
+    return await window.electronAPI.historyExportRecording(id, format);
+  }
+
+  /**
+   * Copy several captures as one image, stacked vertically (the clipboard holds a single image).
+   */
+  static async copyMany(ids: string[]): Promise<boolean> {
+    const sources = (await Promise.all(ids.map((id) => this.getImage(id)))).filter((src): src is string => !!src);
+    if (sources.length === 0) return false;
+    if (sources.length === 1) return await CaptureService.copyToClipboard(sources[0]);
+
+    const images = await Promise.all(sources.map(async (src) => {
+      const img = new Image();
+      img.src = src;
+      await img.decode();
+      return img;
+    }));
+    const gap = 16;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(...images.map((img) => img.naturalWidth));
+    canvas.height = images.reduce((sum, img) => sum + img.naturalHeight, 0) + gap * (images.length - 1);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return false;
+    let y = 0;
+    for (const img of images) {
+      ctx.drawImage(img, 0, y);
+      y += img.naturalHeight + gap;
+    }
+    return await CaptureService.copyToClipboard(canvas.toDataURL('image/png'));
+  }
+
+  static async exportFiles(ids: string[]): Promise<{ success: boolean; count?: number; error?: string; canceled?: boolean }> {
+    if (this.isElectron()) {
+      return await window.electronAPI.historyExportFiles(ids);
+    }
+    // Browser fallback: one download per capture
+    for (const id of ids) {
+      const imageData = await this.getImage(id);
+      if (imageData) await CaptureService.saveImage(imageData, `cleansnap-${id}.png`);
+    }
+    return { success: true, count: ids.length };
+  }
+
+  static async exportArchive(ids?: string[]): Promise<{ success: boolean; count?: number; error?: string; canceled?: boolean }> {
+    if (!this.isElectron()) {
+      return { success: false, error: 'Not supported in the browser' };
+    }
+    return await window.electronAPI.historyExportArchive(ids);
+  }
+
+  static async importArchive(): Promise<{ success: boolean; count?: number; error?: string; canceled?: boolean }> {
+    if (!this.isElectron()) {
+      return { success: false, error: 'Not supported in the browser' };
+    }
+    return await window.electronAPI.historyImportArchive();
+  }
+
+  static async delete(id: string): Promise<void> {
+    if (this.isElectron()) {
+      return await window.electronAPI.historyDelete(id);
+    }
+    this.writeLegacy(this.readLegacy().filter((item) => item.id !== id));
+  }
+}
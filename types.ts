@@ -2,14 +2,98 @@ export enum AppMode {
   HOME = 'HOME',
   EDITOR = 'EDITOR',
   VIDEO_PREVIEW = 'VIDEO_PREVIEW',
-  HISTORY = 'HISTORY'
+  HISTORY = 'HISTORY',
+  SCROLL_CAPTURE = 'SCROLL_CAPTURE'
 }
 
+// Which display(s) a fullscreen capture covers
+export type FullscreenMode = 'primary' | 'cursor' | 'all';
+
+export interface RegionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A named capture region in global screen coordinates (DIP)
+export interface SavedRegion {
+  id: string;
+  name: string;
+  bounds: RegionBounds;
+  shortcut?: string; // Electron accelerator, e.g. "CommandOrControl+Alt+1"
+}
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+// Image encoding for save-image (mirrors electron/imageEncoder.ts)
+export interface ImageEncodeOptions {
+  format: ImageFormat;
+  quality: number;      // 1-100, used by JPEG, lossy WebP and AVIF
+  lossless: boolean;    // WebP only
+  optimizePng: boolean; // Max zlib compression, pixels unchanged
+  quantizePng: boolean; // Reduce to a 256-color palette (lossy, much smaller)
+}
+
+// Quick-save destination (mirrors electron/quickSave.ts)
+export interface AutoSaveSettings {
+  enabled: boolean;
+  folder: string;
+  template: string;         // Tokens: {date} {time} {app} {counter} {ext}; '/' creates subfolders
+  subfolderByDate: boolean; // Save into <folder>/YYYY-MM-DD/
+}
+
+// Persistent app settings (mirrors AppSettings in electron/settingsStore.ts)
+export interface AppSettings {
+  captureDelay: number; // Seconds to wait before capturing, 0 = immediate
+  lastRegion: RegionBounds | null; // Selection of the most recent area capture
+  savedRegions: SavedRegion[];
+  imageEncode: ImageEncodeOptions; // Last format/quality used when saving images
+  autoSave: AutoSaveSettings;
+  historyRetention: HistoryRetention;
+  historyOcr: boolean; // Index text in captures for history search (sends images to Gemini)
+  secureExport: boolean; // Regenerate blurred/pixelated/redacted regions so no original pixels survive in exports
+}
+
+// History library cleanup policy (0 = unlimited), mirrors electron/historyLibrary.ts
+export interface HistoryRetention {
+  maxCount: number;
+  maxAgeDays: number;
+  maxSizeMB: number;
+}
+
+export type CaptureType = 'fullscreen' | 'area' | 'window' | 'scroll' | 'recording';
+
+// A history library entry; the full image and project are loaded on demand by id
 export interface CaptureHistory {
   id: string;
-  imageData: string;
   timestamp: number;
   filename?: string;
+  thumbnail: string; // JPEG data URL
+  width: number;
+  height: number;
+  size: number; // Bytes on disk (image + thumbnail + project)
+  layers?: number; // Annotation count of the saved project, if any
+  captureType?: CaptureType;
+  source?: string; // Window title for window captures
+  tags?: string[];
+  favorite?: boolean; // Pinned; exempt from retention cleanup
+  ocrText?: string; // Text found by background OCR, undefined until indexed
+  duration?: number; // Recordings: length in seconds (may be unknown)
+  videoUrl?: string; // Recordings: playable URL of the retained WebM source
+}
+
+export type HistoryUpdate = Partial<Pick<CaptureHistory, 'filename' | 'tags' | 'favorite' | 'ocrText'>>;
+
+export interface HistoryAddRequest {
+  id: string;
+  imageData: string;
+  timestamp?: number;
+  filename?: string;
+  // Editable layers, restored when the capture is reopened in the Editor
+  project?: CleanSnapProject;
+  captureType?: CaptureType;
+  source?: string;
 }
 
 export enum ToolType {
@@ -20,7 +104,18 @@ export enum ToolType {
   PEN = 'PEN',
   HIGHLIGHTER = 'HIGHLIGHTER',
   COUNTER = 'COUNTER',
-  PIXELATE = 'PIXELATE'
+  PIXELATE = 'PIXELATE',
+  ELLIPSE = 'ELLIPSE',
+  LINE = 'LINE',
+  POLYLINE = 'POLYLINE',
+  POLYGON = 'POLYGON',
+  DOUBLE_ARROW = 'DOUBLE_ARROW',
+  CURVED_ARROW = 'CURVED_ARROW',
+  BLUR = 'BLUR',
+  REDACT = 'REDACT',
+  SPOTLIGHT = 'SPOTLIGHT',
+  MAGNIFIER = 'MAGNIFIER',
+  IMAGE = 'IMAGE'
 }
 
 export interface Point {
@@ -28,24 +123,97 @@ export interface Point {
   y: number;
 }
 
+export type DashStyle = 'solid' | 'dashed' | 'dotted';
+
+export type ArrowHeadStyle = 'filled' | 'open' | 'dot' | 'bar' | 'none';
+
+export type SpotlightShape = 'rect' | 'ellipse';
+
 export interface Annotation {
   id: string;
   type: ToolType;
-  points?: Point[]; // For pen/highlighter
+  points?: Point[]; // For pen/highlighter and polyline/polygon vertices
   startPoint?: Point; // For shapes
   endPoint?: Point; // For shapes
+  controlPoint?: Point; // For curved arrows (quadratic bezier control)
   text?: string;
+  fontSize?: number; // For text
   color: string;
   strokeWidth: number;
   number?: number; // For counter
+  rotation?: number; // Radians, around the center of the unrotated bounds
+  groupId?: string; // Grouped annotations are selected, moved and arranged together
+  blurRadius?: number; // For Gaussian blur
+  spotlightShape?: SpotlightShape; // For spotlight (default 'rect')
+  dimOpacity?: number; // For spotlight, 0-1; all spotlights share the first one's value
+  targetPoint?: Point; // For magnifier: center of the zoomed inset (startPoint/endPoint = source region)
+  zoom?: number; // For magnifier
+  imageId?: string; // For image layers: key into the project's images (startPoint/endPoint = placement)
+  // Shape styling; all optional so annotations saved before these existed render as before
+  strokeOpacity?: number; // 0-1
+  dash?: DashStyle;
+  fillColor?: string; // Rectangles, ellipses and polygons; unset = no fill
+  fillOpacity?: number; // 0-1
+  cornerRadius?: number; // Rectangles
+  arrowHead?: ArrowHeadStyle; // Arrows
 }
 
+export type ShapeStyle = Pick<Annotation, 'strokeOpacity' | 'dash' | 'fillColor' | 'fillOpacity' | 'cornerRadius' | 'arrowHead'>;
+
+export type WallpaperFit = 'cover' | 'stretch' | 'tile';
+
+// Window chrome or device mockup drawn around the image (see utils/frameMockups.ts)
+export type FrameStyle = 'none' | 'macos' | 'windows' | 'browser' | 'laptop' | 'phone';
+
 export interface BackgroundConfig {
-  type: 'color' | 'gradient' | 'transparent';
-  value: string;
+  type: 'color' | 'gradient' | 'transparent' | 'image';
+  value: string; // CSS color or gradient; for 'image' the wallpaper's data URL
   padding: number;
   shadow: boolean;
   inset: number; // Scale of image relative to canvas
+  imageFit?: WallpaperFit; // 'image' only, defaults to cover
+  imageBlur?: number; // 'image' only, blur radius in px
+  frame?: FrameStyle; // Defaults to none
+  frameTheme?: 'light' | 'dark'; // Window frames only
+  frameUrl?: string; // Address bar text of the browser frame
+  cornerRadius?: number; // Rounded image corners (window corners when framed) in px
+  shadowBlur?: number;
+  shadowOffsetX?: number;
+  shadowOffsetY?: number;
+  shadowColor?: string; // CSS color, usually #rrggbbaa
+  outputSize?: { width: number; height: number }; // Fixed canvas size; the content is scaled to fit inside the padding
+}
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+// Non-destructive crop/rotate/flip/resize of the base image (see utils/imageTransform.ts); annotations live in the transformed image's coordinates
+export interface ImageTransform {
+  crop: { x: number; y: number; width: number; height: number } | null; // In original image pixels; null = whole image
+  rotation: QuarterTurn; // Clockwise, applied after the crop
+  flipH: boolean; // Applied after the rotation
+  flipV: boolean;
+  width: number | null; // Output size; null = cropped/rotated size
+  height: number | null;
+}
+
+// Extra room around the base image (in its pixels), filled by the background
+export interface CanvasExpansion {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Contents of a .cleansnap project file (see utils/projectFile.ts)
+export interface CleanSnapProject {
+  version: number;
+  image: string; // Original, un-annotated image as a data URL
+  annotations: Annotation[];
+  background: BackgroundConfig;
+  imageTransform?: ImageTransform; // Missing in projects saved before crop/rotate existed
+  canvasExpansion?: CanvasExpansion;
+  images?: Record<string, string>; // Data URLs of image layers, by Annotation.imageId
+  savedAt: number;
 }
 
 export const PRESET_BACKGROUNDS = [
@@ -55,4 +223,12 @@ export const PRESET_BACKGROUNDS = [
   { name: 'Neon', value: 'linear-gradient(135deg, #84fab0 0%, #8fd3f4 100%)' },
   { name: 'Solid White', value: '#ffffff' },
   { name: 'Transparent', value: 'transparent' },
-];
\ No newline at end of file
+];
+
+export const DEFAULT_BACKGROUND: BackgroundConfig = {
+  type: 'gradient',
+  value: PRESET_BACKGROUNDS[0].value,
+  padding: 60,
+  shadow: true,
+  inset: 1,
+};
\ No newline at end of file
@@ -0,0 +1,225 @@
+/**
+ * Annotation Arrange
+ * 多选标注的编组、层级、对齐与分布，以及跨编辑器会话的复制粘贴
+ */
+
+import { Annotation, Point } from '../types';
+import { translateAnnotation } from './annotationShapes';
+import { Bounds, getWorldBounds } from './annotationTransform';
+
+export type ZOrderAction = 'forward' | 'backward' | 'front' | 'back';
+
+export type AlignMode = 'left' | 'hcenter' | 'right' | 'top' | 'vcenter' | 'bottom';
+
+// 复制的标注存放在 localStorage，同一应用内的其他编辑器窗口/之后打开的编辑器都能粘贴
+const CLIPBOARD_KEY = 'cleansnap-annotation-clipboard';
+
+// 每次粘贴/复制副本相对原位置的偏移
+export const PASTE_OFFSET = 20;
+
+let idCounter = 0;
+const newId = () => `${Date.now()}-${++idCounter}`;
+
+/**
+ * 把选中的 id 扩展到所在编组的全部成员
+ */
+export function expandToGroups(annotations: Annotation[], ids: string[]): string[] {
+  const groupIds = new Set(annotations.filter((a) => ids.includes(a.id) && a.groupId).map((a) => a.groupId));
+  return annotations.filter((a) => ids.includes(a.id) || (a.groupId && groupIds.has(a.groupId))).map((a) => a.id);
+}
+
+/**
+ * 选中内容按编组拆分为单元：编组作为一个整体参与对齐与分布
+ */
+function getUnits(annotations: Annotation[], ids: string[]): Annotation[][] {
+  const units = new Map<string, Annotation[]>();
+  for (const ann of annotations) {
+    if (!ids.includes(ann.id)) continue;
+    const key = ann.groupId || ann.id;
+    units.set(key, [...(units.get(key) || []), ann]);
+  }
+  return [...units.values()];
+}
+
+export const countUnits = (annotations: Annotation[], ids: string[]) => getUnits(annotations, ids).length;
+
+export function unionBounds(list: Annotation[]): Bounds | null {
+  const all = list.map(getWorldBounds).filter((b): b is Bounds => !!b);
+  if (all.length === 0) return null;
+  const x = Math.min(...all.map((b) => b.x));
+  const y = Math.min(...all.map((b) => b.y));
+  const right = Math.max(...all.map((b) => b.x + b.width));
+  const bottom = Math.max(...all.map((b) => b.y + b.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+const intersects = (a: Bounds, b: Bounds) =>
+  a.x <= b.x + b.width && a.x + a.width >= b.x && a.y <= b.y + b.height && a.y + a.height >= b.y;
+
+/**
+ * 框选：返回与矩形相交的标注 id（含所在编组）
+ */
+export function selectInRect(annotations: Annotation[], start: Point, end: Point): string[] {
+  const rect = {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+  const hits = annotations.filter((ann) => {
+    const b = getWorldBounds(ann);
+    return !!b && intersects(rect, b);
+  });
+  return expandToGroups(annotations, hits.map((a) => a.id));
+}
+
+export function groupAnnotations(annotations: Annotation[], ids: string[]): Annotation[] {
+  const groupId = `group-${newId()}`;
+  return annotations.map((a) => (ids.includes(a.id) ? { ...a, groupId } : a));
+}
+
+export function ungroupAnnotations(annotations: Annotation[], ids: string[]): Annotation[] {
+  return annotations.map((a) => {
+    if (!ids.includes(a.id) || !a.groupId) return a;
+    const { groupId, ...rest } = a;
+    return rest;
+  });
+}
+
+/**
+ * 调整层级（数组顺序即绘制顺序）；多选时保持选中项之间的相对顺序
+ */
+export function reorderAnnotations(annotations: Annotation[], ids: string[], action: ZOrderAction): Annotation[] {
+  const selected = annotations.filter((a) => ids.includes(a.id));
+  const rest = annotations.filter((a) => !ids.includes(a.id));
+  if (action === 'front') return [...rest, ...selected];
+  if (action === 'back') return [...selected, ...rest];
+
+  const result = [...annotations];
+  if (action === 'forward') {
+    // 从上往下处理，每个选中项越过上方第一个未选中项
+    for (let i = result.length - 2; i >= 0; i--) {
+      if (ids.includes(result[i].id) && !ids.includes(result[i + 1].id)) {
+        [result[i], result[i + 1]] = [result[i + 1], result[i]];
+      }
+    }
+  } else {
+    for (let i = 1; i < result.length; i++) {
+      if (ids.includes(result[i].id) && !ids.includes(result[i - 1].id)) {
+        [result[i], result[i - 1]] = [result[i - 1], result[i]];
+      }
+    }
+  }
+  return result;
+}
+
+function moveUnits(annotations: Annotation[], offsets: Map<string, Point>): Annotation[] {
+  return annotations.map((a) => {
+    const offset = offsets.get(a.id);
+    return offset && (offset.x || offset.y) ? translateAnnotation(a, offset.x, offset.y) : a;
+  });
+}
+
+/**
+ * 以选中内容的整体外接矩形为基准对齐
+ */
+export function alignAnnotations(annotations: Annotation[], ids: string[], mode: AlignMode): Annotation[] {
+  const units = getUnits(annotations, ids);
+  const target = unionBounds(units.flat());
+  if (!target || units.length < 2) return annotations;
+
+  const offsets = new Map<string, Point>();
+  for (const unit of units) {
+    const b = unionBounds(unit);
+    if (!b) continue;
+    let dx = 0;
+    let dy = 0;
+    if (mode === 'left') dx = target.x - b.x;
+    if (mode === 'hcenter') dx = target.x + target.width / 2 - (b.x + b.width / 2);
+    if (mode === 'right') dx = target.x + target.width - (b.x + b.width);
+    if (mode === 'top') dy = target.y - b.y;
+    if (mode === 'vcenter') dy = target.y + target.height / 2 - (b.y + b.height / 2);
+    if (mode === 'bottom') dy = target.y + target.height - (b.y + b.height);
+    unit.forEach((a) => offsets.set(a.id, { x: dx, y: dy }));
+  }
+  return moveUnits(annotations, offsets);
+}
+
+/**
+ * 等间距分布：首尾单元不动，中间单元之间的空隙相等
+ */
+export function distributeAnnotations(annotations: Annotation[], ids: string[], axis: 'horizontal' | 'vertical'): Annotation[] {
+  const horizontal = axis === 'horizontal';
+  const units = getUnits(annotations, ids)
+    .map((unit) => ({ unit, bounds: unionBounds(unit) }))
+    .filter((u): u is { unit: Annotation[]; bounds: Bounds } => !!u.bounds)
+    .sort((a, b) => (horizontal ? a.bounds.x - b.bounds.x : a.bounds.y - b.bounds.y));
+  if (units.length < 3) return annotations;
+
+  const start = horizontal ? units[0].bounds.x : units[0].bounds.y;
+  const last = units[units.length - 1].bounds;
+  const end = horizontal ? last.x + last.width : last.y + last.height;
+  const totalSize = units.reduce((sum, u) => sum + (horizontal ? u.bounds.width : u.bounds.height), 0);
+  const gap = (end - start - totalSize) / (units.length - 1);
+
+  const offsets = new Map<string, Point>();
+  let cursor = start;
+  for (const { unit, bounds } of units) {
+    const delta = cursor - (horizontal ? bounds.x : bounds.y);
+    unit.forEach((a) => offsets.set(a.id, horizontal ? { x: delta, y: 0 } : { x: 0, y: delta }));
+    cursor += (horizontal ? bounds.width : bounds.height) + gap;
+  }
+  return moveUnits(annotations, offsets);
+}
+
+/**
+ * 复制一组标注：生成新 id、重新映射编组并偏移位置
+ */
+export function cloneAnnotations(list: Annotation[], offset = PASTE_OFFSET): Annotation[] {
+  const groupMap = new Map<string, string>();
+  return list.map((a) => {
+    const copy = translateAnnotation(JSON.parse(JSON.stringify(a)), offset, offset);
+    copy.id = newId();
+    if (a.groupId) {
+      if (!groupMap.has(a.groupId)) groupMap.set(a.groupId, `group-${newId()}`);
+      copy.groupId = groupMap.get(a.groupId);
+    }
+    return copy;
+  });
+}
+
+// 剪贴板内容：标注以及图片图层引用的图片（data URL，按 imageId）
+export interface AnnotationClipboard {
+  annotations: Annotation[];
+  images: Record<string, string>;
+}
+
+/**
+ * 写入剪贴板；只保存被复制的图片图层用到的图片
+ */
+export function writeAnnotationClipboard(list: Annotation[], images: Record<string, string> = {}) {
+  const used: Record<string, string> = {};
+  for (const a of list) {
+    if (a.imageId && images[a.imageId]) used[a.imageId] = images[a.imageId];
+  }
+  try {
+    localStorage.setItem(CLIPBOARD_KEY, JSON.stringify({ annotations: list, images: used }));
+  } catch (e) {
+    console.error('Failed to copy annotations', e);
+  }
+}
+
+export function readAnnotationClipboard(): AnnotationClipboard {
+  try {
+    const data = JSON.parse(localStorage.getItem(CLIPBOARD_KEY) || '{}');
+    // 旧版剪贴板只保存标注数组
+    const list = Array.isArray(data) ? data : data?.annotations;
+    const images = !Array.isArray(data) && data?.images && typeof data.images === 'object' ? data.images : {};
+    return {
+      annotations: Array.isArray(list) ? list.filter((a) => a && typeof a.id === 'string' && typeof a.type === 'string') : [],
+      images,
+    };
+  } catch {
+    return { annotations: [], images: {} };
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Annotation Shapes
+ * 编辑器中矩形、椭圆、直线、折线/多边形与各类箭头的绘制（填充、透明度、虚线、圆角、箭头样式）、命中检测与移动
+ */
+
+import { Annotation, ArrowHeadStyle, Point, ShapeStyle, ToolType } from '../types';
+
+// 按住 Shift 时直线/箭头的角度吸附步长
+export const ANGLE_SNAP_STEP = 15;
+
+// 多边形：点击到第一个顶点附近时闭合
+export const CLOSE_POLYGON_DISTANCE = 10;
+
+const SHAPE_TYPES = new Set<ToolType>([
+  ToolType.ELLIPSE,
+  ToolType.LINE,
+  ToolType.POLYLINE,
+  ToolType.POLYGON,
+  ToolType.DOUBLE_ARROW,
+  ToolType.CURVED_ARROW,
+]);
+
+export const isShapeAnnotation = (ann: Annotation) => SHAPE_TYPES.has(ann.type);
+
+// 可设置样式的标注：形状工具加上矩形与箭头
+const STYLED_TYPES = new Set<ToolType>([...SHAPE_TYPES, ToolType.RECTANGLE, ToolType.ARROW]);
+const FILLABLE_TYPES = new Set<ToolType>([ToolType.RECTANGLE, ToolType.ELLIPSE, ToolType.POLYGON]);
+const ARROW_TYPES = new Set<ToolType>([ToolType.ARROW, ToolType.DOUBLE_ARROW, ToolType.CURVED_ARROW]);
+
+export const isStyledType = (type: ToolType) => STYLED_TYPES.has(type);
+export const isFillableType = (type: ToolType) => FILLABLE_TYPES.has(type);
+export const isArrowType = (type: ToolType) => ARROW_TYPES.has(type);
+
+export const DEFAULT_SHAPE_STYLE: Required<Omit<ShapeStyle, 'fillColor'>> & Pick<ShapeStyle, 'fillColor'> = {
+  strokeOpacity: 1,
+  dash: 'solid',
+  fillColor: undefined,
+  fillOpacity: 0.3,
+  cornerRadius: 0,
+  arrowHead: 'filled',
+};
+
+/**
+ * 只保留该类型标注适用的样式字段（矩形才有圆角、箭头才有箭头样式……），保持项目文件精简
+ */
+export function pickStyle(type: ToolType, style: ShapeStyle): ShapeStyle {
+  if (!isStyledType(type)) return {};
+  const picked: ShapeStyle = {};
+  if ('strokeOpacity' in style) picked.strokeOpacity = style.strokeOpacity;
+  if ('dash' in style) picked.dash = style.dash;
+  if (isFillableType(type)) {
+    if ('fillColor' in style) picked.fillColor = style.fillColor;
+    if ('fillOpacity' in style) picked.fillOpacity = style.fillOpacity;
+  }
+  if (type === ToolType.RECTANGLE && 'cornerRadius' in style) picked.cornerRadius = style.cornerRadius;
+  if (isArrowType(type) && 'arrowHead' in style) picked.arrowHead = style.arrowHead;
+  return picked;
+}
+
+// 虚线间隔随线宽缩放；点线依赖 round 线帽画出圆点
+function getDashPattern(ann: Annotation): number[] {
+  const w = Math.max(1, ann.strokeWidth);
+  if (ann.dash === 'dashed') return [w * 3, w * 2];
+  if (ann.dash === 'dotted') return [1, w * 2];
+  return [];
+}
+
+export const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * 将终点吸附到 step 度的整数倍方向上（保持长度不变）
+ */
+export function snapAngle(start: Point, end: Point, step = ANGLE_SNAP_STEP): Point {
+  const length = distance(start, end);
+  const unit = (step * Math.PI) / 180;
+  const angle = Math.round(Math.atan2(end.y - start.y, end.x - start.x) / unit) * unit;
+  return { x: start.x + length * Math.cos(angle), y: start.y + length * Math.sin(angle) };
+}
+
+/**
+ * Shift 绘制椭圆时约束为圆：取较长的一边
+ */
+export function constrainSquare(start: Point, end: Point): Point {
+  const size = Math.max(Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+  return {
+    x: start.x + size * Math.sign(end.x - start.x || 1),
+    y: start.y + size * Math.sign(end.y - start.y || 1),
+  };
+}
+
+/**
+ * 曲线箭头的默认控制点：中点沿法线方向偏移 1/4 长度
+ */
+export function defaultControlPoint(start: Point, end: Point): Point {
+  return {
+    x: (start.x + end.x) / 2 + (end.y - start.y) / 4,
+    y: (start.y + end.y) / 2 - (end.x - start.x) / 4,
+  };
+}
+
+// 箭头始终用实线绘制，不受虚线样式影响
+function drawArrowHead(ctx: CanvasRenderingContext2D, tip: Point, angle: number, size: number, style: ArrowHeadStyle) {
+  const left = { x: tip.x - size * Math.cos(angle - Math.PI / 6), y: tip.y - size * Math.sin(angle - Math.PI / 6) };
+  const right = { x: tip.x - size * Math.cos(angle + Math.PI / 6), y: tip.y - size * Math.sin(angle + Math.PI / 6) };
+  ctx.setLineDash([]);
+  ctx.beginPath();
+
+  switch (style) {
+    case 'filled':
+      ctx.moveTo(tip.x, tip.y);
+      ctx.lineTo(left.x, left.y);
+      ctx.lineTo(right.x, right.y);
+      ctx.lineTo(tip.x, tip.y);
+      ctx.fill();
+      break;
+    case 'open':
+      ctx.moveTo(left.x, left.y);
+      ctx.lineTo(tip.x, tip.y);
+      ctx.lineTo(right.x, right.y);
+      ctx.stroke();
+      break;
+    case 'dot':
+      ctx.arc(tip.x, tip.y, size / 2.5, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    case 'bar': {
+      const half = size / 2;
+      const nx = Math.sin(angle) * half;
+      const ny = Math.cos(angle) * half;
+      ctx.moveTo(tip.x - nx, tip.y + ny);
+      ctx.lineTo(tip.x + nx, tip.y - ny);
+      ctx.stroke();
+      break;
+    }
+  }
+}
+
+function traceRect(ctx: CanvasRenderingContext2D, start: Point, end: Point, radius: number) {
+  const x = Math.min(start.x, end.x);
+  const y = Math.min(start.y, end.y);
+  const w = Math.abs(end.x - start.x);
+  const h = Math.abs(end.y - start.y);
+  ctx.beginPath();
+  ctx.roundRect(x, y, w, h, Math.min(radius, w / 2, h / 2));
+}
+
+/**
+ * 绘制形状标注：先按填充透明度填充，再按描边透明度与虚线样式描边
+ */
+export function drawShape(ctx: CanvasRenderingContext2D, ann: Annotation) {
+  const { startPoint: start, endPoint: end } = ann;
+  const headlen = ann.strokeWidth * 3;
+  const arrowHead = ann.arrowHead || 'filled';
+
+  // 描出路径，返回是否为可填充的闭合图形
+  const trace = (): boolean => {
+    switch (ann.type) {
+      case ToolType.RECTANGLE:
+        if (!start || !end) return false;
+        traceRect(ctx, start, end, ann.cornerRadius || 0);
+        return true;
+      case ToolType.ELLIPSE:
+        if (!start || !end) return false;
+        ctx.beginPath();
+        ctx.ellipse((start.x + end.x) / 2, (start.y + end.y) / 2, Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2, 0, 0, Math.PI * 2);
+        return true;
+      case ToolType.LINE:
+      case ToolType.ARROW:
+      case ToolType.DOUBLE_ARROW:
+        if (!start || !end) return false;
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(end.x, end.y);
+        return false;
+      case ToolType.CURVED_ARROW: {
+        if (!start || !end) return false;
+        const control = ann.controlPoint || defaultControlPoint(start, end);
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.quadraticCurveTo(control.x, control.y, end.x, end.y);
+        return false;
+      }
+      case ToolType.POLYLINE:
+      case ToolType.POLYGON: {
+        const points = ann.points || [];
+        if (points.length < 2) return false;
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0].y);
+        points.slice(1).forEach((p) => ctx.lineTo(p.x, p.y));
+        if (ann.type === ToolType.POLYGON && points.length > 2) {
+          ctx.closePath();
+          return true;
+        }
+        return false;
+      }
+      default:
+        return false;
+    }
+  };
+
+  ctx.save();
+  const closed = trace();
+  if (closed && ann.fillColor) {
+    ctx.globalAlpha = ann.fillOpacity ?? DEFAULT_SHAPE_STYLE.fillOpacity;
+    ctx.fillStyle = ann.fillColor;
+    ctx.fill();
+  }
+
+  ctx.globalAlpha = ann.strokeOpacity ?? 1;
+  ctx.setLineDash(getDashPattern(ann));
+  ctx.stroke();
+
+  if (start && end) {
+    ctx.fillStyle = ann.color;
+    if (ann.type === ToolType.ARROW || ann.type === ToolType.DOUBLE_ARROW) {
+      const angle = Math.atan2(end.y - start.y, end.x - start.x);
+      drawArrowHead(ctx, end, angle, headlen, arrowHead);
+      if (ann.type === ToolType.DOUBLE_ARROW) {
+        drawArrowHead(ctx, start, angle + Math.PI, headlen, arrowHead);
+      }
+    } else if (ann.type === ToolType.CURVED_ARROW) {
+      // 箭头方向沿曲线在终点处的切线
+      const control = ann.controlPoint || defaultControlPoint(start, end);
+      drawArrowHead(ctx, end, Math.atan2(end.y - control.y, end.x - control.x), headlen, arrowHead);
+    }
+  }
+  ctx.restore();
+}
+
+// 点到线段的距离
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return distance(p, { x: a.x + t * dx, y: a.y + t * dy });
+}
+
+// 将二次贝塞尔曲线近似为折线
+function flattenCurve(start: Point, control: Point, end: Point, steps = 24): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const u = 1 - t;
+    points.push({
+      x: u * u * start.x + 2 * u * t * control.x + t * t * end.x,
+      y: u * u * start.y + 2 * u * t * control.y + t * t * end.y,
+    });
+  }
+  return points;
+}
+
+// 形状的轮廓（折线顶点），用于命中检测和包围框
+function getOutline(ann: Annotation): Point[] {
+  const { startPoint: start, endPoint: end } = ann;
+  switch (ann.type) {
+    case ToolType.POLYLINE:
+      return ann.points || [];
+    case ToolType.POLYGON:
+      return ann.points && ann.points.length > 2 ? [...ann.points, ann.points[0]] : ann.points || [];
+    case ToolType.CURVED_ARROW:
+      return start && end ? flattenCurve(start, ann.controlPoint || defaultControlPoint(start, end), end) : [];
+    case ToolType.RECTANGLE:
+      return start && end
+        ? [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }, start]
+        : [];
+    case ToolType.ELLIPSE: {
+      if (!start || !end) return [];
+      const cx = (start.x + end.x) / 2;
+      const cy = (start.y + end.y) / 2;
+      const rx = Math.abs(end.x - start.x) / 2;
+      const ry = Math.abs(end.y - start.y) / 2;
+      return Array.from({ length: 49 }, (_, i) => {
+        const angle = (i / 48) * Math.PI * 2;
+        return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+      });
+    }
+    default:
+      return start && end ? [start, end] : [];
+  }
+}
+
+export function getShapeBounds(ann: Annotation): { x: number; y: number; width: number; height: number } | null {
+  const outline = getOutline(ann);
+  if (outline.length === 0) return null;
+  const xs = outline.map((p) => p.x);
+  const ys = outline.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// 射线法判断点是否在闭合轮廓内
+function isInsidePolygon(pt: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > pt.y) !== (b.y > pt.y) && pt.x < ((b.x - a.x) * (pt.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * 点是否落在形状的描边上（容差随线宽放大）；有填充的闭合图形内部也算命中
+ */
+export function hitTestShape(ann: Annotation, pt: Point, tolerance = 6): boolean {
+  const outline = getOutline(ann);
+  const threshold = tolerance + ann.strokeWidth / 2;
+  for (let i = 1; i < outline.length; i++) {
+    if (distanceToSegment(pt, outline[i - 1], outline[i]) <= threshold) return true;
+  }
+  return !!ann.fillColor && isFillableType(ann.type) && outline.length > 2 && isInsidePolygon(pt, outline);
+}
+
+/**
+ * 平移标注的所有坐标
+ */
+export function translateAnnotation(ann: Annotation, dx: number, dy: number): Annotation {
+  const move = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+  return {
+    ...ann,
+    startPoint: ann.startPoint && move(ann.startPoint),
+    endPoint: ann.endPoint && move(ann.endPoint),
+    controlPoint: ann.controlPoint && move(ann.controlPoint),
+    targetPoint: ann.targetPoint && move(ann.targetPoint),
+    points: ann.points && ann.points.map(move),
+  };
+}
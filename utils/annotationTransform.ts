@@ -0,0 +1,451 @@
+/**
+ * Annotation Transform
+ * 编辑器选中标注后的变换：任意类型的命中检测、包围框缩放手柄、线条端点手柄、旋转手柄（Shift 等比 / 15° 吸附）、放大镜插图拖动
+ */
+
+import { Annotation, Point, ToolType } from '../types';
+import { ANGLE_SNAP_STEP, defaultControlPoint, distance, distanceToSegment, getShapeBounds, hitTestShape, snapAngle, translateAnnotation } from './annotationShapes';
+import { getMagnifierBounds, getMagnifierGeometry, hitTestMagnifierTarget, isCalloutType } from './callouts';
+import { isObscuringType } from './redaction';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type HandleId = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'rotate' | 'start' | 'end' | 'control' | 'target';
+
+// 一次拖拽：从按下时的标注快照出发计算，避免累积误差
+export interface TransformSession {
+  handle: HandleId | 'move';
+  origin: Annotation;
+  startPoint: Point;
+  origins?: Annotation[]; // 移动时一起平移的全部选中标注（多选/编组）
+}
+
+// 以下尺寸均为屏幕像素，绘制和命中时乘以画布缩放比例
+const HANDLE_SIZE = 8;
+const ROTATE_HANDLE_OFFSET = 24;
+const HIT_TOLERANCE = 6;
+
+const SELECTION_COLOR = '#3b82f6';
+
+// 用端点而不是包围框编辑的线条类标注
+const LINE_TYPES = new Set<ToolType>([ToolType.LINE, ToolType.ARROW, ToolType.DOUBLE_ARROW, ToolType.CURVED_ARROW]);
+
+export const isLineType = (type: ToolType) => LINE_TYPES.has(type);
+
+export const getFontSize = (ann: Annotation) => ann.fontSize || ann.strokeWidth * 6;
+
+export const getCounterRadius = (ann: Annotation) => 12 + ann.strokeWidth;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function measureText(text: string, fontSize: number): number {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * fontSize * 0.6;
+  measureContext.font = `${fontSize}px Inter, sans-serif`;
+  return measureContext.measureText(text).width;
+}
+
+function pointsBounds(points: Point[]): Bounds | null {
+  if (points.length === 0) return null;
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * 未旋转时的包围框（标注自身坐标系）
+ */
+export function getAnnotationBounds(ann: Annotation): Bounds | null {
+  switch (ann.type) {
+    case ToolType.TEXT: {
+      if (!ann.startPoint || !ann.text) return null;
+      const fontSize = getFontSize(ann);
+      return { x: ann.startPoint.x, y: ann.startPoint.y, width: measureText(ann.text, fontSize), height: fontSize };
+    }
+    case ToolType.COUNTER: {
+      if (!ann.startPoint) return null;
+      const r = getCounterRadius(ann);
+      return { x: ann.startPoint.x - r, y: ann.startPoint.y - r, width: r * 2, height: r * 2 };
+    }
+    case ToolType.PEN:
+    case ToolType.HIGHLIGHTER:
+      return pointsBounds(ann.points || []);
+    case ToolType.PIXELATE:
+    case ToolType.BLUR:
+    case ToolType.REDACT:
+    case ToolType.SPOTLIGHT:
+    case ToolType.MAGNIFIER: // 源区域；插图单独拖动
+    case ToolType.IMAGE:
+      return ann.startPoint && ann.endPoint ? pointsBounds([ann.startPoint, ann.endPoint]) : null;
+    default:
+      return getShapeBounds(ann);
+  }
+}
+
+/**
+ * 旋转后在画布上的外接矩形，用于框选、对齐与分布
+ */
+export function getWorldBounds(ann: Annotation): Bounds | null {
+  if (ann.type === ToolType.MAGNIFIER) return getMagnifierBounds(ann);
+  const b = getAnnotationBounds(ann);
+  if (!b || !ann.rotation) return b;
+  const corners = [
+    { x: b.x, y: b.y },
+    { x: b.x + b.width, y: b.y },
+    { x: b.x + b.width, y: b.y + b.height },
+    { x: b.x, y: b.y + b.height },
+  ].map((p) => toWorld(ann, p));
+  return pointsBounds(corners);
+}
+
+export function getAnnotationCenter(ann: Annotation): Point | null {
+  const b = getAnnotationBounds(ann);
+  return b ? { x: b.x + b.width / 2, y: b.y + b.height / 2 } : null;
+}
+
+export function rotatePoint(p: Point, center: Point, angle: number): Point {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = p.x - center.x;
+  const dy = p.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+}
+
+// 画布坐标 → 标注未旋转时的坐标
+function toLocal(ann: Annotation, pt: Point): Point {
+  if (!ann.rotation) return pt;
+  const center = getAnnotationCenter(ann);
+  return center ? rotatePoint(pt, center, -ann.rotation) : pt;
+}
+
+function toWorld(ann: Annotation, pt: Point): Point {
+  if (!ann.rotation) return pt;
+  const center = getAnnotationCenter(ann);
+  return center ? rotatePoint(pt, center, ann.rotation) : pt;
+}
+
+/**
+ * 绘制前应用标注的旋转（调用方负责 save/restore）
+ */
+export function applyRotation(ctx: CanvasRenderingContext2D, ann: Annotation) {
+  const center = ann.rotation ? getAnnotationCenter(ann) : null;
+  if (!center) return;
+  ctx.translate(center.x, center.y);
+  ctx.rotate(ann.rotation!);
+  ctx.translate(-center.x, -center.y);
+}
+
+/**
+ * 点是否命中标注：线条/描边按距离判断，文字、计数器、遮挡区域按区域判断
+ */
+export function hitTestAnnotation(ann: Annotation, pt: Point, scale = 1): boolean {
+  const local = toLocal(ann, pt);
+  const tolerance = HIT_TOLERANCE * scale;
+
+  switch (ann.type) {
+    case ToolType.TEXT:
+    case ToolType.COUNTER:
+    case ToolType.PIXELATE:
+    case ToolType.BLUR:
+    case ToolType.REDACT:
+    case ToolType.SPOTLIGHT:
+    case ToolType.MAGNIFIER:
+    case ToolType.IMAGE: {
+      if (ann.type === ToolType.MAGNIFIER && hitTestMagnifierTarget(ann, local)) return true;
+      const b = getAnnotationBounds(ann);
+      return !!b && local.x >= b.x - tolerance && local.x <= b.x + b.width + tolerance &&
+        local.y >= b.y - tolerance && local.y <= b.y + b.height + tolerance;
+    }
+    case ToolType.PEN:
+    case ToolType.HIGHLIGHTER: {
+      const points = ann.points || [];
+      const width = ann.type === ToolType.HIGHLIGHTER ? ann.strokeWidth * 3 : ann.strokeWidth;
+      if (points.length === 1) return distance(local, points[0]) <= tolerance + width / 2;
+      for (let i = 1; i < points.length; i++) {
+        if (distanceToSegment(local, points[i - 1], points[i]) <= tolerance + width / 2) return true;
+      }
+      return false;
+    }
+    default:
+      return hitTestShape(ann, local, tolerance);
+  }
+}
+
+/**
+ * 选中标注的手柄位置（画布坐标）
+ */
+export function getHandles(ann: Annotation, scale = 1): { id: HandleId; point: Point }[] {
+  if (isLineType(ann.type)) {
+    if (!ann.startPoint || !ann.endPoint) return [];
+    const handles: { id: HandleId; point: Point }[] = [
+      { id: 'start', point: ann.startPoint },
+      { id: 'end', point: ann.endPoint },
+    ];
+    if (ann.type === ToolType.CURVED_ARROW) {
+      handles.push({ id: 'control', point: ann.controlPoint || defaultControlPoint(ann.startPoint, ann.endPoint) });
+    }
+    return handles;
+  }
+
+  // 计数器只能移动
+  const b = getAnnotationBounds(ann);
+  if (!b || ann.type === ToolType.COUNTER) return [];
+  const { x, y, width: w, height: h } = b;
+  const local: { id: HandleId; point: Point }[] = [
+    { id: 'nw', point: { x, y } },
+    { id: 'ne', point: { x: x + w, y } },
+    { id: 'se', point: { x: x + w, y: y + h } },
+    { id: 'sw', point: { x, y: y + h } },
+  ];
+  // 文字只能等比缩放，不提供边中点手柄
+  if (ann.type !== ToolType.TEXT) {
+    local.push(
+      { id: 'n', point: { x: x + w / 2, y } },
+      { id: 'e', point: { x: x + w, y: y + h / 2 } },
+      { id: 's', point: { x: x + w / 2, y: y + h } },
+      { id: 'w', point: { x, y: y + h / 2 } },
+    );
+  }
+  // 遮挡区域按原图采样、聚光灯与放大镜按画布区域取景，不支持旋转
+  if (!isObscuringType(ann.type) && !isCalloutType(ann.type)) {
+    local.push({ id: 'rotate', point: { x: x + w / 2, y: y - ROTATE_HANDLE_OFFSET * scale } });
+  }
+  return local.map((handle) => ({ ...handle, point: toWorld(ann, handle.point) }));
+}
+
+export function hitTestHandle(ann: Annotation, pt: Point, scale = 1): HandleId | null {
+  const handle = getHandles(ann, scale).find((h) => distance(h.point, pt) <= HANDLE_SIZE * scale);
+  if (handle) return handle.id;
+  // 放大镜的插图整体作为手柄，拖动时只移动插图
+  return ann.type === ToolType.MAGNIFIER && hitTestMagnifierTarget(ann, pt) ? 'target' : null;
+}
+
+// 手柄对应的鼠标指针（未考虑旋转，足够提示方向）
+export function getHandleCursor(handle: HandleId | 'move'): string {
+  switch (handle) {
+    case 'nw':
+    case 'se':
+      return 'nwse-resize';
+    case 'ne':
+    case 'sw':
+      return 'nesw-resize';
+    case 'n':
+    case 's':
+      return 'ns-resize';
+    case 'e':
+    case 'w':
+      return 'ew-resize';
+    case 'rotate':
+      return 'grab';
+    case 'move':
+    case 'target':
+      return 'move';
+    default:
+      return 'pointer';
+  }
+}
+
+// 将标注从 from 包围框线性映射到以 (left, top) 为原点、缩放 sx/sy 的位置
+function scaleAnnotation(ann: Annotation, from: Bounds, left: number, top: number, sx: number, sy: number): Annotation {
+  const map = (p: Point) => ({ x: left + (p.x - from.x) * sx, y: top + (p.y - from.y) * sy });
+  if (ann.type === ToolType.TEXT && ann.startPoint) {
+    const scale = Math.abs(sx);
+    return {
+      ...ann,
+      fontSize: Math.max(6, getFontSize(ann) * scale),
+      startPoint: { x: Math.min(left, left + from.width * sx), y: Math.min(top, top + from.height * sy) },
+    };
+  }
+  return {
+    ...ann,
+    startPoint: ann.startPoint && map(ann.startPoint),
+    endPoint: ann.endPoint && map(ann.endPoint),
+    controlPoint: ann.controlPoint && map(ann.controlPoint),
+    points: ann.points && ann.points.map(map),
+  };
+}
+
+function resize(origin: Annotation, handle: HandleId, pt: Point, keepRatio: boolean): Annotation {
+  const b = getAnnotationBounds(origin);
+  const center = getAnnotationCenter(origin);
+  if (!b || !center) return origin;
+  const local = toLocal(origin, pt);
+
+  const movesLeft = handle.includes('w');
+  const movesRight = handle.includes('e');
+  const movesTop = handle.includes('n');
+  const movesBottom = handle.includes('s');
+
+  // 缩放比例（允许为负，即拖过对边时翻转）
+  let sx = b.width && (movesLeft || movesRight) ? (movesLeft ? b.x + b.width - local.x : local.x - b.x) / b.width : 1;
+  let sy = b.height && (movesTop || movesBottom) ? (movesBottom ? local.y - b.y : b.y + b.height - local.y) / b.height : 1;
+  if (keepRatio && handle.length === 2) {
+    const s = Math.max(Math.abs(sx), Math.abs(sy));
+    sx = Math.sign(sx || 1) * s;
+    sy = Math.sign(sy || 1) * s;
+  }
+
+  // 对边/对角保持不动
+  const anchor = { x: movesLeft ? b.x + b.width : b.x, y: movesTop ? b.y + b.height : b.y };
+  const left = movesLeft ? anchor.x - b.width * sx : b.x;
+  const top = movesTop ? anchor.y - b.height * sy : b.y;
+  let result = scaleAnnotation(origin, b, left, top, sx, sy);
+
+  // 旋转中心随包围框变化，平移回去使锚点在画布上的位置不变
+  if (origin.rotation) {
+    const newCenter = getAnnotationCenter(result);
+    if (newCenter) {
+      const before = rotatePoint(anchor, center, origin.rotation);
+      const after = rotatePoint(anchor, newCenter, origin.rotation);
+      result = translateAnnotation(result, before.x - after.x, before.y - after.y);
+    }
+  }
+  return result;
+}
+
+/**
+ * 移动：返回平移后的全部选中标注
+ */
+export function applyMove(session: TransformSession, pt: Point): Annotation[] {
+  const dx = pt.x - session.startPoint.x;
+  const dy = pt.y - session.startPoint.y;
+  return (session.origins || [session.origin]).map((ann) => translateAnnotation(ann, dx, dy));
+}
+
+/**
+ * 根据拖拽中的指针位置计算变换后的标注；shift 为 true 时等比缩放 / 角度吸附
+ */
+export function applyTransform(session: TransformSession, pt: Point, shift: boolean): Annotation {
+  const { origin, handle, startPoint } = session;
+
+  switch (handle) {
+    case 'move':
+      return translateAnnotation(origin, pt.x - startPoint.x, pt.y - startPoint.y);
+    case 'start':
+      return { ...origin, startPoint: shift && origin.endPoint ? snapAngle(origin.endPoint, pt) : pt };
+    case 'end':
+      return { ...origin, endPoint: shift && origin.startPoint ? snapAngle(origin.startPoint, pt) : pt };
+    case 'control':
+      return { ...origin, controlPoint: pt };
+    case 'target':
+      return origin.targetPoint
+        ? { ...origin, targetPoint: { x: origin.targetPoint.x + pt.x - startPoint.x, y: origin.targetPoint.y + pt.y - startPoint.y } }
+        : origin;
+    case 'rotate': {
+      const center = getAnnotationCenter(origin);
+      if (!center) return origin;
+      // 手柄位于正上方，对应角度 0
+      let angle = Math.atan2(pt.y - center.y, pt.x - center.x) + Math.PI / 2;
+      if (shift) {
+        const step = (ANGLE_SNAP_STEP * Math.PI) / 180;
+        angle = Math.round(angle / step) * step;
+      }
+      return { ...origin, rotation: angle };
+    }
+    default:
+      // 图片拖角默认保持比例
+      return resize(origin, handle, pt, shift || origin.type === ToolType.TEXT || origin.type === ToolType.IMAGE);
+  }
+}
+
+/**
+ * 绘制选中状态：旋转后的虚线包围框与手柄；线条类只显示端点（曲线箭头含控制点辅助线）
+ */
+export function drawSelection(ctx: CanvasRenderingContext2D, ann: Annotation, scale = 1) {
+  const handles = getHandles(ann, scale);
+  const size = HANDLE_SIZE * scale;
+
+  ctx.save();
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.lineWidth = scale;
+  ctx.setLineDash([4 * scale, 4 * scale]);
+
+  if (isLineType(ann.type)) {
+    if (ann.type === ToolType.CURVED_ARROW && ann.startPoint && ann.endPoint) {
+      const control = ann.controlPoint || defaultControlPoint(ann.startPoint, ann.endPoint);
+      ctx.beginPath();
+      ctx.moveTo(ann.startPoint.x, ann.startPoint.y);
+      ctx.lineTo(control.x, control.y);
+      ctx.lineTo(ann.endPoint.x, ann.endPoint.y);
+      ctx.stroke();
+    }
+  } else {
+    const b = getAnnotationBounds(ann);
+    if (b) {
+      ctx.save();
+      applyRotation(ctx, ann);
+      const margin = ann.type === ToolType.TEXT ? 4 : 0;
+      ctx.strokeRect(b.x - margin, b.y - margin, b.width + margin * 2, b.height + margin * 2);
+      const geo = ann.type === ToolType.MAGNIFIER ? getMagnifierGeometry(ann) : null;
+      if (geo?.target) {
+        // 插图外圈，提示可单独拖动
+        ctx.beginPath();
+        ctx.arc(geo.target.x, geo.target.y, geo.targetRadius + 4 * scale, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+      const rotate = handles.find((h) => h.id === 'rotate');
+      if (rotate) {
+        ctx.beginPath();
+        ctx.moveTo(b.x + b.width / 2, b.y);
+        ctx.lineTo(b.x + b.width / 2, b.y - ROTATE_HANDLE_OFFSET * scale);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+  }
+
+  ctx.setLineDash([]);
+  ctx.fillStyle = '#ffffff';
+  for (const handle of handles) {
+    ctx.beginPath();
+    if (handle.id === 'rotate' || handle.id === 'control') {
+      ctx.arc(handle.point.x, handle.point.y, size / 2 + scale, 0, Math.PI * 2);
+    } else {
+      ctx.rect(handle.point.x - size / 2, handle.point.y - size / 2, size, size);
+    }
+    ctx.fill();
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * 多选/编组的选中状态：每个标注一个虚线外接框，外加整体外接框（只能移动，不显示手柄）
+ */
+export function drawMultiSelection(ctx: CanvasRenderingContext2D, list: Annotation[], scale = 1) {
+  const all = list.map(getWorldBounds).filter((b): b is Bounds => !!b);
+  if (all.length === 0) return;
+
+  ctx.save();
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.lineWidth = scale;
+  ctx.setLineDash([4 * scale, 4 * scale]);
+  all.forEach((b) => ctx.strokeRect(b.x, b.y, b.width, b.height));
+
+  const margin = 4 * scale;
+  const x = Math.min(...all.map((b) => b.x)) - margin;
+  const y = Math.min(...all.map((b) => b.y)) - margin;
+  const right = Math.max(...all.map((b) => b.x + b.width)) + margin;
+  const bottom = Math.max(...all.map((b) => b.y + b.height)) + margin;
+  ctx.setLineDash([]);
+  ctx.strokeRect(x, y, right - x, bottom - y);
+  ctx.restore();
+}
+
+export function drawMarquee(ctx: CanvasRenderingContext2D, start: Point, end: Point, scale = 1) {
+  ctx.save();
+  ctx.fillStyle = 'rgba(59, 130, 246, 0.1)';
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.lineWidth = scale;
+  ctx.setLineDash([4 * scale, 4 * scale]);
+  ctx.fillRect(start.x, start.y, end.x - start.x, end.y - start.y);
+  ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+  ctx.restore();
+}
@@ -0,0 +1,311 @@
+/**
+ * Background Render
+ * 画布背景：解析 CSS linear/radial/conic-gradient（角度、方向关键字、多个色标）并按 CSS 规则绘制到 canvas，
+ * 以及图片壁纸（铺满/拉伸/平铺，可模糊）
+ */
+
+import { BackgroundConfig, WallpaperFit } from '../types';
+
+export type GradientKind = 'linear' | 'radial' | 'conic';
+
+export interface GradientStop {
+  color: string;
+  offset: number; // 0-1
+}
+
+export interface ParsedGradient {
+  kind: GradientKind;
+  angle: number; // 度：linear 为渐变方向（0 向上，顺时针），conic 为起始角度；radial 不使用
+  shape: 'circle' | 'ellipse'; // radial
+  position: { x: number; y: number }; // radial/conic 的中心，相对画布宽高 0-1
+  stops: GradientStop[];
+}
+
+export const WALLPAPER_FITS: WallpaperFit[] = ['cover', 'stretch', 'tile'];
+
+const GRADIENT_RE = /^\s*(linear|radial|conic)-gradient\((.*)\)\s*$/is;
+
+const SIDE_ANGLES: Record<string, number> = {
+  'to top': 0,
+  'to top right': 45,
+  'to right': 90,
+  'to bottom right': 135,
+  'to bottom': 180,
+  'to bottom left': 225,
+  'to left': 270,
+  'to top left': 315,
+};
+
+const POSITION_KEYWORDS: Record<string, number> = { left: 0, top: 0, center: 0.5, right: 1, bottom: 1 };
+
+export const isGradientValue = (value: string) => GRADIENT_RE.test(value);
+
+// 按顶层逗号切分（忽略 rgba(...) 等括号内的逗号）
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (ch === ',' && depth === 0) {
+      parts.push(input.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(input.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+function parseAngle(token: string): number | null {
+  const match = /^(-?[\d.]+)(deg|rad|grad|turn)?$/i.exec(token.trim());
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  switch ((match[2] || 'deg').toLowerCase()) {
+    case 'rad': return (value * 180) / Math.PI;
+    case 'grad': return value * 0.9;
+    case 'turn': return value * 360;
+    default: return value;
+  }
+}
+
+// 单个位置分量：百分比或关键字，返回 0-1
+function parsePositionPart(token: string): number | null {
+  if (token in POSITION_KEYWORDS) return POSITION_KEYWORDS[token];
+  const match = /^(-?[\d.]+)%$/.exec(token);
+  return match ? parseFloat(match[1]) / 100 : null;
+}
+
+function parsePosition(tokens: string[]): { x: number; y: number } {
+  const position = { x: 0.5, y: 0.5 };
+  if (tokens.length === 1 && (tokens[0] === 'top' || tokens[0] === 'bottom')) {
+    position.y = POSITION_KEYWORDS[tokens[0]];
+    return position;
+  }
+  // 关键字顺序可以是 "top left"，按关键字归到对应轴
+  if (tokens.length === 2 && (tokens[0] === 'top' || tokens[0] === 'bottom' || tokens[1] === 'left' || tokens[1] === 'right')) {
+    tokens = [tokens[1], tokens[0]];
+  }
+  const x = tokens[0] !== undefined ? parsePositionPart(tokens[0]) : null;
+  const y = tokens[1] !== undefined ? parsePositionPart(tokens[1]) : null;
+  if (x !== null) position.x = x;
+  if (y !== null) position.y = y;
+  return position;
+}
+
+/**
+ * 色标：颜色后可跟 0-2 个位置（百分比，conic 也可用角度）；返回 null 表示不是色标
+ */
+function parseStop(token: string, kind: GradientKind): { color: string; offsets: number[] } | null {
+  const closing = token.lastIndexOf(')');
+  const colorEnd = closing >= 0 && /^[a-z-]+\(/i.test(token) ? closing + 1 : token.search(/\s|$/);
+  const color = token.slice(0, colorEnd).trim();
+  if (!color) return null;
+  const offsets: number[] = [];
+  for (const part of token.slice(colorEnd).trim().split(/\s+/).filter(Boolean)) {
+    const percent = /^(-?[\d.]+)%$/.exec(part);
+    const angle = kind === 'conic' ? parseAngle(part) : null;
+    if (percent) offsets.push(parseFloat(percent[1]) / 100);
+    else if (angle !== null && /[a-z]$/i.test(part)) offsets.push(angle / 360);
+    else if (part !== '0') return null;
+    else offsets.push(0);
+  }
+  return { color, offsets };
+}
+
+/**
+ * 缺省位置的色标：首尾分别为 0 和 1，中间的在相邻已知位置之间均分；位置不得小于前一个色标
+ */
+function resolveStops(raw: { color: string; offset: number | null }[]): GradientStop[] {
+  const offsets = raw.map((s) => s.offset);
+  if (offsets[0] === null) offsets[0] = 0;
+  if (offsets[offsets.length - 1] === null) offsets[offsets.length - 1] = 1;
+  for (let i = 1; i < offsets.length; i++) {
+    if (offsets[i] !== null) {
+      offsets[i] = Math.max(offsets[i]!, offsets[i - 1]!);
+      continue;
+    }
+    let next = i;
+    while (offsets[next] === null) next++;
+    const from = offsets[i - 1]!;
+    const step = (Math.max(offsets[next]!, from) - from) / (next - i + 1);
+    for (let j = i; j < next; j++) offsets[j] = from + step * (j - i + 1);
+    i = next - 1;
+  }
+  return raw.map((s, i) => ({ color: s.color, offset: offsets[i]! }));
+}
+
+/**
+ * 解析 CSS 渐变字符串，不支持的语法返回 null
+ */
+export function parseGradient(css: string): ParsedGradient | null {
+  const match = GRADIENT_RE.exec(css);
+  if (!match) return null;
+  const kind = match[1].toLowerCase() as GradientKind;
+  const parts = splitTopLevel(match[2]);
+  const gradient: ParsedGradient = {
+    kind,
+    angle: kind === 'linear' ? 180 : 0,
+    shape: 'ellipse',
+    position: { x: 0.5, y: 0.5 },
+    stops: [],
+  };
+
+  // 第一项可能是方向/形状/位置说明而不是色标
+  let header = parts[0]?.toLowerCase().replace(/\s+/g, ' ').trim() ?? '';
+  // "to right top" 与 "to top right" 等价
+  const side = /^to (left|right) (top|bottom)$/.exec(header);
+  if (side) header = `to ${side[2]} ${side[1]}`;
+  let stopParts = parts;
+  if (kind === 'linear') {
+    const angle = parseAngle(header);
+    if (angle !== null) gradient.angle = angle;
+    else if (header in SIDE_ANGLES) gradient.angle = SIDE_ANGLES[header];
+    if (angle !== null || header in SIDE_ANGLES) stopParts = parts.slice(1);
+  } else if (/^(circle|ellipse|closest|farthest|at |from )/.test(header) || / at /.test(header)) {
+    const [shapePart, positionPart] = header.split(/\s*\bat\b\s*/);
+    const shapeTokens = shapePart.split(' ').filter(Boolean);
+    if (kind === 'radial' && shapeTokens.includes('circle')) gradient.shape = 'circle';
+    if (kind === 'conic' && shapeTokens[0] === 'from') gradient.angle = parseAngle(shapeTokens[1] ?? '') ?? 0;
+    if (positionPart) gradient.position = parsePosition(positionPart.split(' ').filter(Boolean));
+    stopParts = parts.slice(1);
+  }
+
+  const raw: { color: string; offset: number | null }[] = [];
+  for (const part of stopParts) {
+    const stop = parseStop(part, kind);
+    if (!stop) return null;
+    if (stop.offsets.length === 0) raw.push({ color: stop.color, offset: null });
+    // 双位置色标等价于同色的两个色标（硬边）
+    stop.offsets.forEach((offset) => raw.push({ color: stop.color, offset }));
+  }
+  if (raw.length < 2) return null;
+  gradient.stops = resolveStops(raw);
+  return gradient;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * 生成等价的 CSS 字符串（用于渐变编辑器与预设按钮预览）
+ */
+export function gradientToCss(gradient: ParsedGradient): string {
+  const stops = gradient.stops.map((s) => `${s.color} ${round(s.offset * 100)}%`).join(', ');
+  const at = `at ${round(gradient.position.x * 100)}% ${round(gradient.position.y * 100)}%`;
+  switch (gradient.kind) {
+    case 'radial': return `radial-gradient(${gradient.shape} ${at}, ${stops})`;
+    case 'conic': return `conic-gradient(from ${round(gradient.angle)}deg ${at}, ${stops})`;
+    default: return `linear-gradient(${round(gradient.angle)}deg, ${stops})`;
+  }
+}
+
+/**
+ * 按 CSS 规则填充渐变：linear 的渐变线长度使角落恰好落在 0%/100%，radial 取 farthest-corner 尺寸
+ */
+export function fillGradient(ctx: CanvasRenderingContext2D, gradient: ParsedGradient, width: number, height: number) {
+  ctx.save();
+  let fill: CanvasGradient;
+  // 需要填充的区域（椭圆渐变时在缩放后的坐标系中）
+  let area = { x: 0, y: 0, width, height };
+  const cx = gradient.position.x * width;
+  const cy = gradient.position.y * height;
+  if (gradient.kind === 'linear') {
+    const rad = (gradient.angle * Math.PI) / 180;
+    const dx = Math.sin(rad);
+    const dy = -Math.cos(rad);
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+    fill = ctx.createLinearGradient(width / 2 - dx * half, height / 2 - dy * half, width / 2 + dx * half, height / 2 + dy * half);
+  } else if (gradient.kind === 'radial') {
+    const farX = Math.max(cx, width - cx);
+    const farY = Math.max(cy, height - cy);
+    if (gradient.shape === 'circle') {
+      fill = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.hypot(farX, farY));
+    } else {
+      // 椭圆：在缩放后的坐标系中画圆；farthest-corner 的椭圆与 farthest-side 的宽高比相同
+      const rx = farX * Math.SQRT2 || 1;
+      const ry = farY * Math.SQRT2 || 1;
+      ctx.translate(cx, cy);
+      ctx.scale(1, ry / rx);
+      ctx.translate(-cx, -cy);
+      area = { x: 0, y: cy - (cy * rx) / ry, width, height: (height * rx) / ry };
+      fill = ctx.createRadialGradient(cx, cy, 0, cx, cy, rx);
+    }
+  } else {
+    // CSS 的 0deg 朝上，canvas 的 0 弧度朝右
+    fill = ctx.createConicGradient(((gradient.angle - 90) * Math.PI) / 180, cx, cy);
+  }
+  gradient.stops.forEach((s) => {
+    try {
+      fill.addColorStop(Math.min(1, Math.max(0, s.offset)), s.color);
+    } catch {
+      // 无法识别的颜色忽略
+    }
+  });
+  ctx.fillStyle = fill;
+  ctx.fillRect(area.x, area.y, area.width, area.height);
+  ctx.restore();
+}
+
+// 当前壁纸的解码缓存（同一时间只有一张壁纸）
+let wallpaperCache: { src: string; image: HTMLImageElement } | null = null;
+
+/**
+ * 取得壁纸图片；尚未加载完成时返回 null，加载完成后调用 onLoad 以便重绘
+ */
+export function getWallpaperImage(src: string, onLoad: () => void): HTMLImageElement | null {
+  if (wallpaperCache?.src === src) {
+    const { image } = wallpaperCache;
+    return image.complete && image.naturalWidth > 0 ? image : null;
+  }
+  const image = new Image();
+  image.onload = onLoad;
+  image.src = src;
+  wallpaperCache = { src, image };
+  return null;
+}
+
+function drawWallpaper(ctx: CanvasRenderingContext2D, image: HTMLImageElement, fit: WallpaperFit, blur: number, width: number, height: number) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, width, height);
+  ctx.clip();
+  // filter 的模糊半径按画布像素计算，不随变换缩放（2x 导出时需放大）
+  if (blur > 0) ctx.filter = `blur(${blur * ctx.getTransform().a}px)`;
+  // 模糊时向外多画一圈，避免边缘透出透明色
+  const bleed = blur * 2;
+  if (fit === 'tile') {
+    const pattern = ctx.createPattern(image, 'repeat');
+    if (pattern) {
+      ctx.fillStyle = pattern;
+      ctx.fillRect(-bleed, -bleed, width + bleed * 2, height + bleed * 2);
+    }
+  } else if (fit === 'stretch') {
+    ctx.drawImage(image, -bleed, -bleed, width + bleed * 2, height + bleed * 2);
+  } else {
+    const scale = Math.max((width + bleed * 2) / image.naturalWidth, (height + bleed * 2) / image.naturalHeight);
+    const w = image.naturalWidth * scale;
+    const h = image.naturalHeight * scale;
+    ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+  }
+  ctx.restore();
+}
+
+/**
+ * 绘制整个画布的背景；壁纸尚未加载（wallpaper 为 null）时先留空
+ */
+export function drawBackground(ctx: CanvasRenderingContext2D, bg: BackgroundConfig, width: number, height: number, wallpaper: HTMLImageElement | null) {
+  ctx.clearRect(0, 0, width, height);
+  if (bg.type === 'transparent') return;
+  if (bg.type === 'image') {
+    if (wallpaper) drawWallpaper(ctx, wallpaper, bg.imageFit || 'cover', bg.imageBlur || 0, width, height);
+    return;
+  }
+  const gradient = parseGradient(bg.value);
+  if (gradient) {
+    fillGradient(ctx, gradient, width, height);
+  } else {
+    ctx.fillStyle = bg.value;
+    ctx.fillRect(0, 0, width, height);
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Callouts
+ * 教程常用的强调标注：聚光灯（压暗一个或多个矩形/椭圆区域以外的内容）与放大镜（源区域的圆形放大插图 + 连接线）
+ */
+
+import { Annotation, Point, ToolType } from '../types';
+import type { Bounds } from './annotationTransform';
+
+export const DEFAULT_DIM_OPACITY = 0.6;
+export const DEFAULT_ZOOM = 2;
+
+// 单击（未拖拽）创建放大镜时的源区域边长
+export const DEFAULT_MAGNIFIER_SIZE = 80;
+
+// 放大插图与源区域之间的默认间距
+const TARGET_GAP = 40;
+
+const CALLOUT_TYPES = new Set<ToolType>([ToolType.SPOTLIGHT, ToolType.MAGNIFIER]);
+
+export const isCalloutType = (type: ToolType) => CALLOUT_TYPES.has(type);
+
+function rectOf(a: Point, b: Point): Bounds {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+// 离屏图层复用，避免每帧创建与图片同尺寸的画布
+let overlayCanvas: HTMLCanvasElement | null = null;
+let insetCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * 绘制所有聚光灯的合并遮罩（ctx 已平移到图片坐标系）：压暗 area（图片及扩展出的画布区域），挖空每个聚光灯区域。
+ * 多个聚光灯共用一层遮罩，重叠的区域不会被重复压暗；压暗程度取第一个聚光灯的设置
+ */
+export function drawSpotlights(ctx: CanvasRenderingContext2D, spotlights: Annotation[], area: Bounds) {
+  if (spotlights.length === 0 || area.width <= 0 || area.height <= 0) return;
+  if (!overlayCanvas) overlayCanvas = document.createElement('canvas');
+  // 遮罩按画布像素分辨率绘制，缩放显示或 2x 导出时边缘依然清晰
+  const scale = ctx.getTransform().a;
+  overlayCanvas.width = Math.max(1, Math.ceil(area.width * scale));
+  overlayCanvas.height = Math.max(1, Math.ceil(area.height * scale));
+  const octx = overlayCanvas.getContext('2d');
+  if (!octx) return;
+
+  octx.fillStyle = `rgba(0, 0, 0, ${spotlights[0].dimOpacity ?? DEFAULT_DIM_OPACITY})`;
+  octx.fillRect(0, 0, overlayCanvas.width, overlayCanvas.height);
+  octx.scale(scale, scale);
+  octx.translate(-area.x, -area.y);
+  octx.globalCompositeOperation = 'destination-out';
+  octx.fillStyle = '#000000';
+  for (const ann of spotlights) {
+    if (!ann.startPoint || !ann.endPoint) continue;
+    const r = rectOf(ann.startPoint, ann.endPoint);
+    octx.beginPath();
+    if (ann.spotlightShape === 'ellipse') {
+      octx.ellipse(r.x + r.width / 2, r.y + r.height / 2, r.width / 2, r.height / 2, 0, 0, Math.PI * 2);
+    } else {
+      octx.rect(r.x, r.y, r.width, r.height);
+    }
+    octx.fill();
+  }
+  octx.globalCompositeOperation = 'source-over';
+
+  ctx.save();
+  ctx.globalAlpha = 1;
+  ctx.drawImage(overlayCanvas, area.x, area.y, area.width, area.height);
+  ctx.restore();
+}
+
+export interface MagnifierGeometry {
+  source: Point; // 源区域圆心
+  sourceRadius: number;
+  target?: Point; // 放大插图圆心，创建过程中尚未确定
+  targetRadius: number;
+}
+
+export function getMagnifierGeometry(ann: Annotation): MagnifierGeometry | null {
+  if (!ann.startPoint || !ann.endPoint) return null;
+  const r = rectOf(ann.startPoint, ann.endPoint);
+  const sourceRadius = Math.max(r.width, r.height) / 2;
+  return {
+    source: { x: r.x + r.width / 2, y: r.y + r.height / 2 },
+    sourceRadius,
+    target: ann.targetPoint,
+    targetRadius: sourceRadius * (ann.zoom || DEFAULT_ZOOM),
+  };
+}
+
+/**
+ * 放大插图的默认位置：源区域右上方，超出图片右侧/顶部时翻到另一侧
+ */
+export function defaultMagnifierTarget(ann: Annotation, imageWidth: number): Point | null {
+  const geo = getMagnifierGeometry(ann);
+  if (!geo) return null;
+  const offset = (geo.sourceRadius + geo.targetRadius + TARGET_GAP) / Math.SQRT2;
+  let x = geo.source.x + offset;
+  let y = geo.source.y - offset;
+  if (x + geo.targetRadius > imageWidth) x = geo.source.x - offset;
+  if (y - geo.targetRadius < 0) y = geo.source.y + offset;
+  return { x, y };
+}
+
+/**
+ * 包含源区域与放大插图的外接矩形
+ */
+export function getMagnifierBounds(ann: Annotation): Bounds | null {
+  const geo = getMagnifierGeometry(ann);
+  if (!geo) return null;
+  const circles = [{ c: geo.source, r: geo.sourceRadius }];
+  if (geo.target) circles.push({ c: geo.target, r: geo.targetRadius });
+  const x = Math.min(...circles.map(({ c, r }) => c.x - r));
+  const y = Math.min(...circles.map(({ c, r }) => c.y - r));
+  const right = Math.max(...circles.map(({ c, r }) => c.x + r));
+  const bottom = Math.max(...circles.map(({ c, r }) => c.y + r));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+export function hitTestMagnifierTarget(ann: Annotation, pt: Point): boolean {
+  const geo = getMagnifierGeometry(ann);
+  return !!geo?.target && Math.hypot(pt.x - geo.target.x, pt.y - geo.target.y) <= geo.targetRadius;
+}
+
+/**
+ * 绘制放大镜（ctx 已平移到图片坐标系）。
+ * 放大内容取自画布上已绘制的内容，因此下层的标注和遮挡区域也会如实出现在插图中，不会泄露被遮挡的原图
+ */
+export function drawMagnifier(ctx: CanvasRenderingContext2D, ann: Annotation) {
+  const geo = getMagnifierGeometry(ann);
+  if (!geo || geo.sourceRadius <= 0) return;
+  const { source, sourceRadius, target, targetRadius } = geo;
+
+  // 先截取源区域：画布当前变换下对应的像素范围（画布可能有边距平移），避免截到连接线与插图本身
+  let inset: HTMLCanvasElement | null = null;
+  if (target) {
+    const m = ctx.getTransform();
+    const size = Math.max(1, Math.round(sourceRadius * 2 * m.a));
+    if (!insetCanvas) insetCanvas = document.createElement('canvas');
+    insetCanvas.width = size;
+    insetCanvas.height = size;
+    const ictx = insetCanvas.getContext('2d');
+    if (ictx) {
+      ictx.drawImage(ctx.canvas, m.a * (source.x - sourceRadius) + m.e, m.d * (source.y - sourceRadius) + m.f, size, size, 0, 0, size, size);
+      inset = insetCanvas;
+    }
+  }
+
+  ctx.save();
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = ann.color;
+  ctx.lineWidth = ann.strokeWidth;
+
+  if (target) {
+    // 连接线：两个圆的外沿之间，重叠时不画
+    const dx = target.x - source.x;
+    const dy = target.y - source.y;
+    const length = Math.hypot(dx, dy);
+    if (length > sourceRadius + targetRadius) {
+      const ux = dx / length;
+      const uy = dy / length;
+      ctx.beginPath();
+      ctx.moveTo(source.x + ux * sourceRadius, source.y + uy * sourceRadius);
+      ctx.lineTo(target.x - ux * targetRadius, target.y - uy * targetRadius);
+      ctx.stroke();
+    }
+
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+    ctx.shadowBlur = 12;
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.arc(target.x, target.y, targetRadius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+
+    if (inset) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(target.x, target.y, targetRadius, 0, Math.PI * 2);
+      ctx.clip();
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(inset, target.x - targetRadius, target.y - targetRadius, targetRadius * 2, targetRadius * 2);
+      ctx.restore();
+    }
+
+    ctx.beginPath();
+    ctx.arc(target.x, target.y, targetRadius, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  ctx.beginPath();
+  ctx.arc(source.x, source.y, sourceRadius, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+}
@@ -0,0 +1,64 @@
+/**
+ * Canvas Layout
+ * 画布尺寸与内容位置：默认由图片、画布扩展、外框与边距决定；指定输出尺寸（社交媒体预设）时画布固定为该尺寸，
+ * 内容在边距内等比缩放并居中，标注随内容一起缩放
+ */
+
+import { BackgroundConfig, CanvasExpansion } from '../types';
+import { getFrameInsets } from './frameMockups';
+
+export const OUTPUT_PRESETS: { label: string; width: number; height: number }[] = [
+  { label: 'Open Graph', width: 1200, height: 630 },
+  { label: 'Square', width: 1080, height: 1080 },
+  { label: 'Full HD', width: 1920, height: 1080 },
+  { label: 'Slide 16:9', width: 1280, height: 720 },
+];
+
+export interface CanvasLayout {
+  width: number; // 画布尺寸（逻辑像素，导出倍率之前）
+  height: number;
+  x: number; // 底图左上角在画布中的位置
+  y: number;
+  scale: number; // 图片坐标 → 画布坐标的缩放
+  contentWidth: number; // 底图加画布扩展的尺寸（图片坐标）
+  contentHeight: number;
+}
+
+export function getCanvasLayout(bg: BackgroundConfig, expansion: CanvasExpansion, baseWidth: number, baseHeight: number): CanvasLayout {
+  const contentWidth = baseWidth + expansion.left + expansion.right;
+  const contentHeight = baseHeight + expansion.top + expansion.bottom;
+  const insets = getFrameInsets(bg, contentWidth);
+  // 外框连同内容的尺寸，以及底图在其中的位置
+  const innerWidth = contentWidth + insets.left + insets.right;
+  const innerHeight = contentHeight + insets.top + insets.bottom;
+  const originX = insets.left + expansion.left;
+  const originY = insets.top + expansion.top;
+  const padding = bg.padding;
+
+  if (!bg.outputSize || innerWidth <= 0 || innerHeight <= 0) {
+    return {
+      width: innerWidth + padding * 2,
+      height: innerHeight + padding * 2,
+      x: padding + originX,
+      y: padding + originY,
+      scale: 1,
+      contentWidth,
+      contentHeight,
+    };
+  }
+
+  const { width, height } = bg.outputSize;
+  // 边距超过输出尺寸时至少保留 1px 的内容区域
+  const scale = Math.min(Math.max(1, width - padding * 2) / innerWidth, Math.max(1, height - padding * 2) / innerHeight);
+  const left = (width - innerWidth * scale) / 2;
+  const top = (height - innerHeight * scale) / 2;
+  return {
+    width,
+    height,
+    x: left + originX * scale,
+    y: top + originY * scale,
+    scale,
+    contentWidth,
+    contentHeight,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Edge Snap
+ * 选区吸附：从冻结的屏幕画面中检测窗口边框（长的水平/垂直亮度突变线），
+ * 与显示器边缘一起作为选区拖动/缩放时的吸附目标
+ */
+
+export interface SnapLines {
+  xs: number[]; // 垂直线的 x 坐标（窗口 CSS 像素）
+  ys: number[]; // 水平线的 y 坐标
+}
+
+// 相邻像素亮度差超过该值视为边缘
+const EDGE_CONTRAST = 24;
+// 连续边缘长度至少为该值（CSS 像素）才认为是窗口边框
+const MIN_EDGE_LENGTH = 80;
+// 吸附距离（CSS 像素）
+export const SNAP_THRESHOLD = 8;
+
+/**
+ * 检测画面中的长直边。pixels 为原生分辨率，scale = 原生像素 / CSS 像素，
+ * 在 CSS 像素网格上采样以控制计算量
+ */
+export function detectEdgeLines(pixels: ImageData, scale: number): SnapLines {
+  const { data, width: pw, height: ph } = pixels;
+  const width = Math.floor(pw / scale);
+  const height = Math.floor(ph / scale);
+
+  const luma = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(ph - 1, Math.round(y * scale));
+    for (let x = 0; x < width; x++) {
+      const i = (sy * pw + Math.min(pw - 1, Math.round(x * scale))) * 4;
+      luma[y * width + x] = (data[i] * 77 + data[i + 1] * 150 + data[i + 2] * 29) >> 8;
+    }
+  }
+
+  const xs: number[] = [];
+  for (let x = 1; x < width; x++) {
+    let run = 0;
+    let longest = 0;
+    for (let y = 0; y < height; y++) {
+      const i = y * width + x;
+      if (Math.abs(luma[i] - luma[i - 1]) > EDGE_CONTRAST) {
+        run++;
+        if (run > longest) longest = run;
+      } else {
+        run = 0;
+      }
+    }
+    if (longest >= MIN_EDGE_LENGTH) xs.push(x);
+  }
+
+  const ys: number[] = [];
+  for (let y = 1; y < height; y++) {
+    let run = 0;
+    let longest = 0;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (Math.abs(luma[i] - luma[i - width]) > EDGE_CONTRAST) {
+        run++;
+        if (run > longest) longest = run;
+      } else {
+        run = 0;
+      }
+    }
+    if (longest >= MIN_EDGE_LENGTH) ys.push(y);
+  }
+
+  return { xs: dedupe(xs), ys: dedupe(ys) };
+}
+
+// 阴影/抗锯齿会产生几条紧挨着的边，只保留每组中的第一条
+function dedupe(lines: number[]): number[] {
+  const result: number[] = [];
+  for (const line of lines) {
+    if (result.length === 0 || line - result[result.length - 1] > 2) {
+      result.push(line);
+    }
+  }
+  return result;
+}
+
+/**
+ * 返回距离 value 最近且在阈值内的吸附线，没有则返回 null
+ */
+export function findSnap(value: number, lines: number[], threshold = SNAP_THRESHOLD): number | null {
+  let best: number | null = null;
+  let bestDistance = threshold + 1;
+  for (const line of lines) {
+    const distance = Math.abs(line - value);
+    if (distance < bestDistance) {
+      best = line;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
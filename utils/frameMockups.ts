@@ -0,0 +1,311 @@
+/**
+ * Frame Mockups
+ * 美化截图的外框：macOS / Windows 标题栏、带地址栏的浏览器窗口、笔记本与手机样机，以及圆角与可调的投影
+ */
+
+import { BackgroundConfig, CanvasExpansion, FrameStyle } from '../types';
+import type { Bounds } from './annotationTransform';
+
+export const FRAME_STYLES: { style: FrameStyle; label: string }[] = [
+  { style: 'none', label: 'None' },
+  { style: 'macos', label: 'macOS' },
+  { style: 'windows', label: 'Windows' },
+  { style: 'browser', label: 'Browser' },
+  { style: 'laptop', label: 'Laptop' },
+  { style: 'phone', label: 'Phone' },
+];
+
+export interface ShadowStyle {
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+  color: string;
+}
+
+export const DEFAULT_SHADOW: ShadowStyle = { blur: 30, offsetX: 0, offsetY: 15, color: '#0000004d' };
+
+export const DEFAULT_FRAME_URL = 'example.com';
+
+const TITLE_BAR_HEIGHT = 32;
+const BROWSER_BAR_HEIGHT = 52;
+// 窗口外框未设置圆角时的默认值
+const WINDOW_RADIUS = 10;
+const TRAFFIC_LIGHTS = ['#ff5f57', '#febc2e', '#28c840'];
+const WINDOWS_BUTTON_WIDTH = 46;
+// 笔记本底座比机身两侧各宽出的比例
+const LAPTOP_BASE_OVERHANG = 0.08;
+
+const THEMES = {
+  light: { window: '#ffffff', bar: '#ececec', border: 'rgba(0, 0, 0, 0.1)', text: '#4b5563', field: '#ffffff' },
+  dark: { window: '#1e1e1e', bar: '#2d2d2d', border: 'rgba(255, 255, 255, 0.08)', text: '#d1d5db', field: '#3a3a3a' },
+};
+
+const NO_INSETS: CanvasExpansion = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const hasFrame = (bg: BackgroundConfig) => !!bg.frame && bg.frame !== 'none';
+
+export const isWindowFrame = (frame: FrameStyle | undefined) => frame === 'macos' || frame === 'windows' || frame === 'browser';
+
+// 样机边框粗细随屏幕宽度缩放
+const deviceBezel = (frame: FrameStyle, width: number) =>
+  Math.round(frame === 'phone' ? Math.max(10, width * 0.045) : Math.max(12, width * 0.025));
+
+const laptopBaseHeight = (width: number) => Math.round(Math.max(10, width * 0.03));
+
+// 圆角半径：窗口外框默认带圆角，样机的屏幕圆角由机型决定
+export const getCornerRadius = (bg: BackgroundConfig) => bg.cornerRadius ?? (isWindowFrame(bg.frame) ? WINDOW_RADIUS : 0);
+
+export function getShadowStyle(bg: BackgroundConfig): ShadowStyle | null {
+  if (!bg.shadow) return null;
+  return {
+    blur: bg.shadowBlur ?? DEFAULT_SHADOW.blur,
+    offsetX: bg.shadowOffsetX ?? DEFAULT_SHADOW.offsetX,
+    offsetY: bg.shadowOffsetY ?? DEFAULT_SHADOW.offsetY,
+    color: bg.shadowColor ?? DEFAULT_SHADOW.color,
+  };
+}
+
+/**
+ * 设置投影；canvas 的投影参数不受变换影响，这里按当前缩放换算，输出尺寸缩放与 2x 导出时投影比例不变
+ * 缩放取变换矩阵列向量的长度，旋转后的图片图层同样适用
+ */
+export function applyShadow(ctx: CanvasRenderingContext2D, shadow: ShadowStyle) {
+  const m = ctx.getTransform();
+  const scale = Math.hypot(m.a, m.b);
+  ctx.shadowColor = shadow.color;
+  ctx.shadowBlur = shadow.blur * scale;
+  ctx.shadowOffsetX = shadow.offsetX * scale;
+  ctx.shadowOffsetY = shadow.offsetY * scale;
+}
+
+/**
+ * 外框在屏幕区域（截图内容）四周占用的空间
+ */
+export function getFrameInsets(bg: BackgroundConfig, screenWidth: number): CanvasExpansion {
+  switch (bg.frame) {
+    case 'macos':
+    case 'windows':
+      return { ...NO_INSETS, top: TITLE_BAR_HEIGHT };
+    case 'browser':
+      return { ...NO_INSETS, top: BROWSER_BAR_HEIGHT };
+    case 'laptop': {
+      const bezel = deviceBezel('laptop', screenWidth);
+      const overhang = Math.round((screenWidth + bezel * 2) * LAPTOP_BASE_OVERHANG);
+      return { top: bezel, right: bezel + overhang, bottom: bezel + laptopBaseHeight(screenWidth), left: bezel + overhang };
+    }
+    case 'phone': {
+      const bezel = deviceBezel('phone', screenWidth);
+      return { top: bezel, right: bezel, bottom: bezel, left: bezel };
+    }
+    default:
+      return NO_INSETS;
+  }
+}
+
+// 屏幕区域的圆角 [左上, 右上, 右下, 左下]，窗口外框只有底部两角
+function screenRadii(bg: BackgroundConfig, screen: Bounds): number[] {
+  const max = Math.min(screen.width, screen.height) / 2;
+  let radii: number[];
+  if (isWindowFrame(bg.frame)) {
+    const r = getCornerRadius(bg);
+    radii = [0, 0, r, r];
+  } else if (bg.frame === 'phone') {
+    const r = deviceBezel('phone', screen.width) * 2.5;
+    radii = [r, r, r, r];
+  } else if (bg.frame === 'laptop') {
+    radii = [0, 0, 0, 0];
+  } else {
+    const r = getCornerRadius(bg);
+    radii = [r, r, r, r];
+  }
+  return radii.map((r) => Math.max(0, Math.min(r, max)));
+}
+
+/**
+ * 将后续绘制裁剪到屏幕区域（圆角）
+ */
+export function clipToScreen(ctx: CanvasRenderingContext2D, bg: BackgroundConfig, screen: Bounds) {
+  ctx.beginPath();
+  ctx.roundRect(screen.x, screen.y, screen.width, screen.height, screenRadii(bg, screen));
+  ctx.clip();
+}
+
+function drawTrafficLights(ctx: CanvasRenderingContext2D, x: number, centerY: number) {
+  TRAFFIC_LIGHTS.forEach((color, i) => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(x + i * 20, centerY, 6, 0, Math.PI * 2);
+    ctx.fill();
+  });
+}
+
+function drawWindowsButtons(ctx: CanvasRenderingContext2D, right: number, centerY: number, color: string) {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  const centers = [2.5, 1.5, 0.5].map((n) => right - WINDOWS_BUTTON_WIDTH * n);
+  // 最小化
+  ctx.beginPath();
+  ctx.moveTo(centers[0] - 5, centerY + 0.5);
+  ctx.lineTo(centers[0] + 5, centerY + 0.5);
+  ctx.stroke();
+  // 最大化
+  ctx.strokeRect(centers[1] - 4.5, centerY - 4.5, 9, 9);
+  // 关闭
+  ctx.beginPath();
+  ctx.moveTo(centers[2] - 5, centerY - 5);
+  ctx.lineTo(centers[2] + 5, centerY + 5);
+  ctx.moveTo(centers[2] + 5, centerY - 5);
+  ctx.lineTo(centers[2] - 5, centerY + 5);
+  ctx.stroke();
+}
+
+function drawWindowFrame(ctx: CanvasRenderingContext2D, bg: BackgroundConfig, screen: Bounds, shadow: ShadowStyle | null) {
+  const theme = THEMES[bg.frameTheme || 'light'];
+  const barHeight = getFrameInsets(bg, screen.width).top;
+  const outer = { x: screen.x, y: screen.y - barHeight, width: screen.width, height: screen.height + barHeight };
+  const radius = Math.min(getCornerRadius(bg), outer.width / 2, outer.height / 2);
+
+  ctx.save();
+  if (shadow) applyShadow(ctx, shadow);
+  ctx.fillStyle = theme.window;
+  ctx.beginPath();
+  ctx.roundRect(outer.x, outer.y, outer.width, outer.height, radius);
+  ctx.fill();
+  ctx.restore();
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(outer.x, outer.y, outer.width, outer.height, radius);
+  ctx.clip();
+  ctx.fillStyle = theme.bar;
+  ctx.fillRect(outer.x, outer.y, outer.width, barHeight);
+  ctx.fillStyle = theme.border;
+  ctx.fillRect(outer.x, screen.y - 1, outer.width, 1);
+
+  const centerY = outer.y + barHeight / 2;
+  if (bg.frame === 'windows') {
+    drawWindowsButtons(ctx, outer.x + outer.width, centerY, theme.text);
+  } else {
+    drawTrafficLights(ctx, outer.x + 18, centerY);
+  }
+  if (bg.frame === 'browser') {
+    // 地址栏：红绿灯右侧到窗口右边缘
+    const barX = outer.x + 84;
+    const barWidth = outer.x + outer.width - 16 - barX;
+    if (barWidth > 40) {
+      ctx.fillStyle = theme.field;
+      ctx.beginPath();
+      ctx.roundRect(barX, centerY - 14, barWidth, 28, 8);
+      ctx.fill();
+      ctx.strokeStyle = theme.border;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.clip();
+      ctx.fillStyle = theme.text;
+      ctx.font = '13px Inter, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(bg.frameUrl || DEFAULT_FRAME_URL, barX + barWidth / 2, centerY + 1);
+    }
+  }
+  ctx.restore();
+}
+
+function drawLaptop(ctx: CanvasRenderingContext2D, screen: Bounds, shadow: ShadowStyle | null) {
+  const bezel = deviceBezel('laptop', screen.width);
+  const body = { x: screen.x - bezel, y: screen.y - bezel, width: screen.width + bezel * 2, height: screen.height + bezel * 2 };
+  const overhang = Math.round(body.width * LAPTOP_BASE_OVERHANG);
+  const baseHeight = laptopBaseHeight(screen.width);
+  const base = { x: body.x - overhang, y: body.y + body.height, width: body.width + overhang * 2, height: baseHeight };
+
+  // 机身与底座一起投影
+  ctx.save();
+  if (shadow) applyShadow(ctx, shadow);
+  ctx.fillStyle = '#1f2937';
+  ctx.beginPath();
+  ctx.roundRect(body.x, body.y, body.width, body.height, [bezel, bezel, 0, 0]);
+  ctx.roundRect(base.x, base.y, base.width, base.height, [0, 0, baseHeight / 2, baseHeight / 2]);
+  ctx.fill();
+  ctx.restore();
+
+  ctx.save();
+  const metal = ctx.createLinearGradient(0, base.y, 0, base.y + base.height);
+  metal.addColorStop(0, '#e5e7eb');
+  metal.addColorStop(1, '#9ca3af');
+  ctx.fillStyle = metal;
+  ctx.beginPath();
+  ctx.roundRect(base.x, base.y, base.width, base.height, [0, 0, baseHeight / 2, baseHeight / 2]);
+  ctx.fill();
+  // 开合槽口
+  const notchWidth = body.width * 0.15;
+  ctx.fillStyle = '#9ca3af';
+  ctx.beginPath();
+  ctx.roundRect(base.x + (base.width - notchWidth) / 2, base.y, notchWidth, baseHeight * 0.35, [0, 0, 4, 4]);
+  ctx.fill();
+  // 摄像头
+  ctx.fillStyle = '#4b5563';
+  ctx.beginPath();
+  ctx.arc(body.x + body.width / 2, body.y + bezel / 2, Math.max(1.5, bezel * 0.15), 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+function drawPhone(ctx: CanvasRenderingContext2D, screen: Bounds, shadow: ShadowStyle | null) {
+  const bezel = deviceBezel('phone', screen.width);
+  const body = { x: screen.x - bezel, y: screen.y - bezel, width: screen.width + bezel * 2, height: screen.height + bezel * 2 };
+  const radius = Math.min(bezel * 3.5, body.width / 2, body.height / 2);
+
+  ctx.save();
+  if (shadow) applyShadow(ctx, shadow);
+  ctx.fillStyle = '#111827';
+  ctx.beginPath();
+  ctx.roundRect(body.x, body.y, body.width, body.height, radius);
+  ctx.fill();
+  ctx.restore();
+
+  ctx.save();
+  ctx.strokeStyle = '#374151';
+  ctx.lineWidth = Math.max(1, bezel * 0.15);
+  ctx.beginPath();
+  ctx.roundRect(body.x, body.y, body.width, body.height, radius);
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * 在截图下方绘制外框（含投影）；screen 为截图内容占据的区域（画布坐标）。
+ * 无外框时只画圆角投影
+ */
+export function drawFrame(ctx: CanvasRenderingContext2D, bg: BackgroundConfig, screen: Bounds) {
+  const shadow = getShadowStyle(bg);
+  if (isWindowFrame(bg.frame)) {
+    drawWindowFrame(ctx, bg, screen, shadow);
+  } else if (bg.frame === 'laptop') {
+    drawLaptop(ctx, screen, shadow);
+  } else if (bg.frame === 'phone') {
+    drawPhone(ctx, screen, shadow);
+  } else if (shadow) {
+    ctx.save();
+    applyShadow(ctx, shadow);
+    ctx.fillStyle = 'black';
+    ctx.beginPath();
+    ctx.roundRect(screen.x, screen.y, screen.width, screen.height, screenRadii(bg, screen));
+    ctx.fill();
+    ctx.restore();
+  }
+}
+
+/**
+ * 盖在截图上方的外框部分（手机的灵动岛）
+ */
+export function drawFrameOverlay(ctx: CanvasRenderingContext2D, bg: BackgroundConfig, screen: Bounds) {
+  if (bg.frame !== 'phone') return;
+  const height = Math.max(8, screen.width * 0.07);
+  const width = screen.width * 0.3;
+  ctx.save();
+  ctx.fillStyle = '#000000';
+  ctx.beginPath();
+  ctx.roundRect(screen.x + (screen.width - width) / 2, screen.y + height * 0.5, width, height, height / 2);
+  ctx.fill();
+  ctx.restore();
+}
@@ -0,0 +1,51 @@
+/**
+ * History Search
+ * 历史记录搜索与筛选：匹配文件名、标签、来源窗口标题和 OCR 文字，支持日期范围与截图类型
+ */
+
+import { CaptureHistory, CaptureType } from '../types';
+
+export interface HistoryFilter {
+  query: string;
+  captureType: CaptureType | 'all';
+  // YYYY-MM-DD（<input type="date"> 的值），空字符串表示不限
+  from: string;
+  to: string;
+  favoritesOnly: boolean;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  captureType: 'all',
+  from: '',
+  to: '',
+  favoritesOnly: false,
+};
+
+function matchesQuery(item: CaptureHistory, terms: string[]): boolean {
+  const haystack = [item.filename, item.source, item.ocrText, ...(item.tags || []).map((tag) => `#${tag}`)]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  // 每个词都要命中（AND），"#tag" 只匹配标签
+  return terms.every((term) => haystack.includes(term));
+}
+
+/**
+ * 按条件筛选，收藏的记录排在最前，其余保持时间倒序
+ */
+export function filterHistory(items: CaptureHistory[], filter: HistoryFilter): CaptureHistory[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+
+  const result = items.filter((item) =>
+    (filter.captureType === 'all' || item.captureType === filter.captureType) &&
+    (!filter.favoritesOnly || item.favorite) &&
+    item.timestamp >= from &&
+    item.timestamp <= to &&
+    (terms.length === 0 || matchesQuery(item, terms))
+  );
+
+  return result.sort((a, b) => Number(!!b.favorite) - Number(!!a.favorite) || b.timestamp - a.timestamp);
+}
@@ -0,0 +1,176 @@
+/**
+ * Image Layers
+ * 多图拼接：画布中额外的图片图层（作为 IMAGE 类型标注，可移动/缩放/对齐）、画布扩展与快速布局（左右并排、上下堆叠、2x2 网格）
+ */
+
+import { Annotation, BackgroundConfig, CanvasExpansion, CleanSnapProject, ToolType } from '../types';
+import { Bounds, getWorldBounds } from './annotationTransform';
+import { ShadowStyle, applyShadow } from './frameMockups';
+import { createProject } from './projectFile';
+
+export type LayoutMode = 'horizontal' | 'vertical' | 'grid';
+
+export const NO_EXPANSION: CanvasExpansion = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const isNoExpansion = (e: CanvasExpansion) => !e.top && !e.right && !e.bottom && !e.left;
+
+// 逐边取较大值，只扩大不缩小
+export const growExpansion = (a: CanvasExpansion, b: CanvasExpansion): CanvasExpansion => ({
+  top: Math.max(a.top, b.top),
+  right: Math.max(a.right, b.right),
+  bottom: Math.max(a.bottom, b.bottom),
+  left: Math.max(a.left, b.left),
+});
+
+// 布局中图片之间的间距
+export const LAYOUT_GAP = 24;
+
+// 网格布局的列数
+const GRID_COLUMNS = 2;
+
+let idCounter = 0;
+export const newImageId = () => `img-${Date.now()}-${++idCounter}`;
+
+// 已解码的图层图片，按 imageId 缓存
+const imageCache = new Map<string, { src: string; image: HTMLImageElement }>();
+
+/**
+ * 取得图层图片；尚未加载完成时返回 null，加载完成后调用 onLoad 以便重绘
+ */
+export function getLayerImage(imageId: string, src: string | undefined, onLoad: () => void): HTMLImageElement | null {
+  if (!src) return null;
+  const cached = imageCache.get(imageId);
+  if (cached && cached.src === src) return cached.image.complete && cached.image.naturalWidth > 0 ? cached.image : null;
+  const image = new Image();
+  image.onload = onLoad;
+  image.src = src;
+  imageCache.set(imageId, { src, image });
+  return null;
+}
+
+export function loadImageSize(src: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+export function createImageLayer(imageId: string, bounds: Bounds): Annotation {
+  return {
+    id: `${Date.now()}-${imageId}`,
+    type: ToolType.IMAGE,
+    imageId,
+    startPoint: { x: bounds.x, y: bounds.y },
+    endPoint: { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    color: '#000000',
+    strokeWidth: 0,
+  };
+}
+
+/**
+ * 绘制图片图层（ctx 已平移到图片坐标系并应用了旋转）；图片缺失或未加载时画占位框
+ */
+export function drawImageLayer(ctx: CanvasRenderingContext2D, ann: Annotation, image: HTMLImageElement | null, shadow: ShadowStyle | null) {
+  if (!ann.startPoint || !ann.endPoint) return;
+  const x = Math.min(ann.startPoint.x, ann.endPoint.x);
+  const y = Math.min(ann.startPoint.y, ann.endPoint.y);
+  const width = Math.abs(ann.endPoint.x - ann.startPoint.x);
+  const height = Math.abs(ann.endPoint.y - ann.startPoint.y);
+
+  ctx.save();
+  if (!image) {
+    ctx.strokeStyle = 'rgba(148, 163, 184, 0.8)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 6]);
+    ctx.strokeRect(x, y, width, height);
+    ctx.restore();
+    return;
+  }
+  // 与底图相同的投影
+  if (shadow) applyShadow(ctx, shadow);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, x, y, width, height);
+  ctx.restore();
+}
+
+const isImageLayer = (ann: Annotation) => ann.type === ToolType.IMAGE;
+
+/**
+ * 把图片图层按布局摆放在底图（位于原点，尺寸不变）之后，返回更新后的全部标注；
+ * 并排时与底图等高，堆叠时与底图等宽，网格时等比放入与底图同尺寸的格子并居中
+ */
+export function layoutImageLayers(annotations: Annotation[], baseWidth: number, baseHeight: number, mode: LayoutMode): Annotation[] {
+  const placements = new Map<string, Bounds>();
+  let cursor = mode === 'horizontal' ? baseWidth + LAYOUT_GAP : baseHeight + LAYOUT_GAP;
+
+  annotations.filter(isImageLayer).forEach((ann, i) => {
+    const b = getWorldBounds({ ...ann, rotation: undefined });
+    if (!b || b.width === 0 || b.height === 0) return;
+    const aspect = b.width / b.height;
+    if (mode === 'horizontal') {
+      placements.set(ann.id, { x: cursor, y: 0, width: baseHeight * aspect, height: baseHeight });
+      cursor += baseHeight * aspect + LAYOUT_GAP;
+    } else if (mode === 'vertical') {
+      placements.set(ann.id, { x: 0, y: cursor, width: baseWidth, height: baseWidth / aspect });
+      cursor += baseWidth / aspect + LAYOUT_GAP;
+    } else {
+      // 底图占第一个格子
+      const cell = i + 1;
+      const col = cell % GRID_COLUMNS;
+      const row = Math.floor(cell / GRID_COLUMNS);
+      const scale = Math.min(baseWidth / b.width, baseHeight / b.height);
+      const width = b.width * scale;
+      const height = b.height * scale;
+      placements.set(ann.id, {
+        x: col * (baseWidth + LAYOUT_GAP) + (baseWidth - width) / 2,
+        y: row * (baseHeight + LAYOUT_GAP) + (baseHeight - height) / 2,
+        width,
+        height,
+      });
+    }
+  });
+
+  return annotations.map((ann) => {
+    const p = placements.get(ann.id);
+    if (!p) return ann;
+    const { rotation, ...rest } = ann;
+    return { ...rest, startPoint: { x: p.x, y: p.y }, endPoint: { x: p.x + p.width, y: p.y + p.height } };
+  });
+}
+
+/**
+ * 刚好容纳底图与全部标注所需的画布扩展
+ */
+export function fitExpansionToContent(annotations: Annotation[], baseWidth: number, baseHeight: number): CanvasExpansion {
+  const all = annotations.map(getWorldBounds).filter((b): b is Bounds => !!b);
+  if (all.length === 0) return { ...NO_EXPANSION };
+  return {
+    top: Math.ceil(Math.max(0, -Math.min(...all.map((b) => b.y)))),
+    right: Math.ceil(Math.max(0, Math.max(...all.map((b) => b.x + b.width)) - baseWidth)),
+    bottom: Math.ceil(Math.max(0, Math.max(...all.map((b) => b.y + b.height)) - baseHeight)),
+    left: Math.ceil(Math.max(0, -Math.min(...all.map((b) => b.x)))),
+  };
+}
+
+/**
+ * 多个截图一起打开时的拼接项目：第一张为底图，其余作为图片图层按数量选择布局（两三张并排，更多用网格）
+ */
+export async function createCompositionProject(images: string[], background: BackgroundConfig): Promise<CleanSnapProject> {
+  const [base, ...rest] = images;
+  const baseSize = await loadImageSize(base);
+  const layerImages: Record<string, string> = {};
+  const layers: Annotation[] = [];
+  for (const src of rest) {
+    const size = await loadImageSize(src);
+    const imageId = newImageId();
+    layerImages[imageId] = src;
+    layers.push(createImageLayer(imageId, { x: 0, y: 0, ...size }));
+  }
+  const annotations = layoutImageLayers(layers, baseSize.width, baseSize.height, images.length > 3 ? 'grid' : 'horizontal');
+  return createProject(base, annotations, background, {
+    canvasExpansion: fitExpansionToContent(annotations, baseSize.width, baseSize.height),
+    images: layerImages,
+  });
+}
@@ -0,0 +1,318 @@
+/**
+ * Image Transform
+ * 底图的非破坏性裁剪、90° 旋转、翻转与缩放：原图始终保留，只记录变换参数；
+ * 变换以仿射矩阵表示（原图坐标 → 显示坐标），变换前后的标注按两者之差映射，保持与图片内容对齐
+ */
+
+import { Annotation, ImageTransform, Point, QuarterTurn, ToolType } from '../types';
+import { Bounds, getAnnotationBounds, getAnnotationCenter, getFontSize } from './annotationTransform';
+
+export const IDENTITY_TRANSFORM: ImageTransform = {
+  crop: null,
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  width: null,
+  height: null,
+};
+
+// 裁剪比例预设，null 为自由裁剪
+export const CROP_ASPECTS: { label: string; ratio: number | null }[] = [
+  { label: 'Free', ratio: null },
+  { label: '1:1', ratio: 1 },
+  { label: '4:3', ratio: 4 / 3 },
+  { label: '3:2', ratio: 3 / 2 },
+  { label: '16:9', ratio: 16 / 9 },
+  { label: '9:16', ratio: 9 / 16 },
+];
+
+// 裁剪/缩放后的最小边长
+const MIN_SIZE = 1;
+
+// 仿射矩阵，与 Canvas 的 setTransform(a, b, c, d, e, f) 含义相同
+export interface Matrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export const isIdentityTransform = (t: ImageTransform) =>
+  !t.crop && t.rotation === 0 && !t.flipH && !t.flipV && t.width === null && t.height === null;
+
+export function applyMatrix(m: Matrix, p: Point): Point {
+  return { x: m.a * p.x + m.c * p.y + m.e, y: m.b * p.x + m.d * p.y + m.f };
+}
+
+// m1 ∘ m2：先应用 m2 再应用 m1
+export function multiplyMatrix(m1: Matrix, m2: Matrix): Matrix {
+  return {
+    a: m1.a * m2.a + m1.c * m2.b,
+    b: m1.b * m2.a + m1.d * m2.b,
+    c: m1.a * m2.c + m1.c * m2.d,
+    d: m1.b * m2.c + m1.d * m2.d,
+    e: m1.a * m2.e + m1.c * m2.f + m1.e,
+    f: m1.b * m2.e + m1.d * m2.f + m1.f,
+  };
+}
+
+export function invertMatrix(m: Matrix): Matrix {
+  const det = m.a * m.d - m.b * m.c;
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det,
+  };
+}
+
+export function getCropRect(t: ImageTransform, imageWidth: number, imageHeight: number): Bounds {
+  return t.crop ? { ...t.crop } : { x: 0, y: 0, width: imageWidth, height: imageHeight };
+}
+
+// 裁剪并旋转后、缩放前的尺寸
+function getRotatedSize(t: ImageTransform, imageWidth: number, imageHeight: number) {
+  const crop = getCropRect(t, imageWidth, imageHeight);
+  const sideways = t.rotation === 90 || t.rotation === 270;
+  return { width: sideways ? crop.height : crop.width, height: sideways ? crop.width : crop.height };
+}
+
+/**
+ * 变换后图片的显示尺寸（标注所在的坐标系）
+ */
+export function getDisplaySize(t: ImageTransform, imageWidth: number, imageHeight: number) {
+  const rotated = getRotatedSize(t, imageWidth, imageHeight);
+  return { width: t.width ?? rotated.width, height: t.height ?? rotated.height };
+}
+
+/**
+ * 原图坐标 → 显示坐标：裁剪 → 顺时针旋转 → 翻转 → 缩放
+ */
+export function getImageMatrix(t: ImageTransform, imageWidth: number, imageHeight: number): Matrix {
+  const crop = getCropRect(t, imageWidth, imageHeight);
+  const rotated = getRotatedSize(t, imageWidth, imageHeight);
+  const display = getDisplaySize(t, imageWidth, imageHeight);
+
+  let m: Matrix = { a: 1, b: 0, c: 0, d: 1, e: -crop.x, f: -crop.y };
+  const rotations: Record<QuarterTurn, Matrix> = {
+    0: { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 },
+    90: { a: 0, b: 1, c: -1, d: 0, e: crop.height, f: 0 },
+    180: { a: -1, b: 0, c: 0, d: -1, e: crop.width, f: crop.height },
+    270: { a: 0, b: -1, c: 1, d: 0, e: 0, f: crop.width },
+  };
+  m = multiplyMatrix(rotations[t.rotation], m);
+  m = multiplyMatrix({
+    a: t.flipH ? -1 : 1, b: 0, c: 0, d: t.flipV ? -1 : 1,
+    e: t.flipH ? rotated.width : 0, f: t.flipV ? rotated.height : 0,
+  }, m);
+  return multiplyMatrix({ a: display.width / rotated.width, b: 0, c: 0, d: display.height / rotated.height, e: 0, f: 0 }, m);
+}
+
+/**
+ * 按变换绘制底图，返回显示尺寸的画布（绘制、遮挡采样都以它为准）
+ */
+export function renderTransformedImage(image: HTMLImageElement, t: ImageTransform): HTMLCanvasElement {
+  const { width, height } = getDisplaySize(t, image.naturalWidth, image.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(MIN_SIZE, Math.round(width));
+  canvas.height = Math.max(MIN_SIZE, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  const m = getImageMatrix(t, image.naturalWidth, image.naturalHeight);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.setTransform(m.a, m.b, m.c, m.d, m.e, m.f);
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+}
+
+// --- 变换操作：都以当前显示结果为基准 ---
+
+/**
+ * 旋转 90°（direction 1 为顺时针）。显示坐标中的旋转与翻转交换顺序时水平/垂直翻转互换，缩放尺寸也互换
+ */
+export function rotateTransform(t: ImageTransform, direction: 1 | -1): ImageTransform {
+  return {
+    ...t,
+    rotation: (((t.rotation + direction * 90) % 360 + 360) % 360) as QuarterTurn,
+    flipH: t.flipV,
+    flipV: t.flipH,
+    width: t.height,
+    height: t.width,
+  };
+}
+
+export function flipTransform(t: ImageTransform, axis: 'horizontal' | 'vertical'): ImageTransform {
+  return axis === 'horizontal' ? { ...t, flipH: !t.flipH } : { ...t, flipV: !t.flipV };
+}
+
+export function resizeTransform(t: ImageTransform, width: number, height: number): ImageTransform {
+  return { ...t, width: Math.max(MIN_SIZE, Math.round(width)), height: Math.max(MIN_SIZE, Math.round(height)) };
+}
+
+/**
+ * 按显示坐标中的矩形裁剪；已缩放时保持缩放比例不变
+ */
+export function cropTransform(t: ImageTransform, rect: Bounds, imageWidth: number, imageHeight: number): ImageTransform {
+  const inverse = invertMatrix(getImageMatrix(t, imageWidth, imageHeight));
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+  ].map((p) => applyMatrix(inverse, p));
+  const current = getCropRect(t, imageWidth, imageHeight);
+  const x = Math.max(current.x, Math.round(Math.min(corners[0].x, corners[1].x)));
+  const y = Math.max(current.y, Math.round(Math.min(corners[0].y, corners[1].y)));
+  const right = Math.min(current.x + current.width, Math.round(Math.max(corners[0].x, corners[1].x)));
+  const bottom = Math.min(current.y + current.height, Math.round(Math.max(corners[0].y, corners[1].y)));
+  const crop = { x, y, width: Math.max(MIN_SIZE, right - x), height: Math.max(MIN_SIZE, bottom - y) };
+  return withCrop(t, crop, imageWidth, imageHeight);
+}
+
+export function resetCrop(t: ImageTransform, imageWidth: number, imageHeight: number): ImageTransform {
+  return withCrop(t, null, imageWidth, imageHeight);
+}
+
+function withCrop(t: ImageTransform, crop: ImageTransform['crop'], imageWidth: number, imageHeight: number): ImageTransform {
+  const full = crop && crop.x === 0 && crop.y === 0 && crop.width === imageWidth && crop.height === imageHeight;
+  const next: ImageTransform = { ...t, crop: full ? null : crop, width: null, height: null };
+  if (t.width === null || t.height === null) return next;
+  const before = getRotatedSize(t, imageWidth, imageHeight);
+  const after = getRotatedSize(next, imageWidth, imageHeight);
+  return resizeTransform(next, after.width * (t.width / before.width), after.height * (t.height / before.height));
+}
+
+/**
+ * 约束裁剪框：固定比例（ratio 为宽/高）并限制在图片范围内，起点不动
+ */
+export function constrainCropRect(start: Point, pt: Point, ratio: number | null, width: number, height: number): Bounds {
+  const end = { x: Math.min(Math.max(pt.x, 0), width), y: Math.min(Math.max(pt.y, 0), height) };
+  let w = end.x - start.x;
+  let h = end.y - start.y;
+  if (ratio) {
+    if (Math.abs(w) / ratio >= Math.abs(h)) {
+      h = (Math.sign(h) || 1) * Math.abs(w) / ratio;
+    } else {
+      w = (Math.sign(w) || 1) * Math.abs(h) * ratio;
+    }
+    // 超出图片时等比缩小
+    const maxW = w >= 0 ? width - start.x : start.x;
+    const maxH = h >= 0 ? height - start.y : start.y;
+    const scale = Math.min(1, Math.abs(w) > 0 ? maxW / Math.abs(w) : 1, Math.abs(h) > 0 ? maxH / Math.abs(h) : 1);
+    w *= scale;
+    h *= scale;
+  }
+  return { x: Math.min(start.x, start.x + w), y: Math.min(start.y, start.y + h), width: Math.abs(w), height: Math.abs(h) };
+}
+
+// --- 标注映射 ---
+
+const normalizeAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+// 把坐标相关的数值按比例缩放，保留两位小数，避免连续缩放产生很长的小数
+const scaleValue = (value: number | undefined, s: number) => (value === undefined ? undefined : Math.round(value * s * 100) / 100);
+
+/**
+ * 用仿射矩阵映射一个标注：点坐标直接映射；线宽、字号等按整体缩放比例调整；
+ * 旋转角在翻转时取反。文字和图片图层不镜像，只移动位置并调整角度，文字保持可读
+ */
+export function mapAnnotation(ann: Annotation, m: Matrix): Annotation {
+  const det = m.a * m.d - m.b * m.c;
+  const s = Math.sqrt(Math.abs(det));
+  const flipped = det < 0;
+  const map = (p: Point) => applyMatrix(m, p);
+
+  const styled: Annotation = {
+    ...ann,
+    strokeWidth: scaleValue(ann.strokeWidth, s)!,
+    fontSize: scaleValue(ann.fontSize, s),
+    blurRadius: scaleValue(ann.blurRadius, s),
+    cornerRadius: scaleValue(ann.cornerRadius, s),
+  };
+  // 去掉原本没有的可选字段，保持标注数据干净
+  (['fontSize', 'blurRadius', 'cornerRadius'] as const).forEach((key) => {
+    if (styled[key] === undefined) delete styled[key];
+  });
+
+  // 文字和图片图层整体移动并旋转，不随翻转/非等比缩放变形
+  if (ann.type === ToolType.TEXT || ann.type === ToolType.IMAGE) {
+    const bounds = getAnnotationBounds(ann);
+    const center = getAnnotationCenter(ann);
+    if (!bounds || !center || !ann.startPoint) return styled;
+    const theta = ann.rotation || 0;
+    let rotation: number;
+    if (!flipped) {
+      rotation = theta + Math.atan2(m.b, m.a);
+    } else {
+      // 镜像后的朝向用“文字自身左右镜像 + 旋转”近似，取与原角度更接近的一种
+      const psi = Math.atan2(-m.b, -m.a);
+      const candidates = [psi - theta, psi + Math.PI - theta];
+      rotation = candidates.reduce((best, c) => (Math.abs(normalizeAngle(c - theta)) < Math.abs(normalizeAngle(best - theta)) ? c : best));
+    }
+    rotation = normalizeAngle(rotation);
+    const newCenter = map(center);
+    const width = bounds.width * s;
+    const height = bounds.height * s;
+    const placed: Annotation = {
+      ...styled,
+      startPoint: { x: newCenter.x - width / 2, y: newCenter.y - height / 2 },
+      rotation: Math.abs(rotation) < 1e-9 ? undefined : rotation,
+    };
+    if (ann.type === ToolType.TEXT) {
+      placed.fontSize = Math.round(getFontSize(ann) * s * 100) / 100;
+    } else {
+      placed.endPoint = { x: newCenter.x + width / 2, y: newCenter.y + height / 2 };
+    }
+    return placed;
+  }
+
+  const result: Annotation = {
+    ...styled,
+    startPoint: ann.startPoint && map(ann.startPoint),
+    endPoint: ann.endPoint && map(ann.endPoint),
+    controlPoint: ann.controlPoint && map(ann.controlPoint),
+    targetPoint: ann.targetPoint && map(ann.targetPoint),
+    points: ann.points && ann.points.map(map),
+  };
+  (['startPoint', 'endPoint', 'controlPoint', 'targetPoint', 'points'] as const).forEach((key) => {
+    if (result[key] === undefined) delete result[key];
+  });
+  if (ann.rotation && flipped) result.rotation = -ann.rotation;
+  return result;
+}
+
+/**
+ * 底图变换从 from 变为 to 时，把标注从旧显示坐标映射到新显示坐标
+ */
+export function remapAnnotations(annotations: Annotation[], from: ImageTransform, to: ImageTransform, imageWidth: number, imageHeight: number): Annotation[] {
+  const m = multiplyMatrix(getImageMatrix(to, imageWidth, imageHeight), invertMatrix(getImageMatrix(from, imageWidth, imageHeight)));
+  return annotations.map((ann) => mapAnnotation(ann, m));
+}
+
+/**
+ * 裁剪框预览：框外压暗，框内三分线（ctx 已平移到图片坐标系）
+ */
+export function drawCropOverlay(ctx: CanvasRenderingContext2D, rect: Bounds, width: number, height: number, scale = 1) {
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.beginPath();
+  ctx.rect(0, 0, width, height);
+  ctx.rect(rect.x, rect.y, rect.width, rect.height);
+  ctx.fill('evenodd');
+
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = scale;
+  ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+  ctx.globalAlpha = 0.5;
+  ctx.beginPath();
+  for (let i = 1; i < 3; i++) {
+    ctx.moveTo(rect.x + (rect.width * i) / 3, rect.y);
+    ctx.lineTo(rect.x + (rect.width * i) / 3, rect.y + rect.height);
+    ctx.moveTo(rect.x, rect.y + (rect.height * i) / 3);
+    ctx.lineTo(rect.x + rect.width, rect.y + (rect.height * i) / 3);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
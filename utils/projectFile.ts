@@ -0,0 +1,67 @@
+/**
+ * Project File
+ * .cleansnap 项目文件：保存原始截图、标注图层与背景设置，重新打开后标注仍可编辑
+ */
+
+import { Annotation, BackgroundConfig, CanvasExpansion, CleanSnapProject, ImageTransform } from '../types';
+
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = 'cleansnap';
+
+// 可选的项目内容，缺省时不写入文件，旧版本打开也不受影响
+export interface ProjectExtras {
+  imageTransform?: ImageTransform;
+  canvasExpansion?: CanvasExpansion;
+  images?: Record<string, string>;
+}
+
+export function createProject(image: string, annotations: Annotation[], background: BackgroundConfig, extras: ProjectExtras = {}): CleanSnapProject {
+  // 只保留仍被图片图层引用的图片
+  const usedIds = new Set(annotations.map((a) => a.imageId).filter(Boolean));
+  const images = Object.fromEntries(Object.entries(extras.images || {}).filter(([id]) => usedIds.has(id)));
+  return {
+    version: PROJECT_VERSION,
+    image,
+    // 深拷贝，避免之后编辑器中的修改影响已保存的项目
+    annotations: JSON.parse(JSON.stringify(annotations)),
+    background: { ...background },
+    ...(extras.imageTransform ? { imageTransform: JSON.parse(JSON.stringify(extras.imageTransform)) } : {}),
+    ...(extras.canvasExpansion ? { canvasExpansion: { ...extras.canvasExpansion } } : {}),
+    ...(Object.keys(images).length > 0 ? { images } : {}),
+    savedAt: Date.now(),
+  };
+}
+
+export function serializeProject(project: CleanSnapProject): string {
+  return JSON.stringify(project);
+}
+
+/**
+ * 解析并校验项目文件内容，格式不正确或版本过新时抛出错误
+ */
+export function parseProject(content: string): CleanSnapProject {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Not a valid CleanSnap project file');
+  }
+
+  if (!data || typeof data !== 'object' || typeof data.image !== 'string' || !data.image.startsWith('data:image/')) {
+    throw new Error('Not a valid CleanSnap project file');
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_VERSION) {
+    throw new Error(`Unsupported project version: ${data.version}`);
+  }
+
+  return {
+    version: data.version,
+    image: data.image,
+    annotations: Array.isArray(data.annotations) ? data.annotations : [],
+    background: data.background,
+    ...(data.imageTransform && typeof data.imageTransform === 'object' ? { imageTransform: data.imageTransform } : {}),
+    ...(data.canvasExpansion && typeof data.canvasExpansion === 'object' ? { canvasExpansion: data.canvasExpansion } : {}),
+    ...(data.images && typeof data.images === 'object' ? { images: data.images } : {}),
+    savedAt: typeof data.savedAt === 'number' ? data.savedAt : Date.now(),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Redaction
+ * 遮挡类标注（马赛克、高斯模糊、涂黑）的绘制。安全模式下区域内容只由至少 32px 的粗色块均值
+ * 加上每个会话随机生成的噪声重新生成：导出图中不残留原始像素，噪声无法由项目文件复现，
+ * 每个色块跨越多个字符，大幅增加马赛克还原的难度。色块均值仍带有少量信息，需要完全遮盖时应使用涂黑
+ */
+
+import { Annotation, ToolType } from '../types';
+
+const OBSCURING_TYPES = new Set<ToolType>([ToolType.PIXELATE, ToolType.BLUR, ToolType.REDACT]);
+
+export const isObscuringType = (type: ToolType) => OBSCURING_TYPES.has(type);
+
+export const DEFAULT_BLUR_RADIUS = 12;
+
+// 马赛克色块边长（图片像素）
+const PIXEL_SIZE = 10;
+// 安全模式下色块的最小边长（图片像素），以及叠加到色块均值上的噪声幅度（每个通道 ±）
+const SECURE_MIN_BLOCK = 32;
+const SECURE_NOISE = 32;
+// 噪声种子每次启动随机生成，不写入项目文件；同一会话内固定，预览重绘时噪声不闪烁
+const SESSION_NOISE_SEED = crypto.getRandomValues(new Uint32Array(2)).join('-');
+const REDACT_COLOR = '#000000';
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function getRegion(ann: Annotation): Region | null {
+  if (!ann.startPoint || !ann.endPoint) return null;
+  const x = Math.min(ann.startPoint.x, ann.endPoint.x);
+  const y = Math.min(ann.startPoint.y, ann.endPoint.y);
+  const width = Math.abs(ann.endPoint.x - ann.startPoint.x);
+  const height = Math.abs(ann.endPoint.y - ann.startPoint.y);
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+// 区域在画布像素中的位置（按当前变换换算并取整），裁剪到画布范围内
+function toCanvasRegion(ctx: CanvasRenderingContext2D, region: Region, margin = 0): Region | null {
+  const m = ctx.getTransform();
+  const x = Math.max(0, Math.floor(m.a * region.x + m.e - margin));
+  const y = Math.max(0, Math.floor(m.d * region.y + m.f - margin));
+  const right = Math.min(ctx.canvas.width, Math.ceil(m.a * (region.x + region.width) + m.e + margin));
+  const bottom = Math.min(ctx.canvas.height, Math.ceil(m.d * (region.y + region.height) + m.f + margin));
+  return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null;
+}
+
+// 由种子与序号得到 [-1, 1] 的伪随机数
+function hashNoise(seed: string, index: number): number {
+  let h = 2166136261 ^ index;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  }
+  h = Math.imul(h ^ (h >>> 15), 2246822507);
+  h ^= h >>> 13;
+  return ((h >>> 0) / 0xffffffff) * 2 - 1;
+}
+
+/**
+ * 计算像素数据中每个色块的平均颜色（不透明），返回 cols x rows 的 ImageData
+ */
+function blockAverages(data: ImageData, block: number, noiseSeed: string | null): ImageData {
+  const cols = Math.ceil(data.width / block);
+  const rows = Math.ceil(data.height / block);
+  const out = new ImageData(cols, rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x0 = col * block;
+      const y0 = row * block;
+      const x1 = Math.min(x0 + block, data.width);
+      const y1 = Math.min(y0 + block, data.height);
+      let r = 0, g = 0, b = 0, count = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * data.width + x) * 4;
+          r += data.data[i];
+          g += data.data[i + 1];
+          b += data.data[i + 2];
+          count++;
+        }
+      }
+      const index = row * cols + col;
+      // 每个通道独立的噪声
+      const noise = (channel: number) => (noiseSeed ? hashNoise(noiseSeed, index * 3 + channel) * SECURE_NOISE : 0);
+      out.data[index * 4] = r / count + noise(0);
+      out.data[index * 4 + 1] = g / count + noise(1);
+      out.data[index * 4 + 2] = b / count + noise(2);
+      out.data[index * 4 + 3] = 255;
+    }
+  }
+  return out;
+}
+
+function toCanvas(data: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = data.width;
+  canvas.height = data.height;
+  canvas.getContext('2d')?.putImageData(data, 0, 0);
+  return canvas;
+}
+
+/**
+ * 绘制遮挡标注（ctx 已平移到图片坐标系）。内容取自画布上已绘制的部分，底图、图片图层和下层标注都会被遮挡。
+ * secure 为 true 时区域内不透明地重绘，内容只取决于粗色块均值和会话噪声
+ */
+export function drawObscured(ctx: CanvasRenderingContext2D, ann: Annotation, secure: boolean) {
+  const region = getRegion(ann);
+  if (!region) return;
+
+  if (ann.type === ToolType.REDACT) {
+    ctx.save();
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = REDACT_COLOR;
+    ctx.fillRect(region.x, region.y, region.width, region.height);
+    ctx.restore();
+    return;
+  }
+
+  const area = toCanvasRegion(ctx, region);
+  if (!area) return;
+  const scale = ctx.getTransform().a;
+  const noiseSeed = secure ? `${SESSION_NOISE_SEED}:${ann.id}` : null;
+
+  // 以下在画布像素坐标中绘制
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.beginPath();
+  ctx.rect(area.x, area.y, area.width, area.height);
+  ctx.clip();
+
+  if (ann.type === ToolType.PIXELATE) {
+    const block = Math.max(1, Math.round((secure ? Math.max(PIXEL_SIZE, SECURE_MIN_BLOCK) : PIXEL_SIZE) * scale));
+    const data = ctx.getImageData(area.x, area.y, area.width, area.height);
+    const mosaic = toCanvas(blockAverages(data, block, noiseSeed));
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(mosaic, area.x, area.y, mosaic.width * block, mosaic.height * block);
+  } else {
+    const radius = (ann.blurRadius || DEFAULT_BLUR_RADIUS) * scale;
+    // 连同周围一圈像素一起取样，区域边缘也能模糊自然
+    const padded = toCanvasRegion(ctx, region, radius * 2)!;
+    const data = ctx.getImageData(padded.x, padded.y, padded.width, padded.height);
+    // 先铺一层不透明的底色，避免模糊后边缘透出原内容
+    const base = blockAverages(data, Math.max(data.width, data.height), null);
+    ctx.fillStyle = `rgb(${base.data[0]}, ${base.data[1]}, ${base.data[2]})`;
+    ctx.fillRect(area.x, area.y, area.width, area.height);
+    ctx.filter = `blur(${radius}px)`;
+    if (secure) {
+      // 缩小为粗色块再平滑放大模糊，细节在缩小时已被丢弃
+      const block = Math.max(4, Math.round(SECURE_MIN_BLOCK * scale), Math.round(radius / 2));
+      const coarse = toCanvas(blockAverages(data, block, noiseSeed));
+      ctx.imageSmoothingEnabled = true;
+      ctx.drawImage(coarse, padded.x, padded.y, padded.width, padded.height);
+    } else {
+      ctx.drawImage(toCanvas(data), padded.x, padded.y);
+    }
+  }
+  ctx.restore();
+}
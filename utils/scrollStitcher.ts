@@ -0,0 +1,238 @@
+/**
+ * Scroll Stitcher
+ * 滚动截图拼接：比较相邻两帧的行特征，找出滚动偏移量，把新出现的行追加到长图中
+ * 固定的页眉/页脚（两帧之间保持不变的顶部/底部区域）只保留一份
+ */
+
+export type StitchResult = 'appended' | 'unchanged' | 'no-match' | 'limit-reached';
+
+// Chromium canvas 的最大边长约 32767px
+const MAX_OUTPUT_HEIGHT = 32000;
+// 参与匹配的有效行中，至少需要这么多行一致才认为找到了偏移
+const MIN_MATCH_RATIO = 0.9;
+const MIN_INFORMATIVE_ROWS = 8;
+
+interface RowSignature {
+  hashes: Uint32Array;
+  informative: Uint8Array; // 纯色行（空白行）在任意偏移下都会匹配，不参与判断
+}
+
+function computeRowSignature(frame: ImageData): RowSignature {
+  const { width, height, data } = frame;
+  const hashes = new Uint32Array(height);
+  const informative = new Uint8Array(height);
+
+  for (let y = 0; y < height; y++) {
+    let hash = 2166136261;
+    const rowStart = y * width * 4;
+    const firstPixel = data[rowStart] | (data[rowStart + 1] << 8) | (data[rowStart + 2] << 16);
+    let uniform = true;
+    for (let x = 0; x < width; x++) {
+      const i = rowStart + x * 4;
+      const pixel = data[i] | (data[i + 1] << 8) | (data[i + 2] << 16);
+      if (pixel !== firstPixel) uniform = false;
+      hash ^= pixel;
+      hash = Math.imul(hash, 16777619);
+    }
+    hashes[y] = hash >>> 0;
+    informative[y] = uniform ? 0 : 1;
+  }
+
+  return { hashes, informative };
+}
+
+function sliceRows(frame: ImageData, top: number, bottom: number): ImageData {
+  const rowBytes = frame.width * 4;
+  const rows = new Uint8ClampedArray(frame.data.buffer.slice(top * rowBytes, bottom * rowBytes));
+  return new ImageData(rows, frame.width, bottom - top);
+}
+
+// 把若干行按比例缩放绘制到 canvas 的第 y 行（原始坐标）处；上下边界取整，相邻条带之间不留缝
+function drawRowsScaled(ctx: CanvasRenderingContext2D, rows: ImageData, y: number, scale: number) {
+  const source = document.createElement('canvas');
+  source.width = rows.width;
+  source.height = rows.height;
+  source.getContext('2d')?.putImageData(rows, 0, 0);
+  const top = Math.round(y * scale);
+  const bottom = Math.max(top + 1, Math.round((y + rows.height) * scale));
+  ctx.drawImage(source, 0, top, ctx.canvas.width, bottom - top);
+}
+
+export class ScrollStitcher {
+  private width = 0;
+  private frameHeight = 0;
+  private headerHeight = 0;
+  private footerHeight = 0;
+  private bandsDetected = false;
+
+  private firstFrame: ImageData | null = null;
+  private lastFrame: ImageData | null = null;
+  private lastSignature: RowSignature | null = null;
+  private strips: ImageData[] = [];
+  private appendedHeight = 0;
+
+  // 增量预览：已绘制的条带数量及其总高度
+  private previewCanvas: HTMLCanvasElement | null = null;
+  private previewScale = 1;
+  private previewStrips = 0;
+  private previewAppended = 0;
+
+  /**
+   * 当前拼接结果的总高度（包含页眉和页脚）
+   */
+  get height(): number {
+    if (!this.firstFrame) return 0;
+    return this.frameHeight + this.appendedHeight;
+  }
+
+  get frameCount(): number {
+    return this.firstFrame ? this.strips.length + 1 : 0;
+  }
+
+  /**
+   * 添加一帧。帧宽高必须与第一帧一致
+   */
+  addFrame(frame: ImageData): StitchResult {
+    if (!this.firstFrame) {
+      this.width = frame.width;
+      this.frameHeight = frame.height;
+      this.firstFrame = frame;
+      this.lastFrame = frame;
+      this.lastSignature = computeRowSignature(frame);
+      return 'appended';
+    }
+
+    if (frame.width !== this.width || frame.height !== this.frameHeight) {
+      return 'no-match';
+    }
+
+    const prev = this.lastSignature!;
+    const curr = computeRowSignature(frame);
+    const h = this.frameHeight;
+
+    // 1. 找出两帧之间没有变化的顶部/底部区域
+    let top = 0;
+    while (top < h && prev.hashes[top] === curr.hashes[top]) top++;
+    if (top === h) return 'unchanged';
+    let bottom = 0;
+    while (bottom < h - top && prev.hashes[h - 1 - bottom] === curr.hashes[h - 1 - bottom]) bottom++;
+
+    // 页眉/页脚以第一次检测到滚动时的结果为准
+    if (!this.bandsDetected) {
+      // 顶部/底部的空白行无法区分是固定区域还是内容，只把含有内容的行算作页眉/页脚
+      while (top > 0 && !prev.informative[top - 1]) top--;
+      while (bottom > 0 && !prev.informative[h - bottom]) bottom--;
+      this.headerHeight = top;
+      this.footerHeight = bottom;
+      this.bandsDetected = true;
+    }
+
+    const bandTop = this.headerHeight;
+    const bandBottom = h - this.footerHeight;
+    const bandHeight = bandBottom - bandTop;
+
+    // 2. 在内容区域内寻找滚动偏移 d：当前帧第 i 行 == 上一帧第 i + d 行
+    let bestShift = 0;
+    let bestRatio = 0;
+    for (let d = 1; d < bandHeight - MIN_INFORMATIVE_ROWS; d++) {
+      let compared = 0;
+      let matched = 0;
+      for (let i = bandTop; i < bandBottom - d; i++) {
+        if (!curr.informative[i]) continue;
+        compared++;
+        if (curr.hashes[i] === prev.hashes[i + d]) matched++;
+      }
+      if (compared < MIN_INFORMATIVE_ROWS) continue;
+      const ratio = matched / compared;
+      if (ratio > bestRatio) {
+        bestRatio = ratio;
+        bestShift = d;
+        if (ratio === 1) break;
+      }
+    }
+
+    if (bestShift === 0 || bestRatio < MIN_MATCH_RATIO) {
+      return 'no-match';
+    }
+
+    if (this.height + bestShift > MAX_OUTPUT_HEIGHT) {
+      return 'limit-reached';
+    }
+
+    // 3. 追加新滚入的行（位于页脚之上的最后 d 行）
+    this.strips.push(sliceRows(frame, bandBottom - bestShift, bandBottom));
+    this.appendedHeight += bestShift;
+    this.lastFrame = frame;
+    this.lastSignature = curr;
+    return 'appended';
+  }
+
+  /**
+   * 把拼接结果绘制到 canvas 上，可指定缩放比例（用于实时预览）
+   */
+  render(canvas: HTMLCanvasElement, scale = 1): void {
+    if (!this.firstFrame || !this.lastFrame) return;
+
+    const full = document.createElement('canvas');
+    full.width = this.width;
+    full.height = this.height;
+    const fullCtx = full.getContext('2d');
+    if (!fullCtx) return;
+
+    const bandBottom = this.frameHeight - this.footerHeight;
+    fullCtx.putImageData(sliceRows(this.firstFrame, 0, bandBottom), 0, 0);
+    let y = bandBottom;
+    for (const strip of this.strips) {
+      fullCtx.putImageData(strip, 0, y);
+      y += strip.height;
+    }
+    if (this.footerHeight > 0) {
+      fullCtx.putImageData(sliceRows(this.lastFrame, bandBottom, this.frameHeight), 0, y);
+    }
+
+    canvas.width = Math.max(1, Math.round(this.width * scale));
+    canvas.height = Math.max(1, Math.round(this.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(full, 0, 0, canvas.width, canvas.height);
+  }
+
+  /**
+   * 增量更新缩小的实时预览：只绘制新追加的条带和页脚，不重绘整张长图。
+   * canvas 高度按最大输出高度预留，调用方只显示前 height * scale 像素
+   */
+  updatePreview(canvas: HTMLCanvasElement, scale: number): void {
+    if (!this.firstFrame || !this.lastFrame) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const bandBottom = this.frameHeight - this.footerHeight;
+    if (canvas !== this.previewCanvas || scale !== this.previewScale) {
+      canvas.width = Math.max(1, Math.round(this.width * scale));
+      canvas.height = Math.max(1, Math.ceil(MAX_OUTPUT_HEIGHT * scale));
+      ctx.imageSmoothingQuality = 'high';
+      this.previewCanvas = canvas;
+      this.previewScale = scale;
+      this.previewStrips = 0;
+      this.previewAppended = 0;
+      drawRowsScaled(ctx, sliceRows(this.firstFrame, 0, this.frameHeight), 0, scale);
+    }
+
+    // 新条带从上一次页脚的位置开始，覆盖旧页脚，再在末尾重画页脚
+    for (; this.previewStrips < this.strips.length; this.previewStrips++) {
+      const strip = this.strips[this.previewStrips];
+      drawRowsScaled(ctx, strip, bandBottom + this.previewAppended, scale);
+      this.previewAppended += strip.height;
+    }
+    if (this.footerHeight > 0) {
+      drawRowsScaled(ctx, sliceRows(this.lastFrame, bandBottom, this.frameHeight), bandBottom + this.previewAppended, scale);
+    }
+  }
+
+  toDataURL(): string {
+    const canvas = document.createElement('canvas');
+    this.render(canvas);
+    return canvas.toDataURL('image/png');
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Window Chrome
+ * 窗口截图后处理：裁掉系统阴影/不可见边框，可选圆角与统一的投影
+ */
+
+export interface WindowChromeOptions {
+  shadow?: boolean;       // 是否添加投影
+  cornerRadius?: number;  // 圆角半径（px），0 表示直角
+}
+
+// 不透明度低于该阈值的边缘像素视为阴影或不可见的缩放边框
+const OPAQUE_ALPHA_THRESHOLD = 230;
+// getUserMedia 取得的帧总是不透明的，阴影和缩放边框会被合成到纯色（通常是黑色）底上：
+// 与四角颜色相差在此容差内的像素同样视为边框
+const BORDER_COLOR_TOLERANCE = 32;
+// 按颜色判断时每边最多裁掉的像素数（Windows 不可见缩放边框为 8px），避免把边缘颜色单一的窗口内容当作边框
+const MAX_COLOR_TRIM = 10;
+// 按透明度判断时每边最多裁掉的比例
+const MAX_TRIM_RATIO = 0.1;
+
+const SHADOW_BLUR = 40;
+const SHADOW_OFFSET_Y = 16;
+const SHADOW_COLOR = 'rgba(0, 0, 0, 0.45)';
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+/**
+ * 计算窗口主体区域：从四边向内扫描，跳过整行/整列都是边框的部分
+ * （Windows 的 8px 不可见缩放边框、macOS 系统阴影都会被裁掉）。半透明的边缘最多裁掉每边的 MAX_TRIM_RATIO；
+ * 四角颜色一致时，距边缘 MAX_COLOR_TRIM 像素以内与其相近的像素也视为边框
+ */
+function findWindowBounds(data: Uint8ClampedArray, width: number, height: number) {
+  const index = (x: number, y: number) => (y * width + x) * 4;
+  const similar = (i: number, j: number) =>
+    Math.abs(data[i] - data[j]) <= BORDER_COLOR_TOLERANCE &&
+    Math.abs(data[i + 1] - data[j + 1]) <= BORDER_COLOR_TOLERANCE &&
+    Math.abs(data[i + 2] - data[j + 2]) <= BORDER_COLOR_TOLERANCE &&
+    Math.abs(data[i + 3] - data[j + 3]) <= BORDER_COLOR_TOLERANCE;
+  const reference = index(0, 0);
+  const hasBorderColor = [index(width - 1, 0), index(0, height - 1), index(width - 1, height - 1)].every((i) => similar(i, reference));
+  // depth 为该行/列距图片边缘的像素数
+  const isBorder = (i: number, depth: number) =>
+    data[i + 3] < OPAQUE_ALPHA_THRESHOLD || (hasBorderColor && depth < MAX_COLOR_TRIM && similar(i, reference));
+
+  const rowIsBorder = (y: number, depth: number) => {
+    for (let x = 0; x < width; x++) {
+      if (!isBorder(index(x, y), depth)) return false;
+    }
+    return true;
+  };
+  const colIsBorder = (x: number, depth: number, top: number, bottom: number) => {
+    for (let y = top; y <= bottom; y++) {
+      if (!isBorder(index(x, y), depth)) return false;
+    }
+    return true;
+  };
+
+  const maxTrimX = Math.floor(width * MAX_TRIM_RATIO);
+  const maxTrimY = Math.floor(height * MAX_TRIM_RATIO);
+  let top = 0;
+  while (top < maxTrimY && rowIsBorder(top, top)) top++;
+  let bottom = height - 1;
+  while (bottom > height - 1 - maxTrimY && rowIsBorder(bottom, height - 1 - bottom)) bottom--;
+  let left = 0;
+  while (left < maxTrimX && colIsBorder(left, left, top, bottom)) left++;
+  let right = width - 1;
+  while (right > width - 1 - maxTrimX && colIsBorder(right, width - 1 - right, top, bottom)) right--;
+
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * 对窗口截图应用裁剪、圆角与投影，返回 PNG data URL
+ */
+export async function applyWindowChrome(imageData: string, options: WindowChromeOptions = {}): Promise<string> {
+  if (!imageData) return imageData;
+
+  const img = await loadImage(imageData);
+  const source = document.createElement('canvas');
+  source.width = img.naturalWidth;
+  source.height = img.naturalHeight;
+  const sourceCtx = source.getContext('2d');
+  if (!sourceCtx) return imageData;
+  sourceCtx.drawImage(img, 0, 0);
+
+  const pixels = sourceCtx.getImageData(0, 0, source.width, source.height).data;
+  const body = findWindowBounds(pixels, source.width, source.height);
+
+  const radius = Math.max(0, Math.min(options.cornerRadius || 0, body.width / 2, body.height / 2));
+  const margin = options.shadow ? SHADOW_BLUR + SHADOW_OFFSET_Y : 0;
+
+  const output = document.createElement('canvas');
+  output.width = body.width + margin * 2;
+  output.height = body.height + margin * 2;
+  const ctx = output.getContext('2d');
+  if (!ctx) return imageData;
+
+  const drawBodyPath = () => {
+    ctx.beginPath();
+    ctx.roundRect(margin, margin, body.width, body.height, radius);
+  };
+
+  if (options.shadow) {
+    // 先绘制带投影的底板，再把窗口内容裁剪绘制在其上，避免阴影透过半透明像素
+    ctx.save();
+    ctx.shadowColor = SHADOW_COLOR;
+    ctx.shadowBlur = SHADOW_BLUR;
+    ctx.shadowOffsetY = SHADOW_OFFSET_Y;
+    ctx.fillStyle = '#000000';
+    drawBodyPath();
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.save();
+  drawBodyPath();
+  ctx.clip();
+  ctx.drawImage(source, body.x, body.y, body.width, body.height, margin, margin, body.width, body.height);
+  ctx.restore();
+
+  return output.toDataURL('image/png');
+}